@@ -1,8 +1,24 @@
-import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import {
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  RequestMethod,
+} from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { dataSourceOptions } from 'src/db/data-source';
 import { UserModule } from './user/user.module';
 import { BookModule } from './book/book.module';
+import { ReorderModule } from './reorder/reorder.module';
+import { AuthorModule } from './author/author.module';
+import { GenreModule } from './genre/genre.module';
+import { LocationModule } from './location/location.module';
+import { SupplierModule } from './supplier/supplier.module';
+import { PurchaseOrderModule } from './purchase-order/purchase-order.module';
+import { OrderModule } from './order/order.module';
+import { LoanModule } from './loan/loan.module';
+import { PromotionModule } from './promotion/promotion.module';
+import { ReportModule } from './report/report.module';
+import { LabelModule } from './label/label.module';
 import { CurrentUserMiddleware } from './utility/middlewares/current-user-middleware';
 import { JwtModule } from '@nestjs/jwt';
 import * as dotenv from 'dotenv';
@@ -16,9 +32,20 @@ dotenv.config();
     TypeOrmModule.forRoot(dataSourceOptions),
     UserModule,
     BookModule,
+    ReorderModule,
+    AuthorModule,
+    GenreModule,
+    LocationModule,
+    SupplierModule,
+    PurchaseOrderModule,
+    OrderModule,
+    LoanModule,
+    PromotionModule,
+    ReportModule,
+    LabelModule,
     JwtModule.register({
       secret: process.env.ACCESS_TOKEN_SECRET_KEY,
-      signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME},
+      signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME },
     }),
   ],
   providers: [
@@ -34,7 +61,20 @@ export class AppModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
     consumer
       .apply(CurrentUserMiddleware)
-      .exclude('user/signin', 'user/signup')
+      .exclude(
+        'user/signin',
+        'user/signin/2fa',
+        'user/signup',
+        'user/refresh',
+        'user/forgot-password',
+        'user/reset-password',
+        'user/verify-email',
+        'user/resend-verification',
+        {
+          path: 'book/:id/cover/:variant',
+          method: RequestMethod.GET,
+        },
+      )
       .forRoutes('*');
   }
 }
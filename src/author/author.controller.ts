@@ -0,0 +1,14 @@
+import { Controller } from '@nestjs/common';
+import { AuthorService } from './author.service';
+import { AuthorDto } from './dto/author.dto';
+import { AuthorEntity } from './entities/author.entity';
+import { CreditController } from '../utility/credit/credit.controller';
+
+@Controller('author')
+export class AuthorController extends CreditController<AuthorEntity, AuthorDto>(
+  AuthorDto,
+) {
+  constructor(authorService: AuthorService) {
+    super(authorService);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import * as dotenv from 'dotenv';
+import { AuthorService } from './author.service';
+import { AuthorController } from './author.controller';
+import { AuthorEntity } from './entities/author.entity';
+import { BookEntity } from '../book/entities/book.entity';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+
+dotenv.config();
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([AuthorEntity, BookEntity]),
+    JwtModule.register({
+      secret: process.env.ACCESS_TOKEN_SECRET_KEY,
+      signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME },
+    }),
+  ],
+  controllers: [AuthorController],
+  providers: [AuthorService, JwtAuthGuard],
+})
+export class AuthorModule {}
@@ -0,0 +1,23 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AuthorEntity } from './entities/author.entity';
+import { AuthorDto } from './dto/author.dto';
+import { BookEntity } from '../book/entities/book.entity';
+import { CreditService } from '../utility/credit/credit.service';
+
+@Injectable()
+export class AuthorService extends CreditService<AuthorEntity, AuthorDto> {
+  constructor(
+    @InjectRepository(AuthorEntity)
+    authorEntityRepository: Repository<AuthorEntity>,
+    @InjectRepository(BookEntity)
+    bookEntityRepository: Repository<BookEntity>,
+  ) {
+    super(authorEntityRepository, bookEntityRepository, {
+      alias: 'author',
+      joinTable: 'BookAuthors',
+      article: 'An author',
+    });
+  }
+}
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsOptional, IsString, Matches } from 'class-validator';
+
+export class AuthorDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Author name is Required' })
+  @Matches(/^[^;]*$/, { message: 'Author name cannot contain a semicolon' })
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  bio?: string;
+}
@@ -3,12 +3,21 @@ import {
   Get,
   Post,
   Body,
+  Headers,
   Patch,
   Param,
+  ParseEnumPipe,
   Delete,
   Query,
+  Req,
+  Res,
+  StreamableFile,
+  UploadedFile,
   UseGuards,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Request, Response } from 'express';
 import { BookService } from './book.service';
 import { BookDto } from './dto/book.dto';
 import { BookEntity } from './entities/book.entity';
@@ -16,6 +25,32 @@ import { Status } from '../enum/book-enum';
 import { JwtAuthGuard } from '../utility/guards/authentication-guard';
 import { Roles } from '../utility/decorators/role-decorator';
 import { RoleTypes } from '../enum/user-enum';
+import { BookQueryDto } from './dto/book-query.dto';
+import { BookFilterQueryDto } from './dto/book-filter-query.dto';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+import { BookFromIsbnDto } from './dto/book-from-isbn.dto';
+import { CurrentUser } from '../utility/decorators/current-user-decorator';
+import { UserEntity } from '../user/entities/user.entity';
+import { StockMovementDto } from './dto/stock-movement.dto';
+import { StockMovementEntity } from './entities/stock-movement.entity';
+import { PaginationQueryDto } from '../utility/dto/pagination-query.dto';
+import { BookImportQueryDto } from './dto/book-import-query.dto';
+import { BookImportResult } from './interfaces/book-import-result.interface';
+import { BookExportQueryDto } from './dto/book-export-query.dto';
+import { FileFormat } from '../enum/file-format-enum';
+import { BookSearchResult } from './interfaces/book-search-result.interface';
+import { BookPurgeQueryDto } from './dto/book-purge-query.dto';
+import { BookRevisionEntity } from './entities/book-revision.entity';
+import { BookStockEntity } from '../location/entities/book-stock.entity';
+import { StockTransferDto } from './dto/stock-transfer.dto';
+import { PriceHistoryEntity } from './entities/price-history.entity';
+import { PricePreviewQueryDto } from './dto/price-preview-query.dto';
+import { PricePreview } from './interfaces/price-preview.interface';
+import { CoverVariant } from '../enum/cover-enum';
+import { COVER_MAX_SIZE } from './helpers/book-cover';
+import { parseIfMatch, toEtag } from '../utility/helpers/etag';
+import { BookBrowseQueryDto } from './dto/book-browse-query.dto';
+import { BookBrowseResult } from './interfaces/book-browse-result.interface';
 
 @Controller('book')
 export class BookController {
@@ -28,6 +63,7 @@ export class BookController {
    * The method delegates the creation process to the `bookService`.
    *
    * @param bookDto - An object containing the details of the book to be created.
+   * @param currentUser - The currently authenticated user, recorded as the creator of the book.
    * @returns A promise that resolves to the newly created book entity.
    *
    * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
@@ -35,24 +71,132 @@ export class BookController {
   @Post()
   @UseGuards(JwtAuthGuard)
   @Roles(RoleTypes.ADMIN)
-  async create(@Body() bookDto: BookDto): Promise<BookEntity> {
-    return await this.bookService.create(bookDto);
+  async create(
+    @Body() bookDto: BookDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<BookEntity> {
+    return await this.bookService.create(bookDto, currentUser);
+  }
+
+  /**
+   * Creates a new book from its ISBN.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have an `ADMIN` role.
+   * The title, author, genre, description and publish date are filled in by the book metadata provider.
+   *
+   * @param bookFromIsbnDto - An object containing the ISBN, price and quantity of the book.
+   * @param currentUser - The currently authenticated user, recorded as the creator of the book.
+   * @returns A promise that resolves to the newly created book entity.
+   *
+   * @throws BadRequestException - If the ISBN is invalid or a book with the same ISBN already exists.
+   * @throws NotFoundException - If no metadata is found for the ISBN.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post('isbn')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async createFromIsbn(
+    @Body() bookFromIsbnDto: BookFromIsbnDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<BookEntity> {
+    return await this.bookService.createFromIsbn(bookFromIsbnDto, currentUser);
+  }
+
+  /**
+   * Imports books in bulk from a CSV or JSON file.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have an `ADMIN` role.
+   * The file is uploaded as the `file` field of a multipart form. Each row is validated like `POST /book`;
+   * existing books are matched by ISBN, or by title, author and publish date, and updated in place.
+   * With `dryRun=true` nothing is written and the response reports what would happen to each row.
+   *
+   * @param file - The uploaded CSV (with a header row) or JSON array of books.
+   * @param bookImportQueryDto - (Optional) The `dryRun` query parameter.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the per-row import report.
+   *
+   * @throws BadRequestException - If the file is missing or cannot be parsed.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post('import')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 10 * 1024 * 1024 } }),
+  )
+  async importBooks(
+    @UploadedFile() file: Express.Multer.File,
+    @Query() bookImportQueryDto: BookImportQueryDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<BookImportResult> {
+    return await this.bookService.importBooks(
+      file,
+      bookImportQueryDto.dryRun === 'true',
+      currentUser,
+    );
+  }
+
+  /**
+   * Exports every book matching the filters as a CSV or JSON download.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have an `ADMIN` role.
+   * It accepts the same filters and sort options as `GET /book`; the file is streamed rather than paged.
+   * The CSV columns match the import format, so an export can be edited and imported again.
+   *
+   * @param title - (Optional) Filter by book title (partial match).
+   * @param author - (Optional) Filter by author name (partial match).
+   * @param genre - (Optional) Filter by book genre (partial match).
+   * @param status - (Optional) Filter by the status of the book.
+   * @param publish_date - (Optional) Filter by the publish date of the book (must be a valid date string).
+   * @param bookExportQueryDto - (Optional) `format` (`csv` or `json`), `sortBy` and `sortOrder` query parameters.
+   * @returns The exported file as a stream.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('export')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  exportBooks(
+    @Query('title') title?: string,
+    @Query('author') author?: string,
+    @Query('genre') genre?: string,
+    @Query('status') status?: Status,
+    @Query('publish_date') publish_date?: string,
+    @Query() bookExportQueryDto?: BookExportQueryDto,
+  ): StreamableFile {
+    const format = bookExportQueryDto?.format || FileFormat.CSV;
+    const stream = this.bookService.exportBooks(
+      title,
+      author,
+      genre,
+      status,
+      publish_date,
+      bookExportQueryDto,
+    );
+    return new StreamableFile(stream, {
+      type: format === FileFormat.CSV ? 'text/csv' : 'application/json',
+      disposition: `attachment; filename="books.${format}"`,
+    });
   }
 
   /**
    * Retrieves a list of books filtered by optional query parameters.
    *
    * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
-   * The method supports filtering by title, author, genre, status, and publish date.
-   * If no filters are provided, all books are returned.
+   * The method supports filtering by title, author, genre, status, and publish date, and with `filter` expressions
+   * such as `price:between:10,20`, `quantity:lt:5`, `updatedAt:gte:-7d` or `genre:in:Fantasy,Horror`.
+   * If no filters are provided, all books are returned, one page at a time.
    *
    * @param title - (Optional) Filter by book title (partial match).
    * @param author - (Optional) Filter by author name (partial match).
    * @param genre - (Optional) Filter by book genre (partial match).
    * @param status - (Optional) Filter by the status of the book.
    * @param publish_date - (Optional) Filter by the publish date of the book (must be a valid date string).
-   * @returns A promise that resolves to an array of book entities matching the filters.
+   * @param bookFilterQueryDto - (Optional) `page`, `limit`, `sortBy` and `sortOrder` query parameters, `locationId` to only list books in stock at that location,
+   * and `filter` expressions (`<field>:<operator>:<value>`, repeated or separated by `;`).
+   * @returns A promise that resolves to a page of book entities matching the filters, with the total count and next-page info.
    *
+   * @throws BadRequestException - If a filter expression is malformed, naming the problem.
    * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
    */
   @Get()
@@ -64,19 +208,51 @@ export class BookController {
     @Query('genre') genre?: string,
     @Query('status') status?: Status,
     @Query('publish_date') publish_date?: string,
-  ): Promise<BookEntity[]> {
-    return this.bookService.findAll(title, author, genre, status, publish_date);
+    @Query() bookFilterQueryDto?: BookFilterQueryDto,
+  ): Promise<PaginatedResult<BookEntity>> {
+    return this.bookService.findAll(
+      title,
+      author,
+      genre,
+      status,
+      publish_date,
+      bookFilterQueryDto,
+    );
+  }
+
+  /**
+   * Retrieves a page of books with facet counts, for browsing with filter sidebars.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   * Books can be filtered by several genres, authors, statuses, price bands and publish years at once, given as
+   * repeated or comma-separated query parameters; within a facet any selected value matches. The response lists,
+   * for each facet, how many books match each value given the filters of the other facets.
+   *
+   * @param bookBrowseQueryDto - (Optional) `genreIds`, `authorIds`, `statuses`, `priceBands` (`under-10`, `10-20`, `20-50`, `50-100`, `100-plus`)
+   * and `publishYears` facet filters, plus `title`, `locationId`, `page`, `limit`, `sortBy` and `sortOrder` query parameters.
+   * @returns A promise that resolves to a page of matching books and the facet counts.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('browse')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async browse(
+    @Query() bookBrowseQueryDto: BookBrowseQueryDto,
+  ): Promise<BookBrowseResult> {
+    return await this.bookService.browse(bookBrowseQueryDto);
   }
 
   /**
-   * Searches for books based on a query string.
+   * Searches for books based on a query string, most relevant first.
    *
    * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
-   * The query string is used to search across multiple fields, including title, author, genre, status, and publish date.
-   * Partial matches are supported for string fields. If the query matches a valid status or date, it is used for filtering.
+   * The query string is matched with full-text search across title, author, genre and description, weighted in that order.
+   * Words match as prefixes, so partial input works while typing; if nothing matches, a typo-tolerant search is used instead.
    *
-   * @param query - The search term used to filter books. It can be a partial string, a valid status, or a date.
-   * @returns A promise that resolves to an array of books matching the search criteria.
+   * @param query - The search text.
+   * @param bookQueryDto - (Optional) `page`, `limit`, `sortBy` and `sortOrder` query parameters. Without `sortBy`, results are ranked by relevance.
+   * @returns A promise that resolves to a page of search results, each with its rank and highlighted snippets.
    *
    * @throws BadRequestException - If the query string is empty.
    * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
@@ -84,17 +260,60 @@ export class BookController {
   @Get('search')
   @UseGuards(JwtAuthGuard)
   @Roles(RoleTypes.USER, RoleTypes.ADMIN)
-  async searchBook(@Query('query') query: string): Promise<BookEntity[]> {
-    return this.bookService.searchBook(query);
+  async searchBook(
+    @Query('query') query: string,
+    @Query() bookQueryDto?: BookQueryDto,
+  ): Promise<PaginatedResult<BookSearchResult>> {
+    return this.bookService.searchBook(query, bookQueryDto);
+  }
+
+  /**
+   * Retrieves a single book by its ISBN.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   * Both ISBN-10 and ISBN-13 are accepted, with or without hyphens.
+   *
+   * @param isbn - The ISBN of the book to retrieve.
+   * @returns A promise that resolves to the book entity if found.
+   *
+   * @throws BadRequestException - If the ISBN is invalid.
+   * @throws NotFoundException - If no book is found with the given ISBN.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('isbn/:isbn')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async findByIsbn(@Param('isbn') isbn: string): Promise<BookEntity> {
+    return await this.bookService.findByIsbn(isbn);
+  }
+
+  /**
+   * Retrieves the books in the trash, most recently deleted first.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param paginationQueryDto - (Optional) `page` and `limit` query parameters.
+   * @returns A promise that resolves to a page of soft-deleted books.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('trash')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findTrash(
+    @Query() paginationQueryDto: PaginationQueryDto,
+  ): Promise<PaginatedResult<BookEntity>> {
+    return await this.bookService.findTrash(paginationQueryDto);
   }
 
   /**
    * Retrieves a single book by its ID.
    *
    * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
-   * It returns the book entity that matches the provided ID.
+   * It returns the book entity that matches the provided ID, with its version as the `ETag` header.
    *
    * @param id - The unique identifier of the book to retrieve.
+   * @param response - The outgoing response, used to set the `ETag` header.
    * @returns A promise that resolves to the book entity if found.
    *
    * @throws NotFoundException - If no book is found with the given ID.
@@ -103,8 +322,13 @@ export class BookController {
   @Get(':id')
   @UseGuards(JwtAuthGuard)
   @Roles(RoleTypes.USER, RoleTypes.ADMIN)
-  async findOne(@Param('id') id: string): Promise<BookEntity> {
-    return await this.bookService.findOne(id);
+  async findOne(
+    @Param('id') id: string,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<BookEntity> {
+    const book = await this.bookService.findOne(id);
+    response.set('ETag', toEtag(book.version));
+    return book;
   }
 
   /**
@@ -112,12 +336,19 @@ export class BookController {
    *
    * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
    * It updates the book entity that matches the provided ID with the fields specified in the `bookDto`.
+   * When an `If-Match` header carries the `ETag` of an earlier read, the update only goes through if the book
+   * has not changed since. The response carries the new `ETag`.
    *
    * @param id - The unique identifier of the book to update.
    * @param bookDto - An object containing the updated details of the book.
+   * @param currentUser - The currently authenticated user, recorded as the author of the revision.
+   * @param ifMatch - (Optional) The `If-Match` header.
+   * @param response - The outgoing response, used to set the `ETag` header.
    * @returns A promise that resolves to the updated book entity.
    *
    * @throws NotFoundException - If no book is found with the given ID.
+   * @throws BadRequestException - If the `If-Match` header is not an `ETag` of the book.
+   * @throws PreconditionFailedException - If the book has changed since the `If-Match` version; the response carries the current version.
    * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
    */
   @Patch(':id')
@@ -126,25 +357,349 @@ export class BookController {
   async update(
     @Param('id') id: string,
     @Body() bookDto: BookDto,
+    @CurrentUser() currentUser: UserEntity,
+    @Headers('if-match') ifMatch: string,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<BookEntity> {
+    const book = await this.bookService.update(
+      id,
+      bookDto,
+      currentUser,
+      parseIfMatch(ifMatch),
+    );
+    response.set('ETag', toEtag(book.version));
+    return book;
+  }
+
+  /**
+   * Retrieves the revision history of a book, most recent first.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   * Each revision records the action, who performed it, when, and the old and new value of every changed field.
+   *
+   * @param id - The unique identifier of the book.
+   * @param paginationQueryDto - (Optional) `page` and `limit` query parameters.
+   * @returns A promise that resolves to a page of revisions.
+   *
+   * @throws NotFoundException - If no book is found with the given ID.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get(':id/history')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findRevisions(
+    @Param('id') id: string,
+    @Query() paginationQueryDto: PaginationQueryDto,
+  ): Promise<PaginatedResult<BookRevisionEntity>> {
+    return await this.bookService.findRevisions(id, paginationQueryDto);
+  }
+
+  /**
+   * Reverts a book's catalog fields to how they were right after the given revision.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   * Quantity and status are not reverted, since they follow the stock ledger.
+   *
+   * @param id - The unique identifier of the book.
+   * @param revisionId - The unique identifier of the revision to revert to.
+   * @param currentUser - The currently authenticated user, recorded as the author of the revert.
+   * @returns A promise that resolves to the reverted book entity.
+   *
+   * @throws NotFoundException - If the book or the revision is not found.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post(':id/history/:revisionId/revert')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async revert(
+    @Param('id') id: string,
+    @Param('revisionId') revisionId: string,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<BookEntity> {
+    return await this.bookService.revert(id, revisionId, currentUser);
+  }
+
+  /**
+   * Retrieves the price history of a book, most recent first.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the book.
+   * @param paginationQueryDto - (Optional) `page` and `limit` query parameters.
+   * @returns A promise that resolves to a page of price history entries.
+   *
+   * @throws NotFoundException - If no book is found with the given ID.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get(':id/price-history')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findPriceHistory(
+    @Param('id') id: string,
+    @Query() paginationQueryDto: PaginationQueryDto,
+  ): Promise<PaginatedResult<PriceHistoryEntity>> {
+    return await this.bookService.findPriceHistory(id, paginationQueryDto);
+  }
+
+  /**
+   * Previews the price of a book on a given date, with promotions running at that moment applied.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param id - The unique identifier of the book.
+   * @param pricePreviewQueryDto - (Optional) `date` query parameter; now when omitted.
+   * @returns A promise that resolves to the list price, the effective price and the applied promotion.
+   *
+   * @throws NotFoundException - If no book is found with the given ID.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get(':id/price')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async previewPrice(
+    @Param('id') id: string,
+    @Query() pricePreviewQueryDto: PricePreviewQueryDto,
+  ): Promise<PricePreview> {
+    return await this.bookService.previewPrice(id, pricePreviewQueryDto.date);
+  }
+
+  /**
+   * Uploads the cover image of a book.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   * The image is uploaded as the `file` field of a multipart form; JPEG, PNG and WebP images up to 5 MB
+   * are accepted. Thumbnail, medium and large variants are generated and replace the previous cover.
+   *
+   * @param id - The unique identifier of the book.
+   * @param file - The uploaded image.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the book, with the URLs of its new cover variants.
+   *
+   * @throws BadRequestException - If the file is missing, too large, or not a readable image of an accepted type.
+   * @throws NotFoundException - If no book is found with the given ID.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post(':id/cover')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: COVER_MAX_SIZE } }),
+  )
+  async uploadCover(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() currentUser: UserEntity,
   ): Promise<BookEntity> {
-    return await this.bookService.update(id, bookDto);
+    return await this.bookService.uploadCover(id, file, currentUser);
   }
 
   /**
-   * Deletes a book by its ID.
+   * Streams one variant of a book's cover image.
+   *
+   * This endpoint is public, so covers can be used directly as image sources by the storefront.
+   * Responses can be cached for a day and carry the cover version as `ETag`; a request whose
+   * `If-None-Match` matches the current version gets `304 Not Modified`.
+   *
+   * @param id - The unique identifier of the book.
+   * @param variant - `thumbnail`, `medium` or `large`.
+   * @param request - The incoming request.
+   * @param response - The outgoing response, used to set the caching headers.
+   * @returns A promise that resolves to the image stream, or nothing when not modified.
+   *
+   * @throws NotFoundException - If the book is not found or has no cover.
+   * @throws BadRequestException - If the variant is not known.
+   */
+  @Get(':id/cover/:variant')
+  async findCover(
+    @Param('id') id: string,
+    @Param('variant', new ParseEnumPipe(CoverVariant)) variant: CoverVariant,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<StreamableFile | void> {
+    const { file, version } = await this.bookService.findCover(id, variant);
+    const etag = toEtag(version);
+    response.set({
+      'Cache-Control': 'public, max-age=86400',
+      ETag: etag,
+    });
+    if (request.headers['if-none-match'] === etag) {
+      file.body.destroy();
+      response.status(304);
+      return;
+    }
+
+    return new StreamableFile(file.body, {
+      type: file.contentType,
+      length: file.size,
+    });
+  }
+
+  /**
+   * Records a stock movement (receipt, sale, return, adjustment or write-off) against a book.
    *
    * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
-   * It attempts to delete the book entity that matches the provided ID.
+   * The stock at the given location (or the default location) changes, and the book's total quantity and status
+   * are updated in the same transaction as the ledger entry.
+   *
+   * @param id - The unique identifier of the book.
+   * @param stockMovementDto - An object containing the movement type, quantity, optional reason and optional location.
+   * @param currentUser - The currently authenticated user, recorded as the actor of the movement.
+   * @returns A promise that resolves to the recorded stock movement.
+   *
+   * @throws NotFoundException - If no book is found with the given ID.
+   * @throws BadRequestException - If the movement would take the quantity below zero.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post(':id/stock-movements')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async recordStockMovement(
+    @Param('id') id: string,
+    @Body() stockMovementDto: StockMovementDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<StockMovementEntity> {
+    return await this.bookService.recordStockMovement(
+      id,
+      stockMovementDto,
+      currentUser,
+    );
+  }
+
+  /**
+   * Retrieves the stock movement history of a book, most recent first.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the book.
+   * @param paginationQueryDto - (Optional) `page` and `limit` query parameters.
+   * @returns A promise that resolves to a page of stock movements.
+   *
+   * @throws NotFoundException - If no book is found with the given ID.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get(':id/stock-movements')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findStockMovements(
+    @Param('id') id: string,
+    @Query() paginationQueryDto: PaginationQueryDto,
+  ): Promise<PaginatedResult<StockMovementEntity>> {
+    return await this.bookService.findStockMovements(id, paginationQueryDto);
+  }
+
+  /**
+   * Retrieves the stock of a book at each location.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param id - The unique identifier of the book.
+   * @returns A promise that resolves to the stock records of the book, with their locations.
+   *
+   * @throws NotFoundException - If no book is found with the given ID.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get(':id/stock')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async findStock(@Param('id') id: string): Promise<BookStockEntity[]> {
+    return await this.bookService.findStock(id);
+  }
+
+  /**
+   * Moves copies of a book from one location to another in a single transaction.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   * The book's total quantity and status are unchanged.
+   *
+   * @param id - The unique identifier of the book.
+   * @param stockTransferDto - An object containing the source and destination location IDs, the quantity and an optional reason.
+   * @param currentUser - The currently authenticated user, recorded as the actor of the transfer.
+   * @returns A promise that resolves to the outgoing and incoming stock movements.
+   *
+   * @throws NotFoundException - If no book or location is found with the given ID.
+   * @throws BadRequestException - If both locations are the same or the source location has too few copies.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post(':id/transfers')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async transferStock(
+    @Param('id') id: string,
+    @Body() stockTransferDto: StockTransferDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<StockMovementEntity[]> {
+    return await this.bookService.transferStock(
+      id,
+      stockTransferDto,
+      currentUser,
+    );
+  }
+
+  /**
+   * Moves a book to the trash.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   * The book is soft-deleted and can be restored from the trash until it is purged.
    *
    * @param id - The unique identifier of the book to delete.
-   * @returns A promise that resolves to `true` if the book was successfully deleted, otherwise `false`.
+   * @param currentUser - The currently authenticated user, recorded as the one who deleted the book.
+   * @returns A promise that resolves to `true` if the book was moved to the trash, otherwise `false`.
    *
    * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
    */
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
   @Roles(RoleTypes.ADMIN)
-  async remove(@Param('id') id: string): Promise<boolean> {
-    return await this.bookService.remove(id);
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<boolean> {
+    return await this.bookService.remove(id, currentUser);
+  }
+
+  /**
+   * Restores a book from the trash.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the book to restore.
+   * @param currentUser - The currently authenticated user, recorded as the one who restored the book.
+   * @returns A promise that resolves to the restored book entity.
+   *
+   * @throws NotFoundException - If no book with the given ID is in the trash.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Patch(':id/restore')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async restore(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<BookEntity> {
+    return await this.bookService.restore(id, currentUser);
+  }
+
+  /**
+   * Permanently deletes a book from the trash.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   * Books that still have stock are only purged with `force=true`.
+   *
+   * @param id - The unique identifier of the book to purge.
+   * @param bookPurgeQueryDto - (Optional) The `force` query parameter.
+   * @returns A promise that resolves to `true` if the book was purged, otherwise `false`.
+   *
+   * @throws NotFoundException - If no book with the given ID is in the trash.
+   * @throws BadRequestException - If the book still has stock and `force` is not set.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Delete(':id/purge')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async purge(
+    @Param('id') id: string,
+    @Query() bookPurgeQueryDto: BookPurgeQueryDto,
+  ): Promise<boolean> {
+    return await this.bookService.purge(id, bookPurgeQueryDto.force === 'true');
   }
 }
@@ -3,20 +3,52 @@ import { BookService } from './book.service';
 import { BookController } from './book.controller';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { BookEntity } from './entities/book.entity';
+import { StockMovementEntity } from './entities/stock-movement.entity';
+import { BookRevisionEntity } from './entities/book-revision.entity';
 import { JwtModule } from '@nestjs/jwt';
 import * as dotenv from 'dotenv';
 import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+import { BOOK_METADATA_PROVIDER } from './metadata/book-metadata-provider.interface';
+import { FixtureBookMetadataProvider } from './metadata/fixture-book-metadata.provider';
+import { STORAGE_ADAPTER } from '../utility/storage/storage-adapter.interface';
+import { LocalStorageAdapter } from '../utility/storage/local-storage.adapter';
+import { ReorderModule } from '../reorder/reorder.module';
+import { LocationEntity } from '../location/entities/location.entity';
+import { BookStockEntity } from '../location/entities/book-stock.entity';
+import { PriceHistoryEntity } from './entities/price-history.entity';
+import { PromotionModule } from '../promotion/promotion.module';
 
 dotenv.config();
 @Module({
   imports: [
-    TypeOrmModule.forFeature([BookEntity]),
+    TypeOrmModule.forFeature([
+      BookEntity,
+      StockMovementEntity,
+      BookRevisionEntity,
+      LocationEntity,
+      BookStockEntity,
+      PriceHistoryEntity,
+    ]),
+    ReorderModule,
+    PromotionModule,
     JwtModule.register({
       secret: process.env.ACCESS_TOKEN_SECRET_KEY,
       signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME },
     }),
   ],
   controllers: [BookController],
-  providers: [BookService, JwtAuthGuard],
+  exports: [BookService],
+  providers: [
+    BookService,
+    JwtAuthGuard,
+    {
+      provide: BOOK_METADATA_PROVIDER,
+      useClass: FixtureBookMetadataProvider,
+    },
+    {
+      provide: STORAGE_ADAPTER,
+      useClass: LocalStorageAdapter,
+    },
+  ],
 })
 export class BookModule {}
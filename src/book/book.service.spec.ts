@@ -0,0 +1,363 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { EntityManager, Repository } from 'typeorm';
+import { BookService } from './book.service';
+import { BookEntity } from './entities/book.entity';
+import { StockMovementEntity } from './entities/stock-movement.entity';
+import { BookStockEntity } from '../location/entities/book-stock.entity';
+import { LocationEntity } from '../location/entities/location.entity';
+import { ReorderService } from '../reorder/reorder.service';
+import { PromotionService } from '../promotion/promotion.service';
+import { BookMetadataProvider } from './metadata/book-metadata-provider.interface';
+import { StorageAdapter } from '../utility/storage/storage-adapter.interface';
+import { UserEntity } from '../user/entities/user.entity';
+import { Status, StockMovementType } from '../enum/book-enum';
+
+type Row = object;
+type EntityClass = new () => Row;
+
+/**
+ * Builds an entity manager over in-memory rows, enough for the stock paths of the service:
+ * lookups by equal fields, saves, and the insert-or-ignore of a book's stock record.
+ */
+function createManager(tables: Map<EntityClass, Row[]>) {
+  const rowsOf = (entity: EntityClass) => {
+    if (!tables.has(entity)) {
+      tables.set(entity, []);
+    }
+    return tables.get(entity);
+  };
+  const matches = (row: Row, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, value]) => row[key] === value);
+
+  return {
+    findOne: jest.fn(
+      async (
+        entity: EntityClass,
+        { where }: { where: Record<string, unknown> },
+      ) => rowsOf(entity).find((row) => matches(row, where)) ?? null,
+    ),
+    create: jest.fn((entity: EntityClass, values: Row) =>
+      Object.assign(new entity(), values),
+    ),
+    save: jest.fn(async (row: Row) => {
+      const rows = rowsOf(row.constructor as EntityClass);
+      if (!rows.includes(row)) {
+        rows.push(row);
+      }
+      return row;
+    }),
+    createQueryBuilder: jest.fn(() => {
+      const insert = {
+        into: () => insert,
+        values: (values: BookStockEntity) => {
+          const { bookId, locationId } = values;
+          insert.execute = async () => {
+            const stocks = rowsOf(BookStockEntity);
+            if (!stocks.some((row) => matches(row, { bookId, locationId }))) {
+              stocks.push(Object.assign(new BookStockEntity(), values));
+            }
+          };
+          return insert;
+        },
+        orIgnore: () => insert,
+        execute: async () => undefined,
+      };
+      return { insert: () => insert };
+    }),
+  };
+}
+
+describe('BookService', () => {
+  const currentUser = Object.assign(new UserEntity(), {
+    id: 7,
+    email: 'clerk@example.com',
+  });
+  let tables: Map<EntityClass, Row[]>;
+  let manager: ReturnType<typeof createManager>;
+  let repository: { manager: { transaction: jest.Mock } };
+  let reorderService: { raiseAlertIfNeeded: jest.Mock };
+  let book: BookEntity;
+  let store: LocationEntity;
+  let branch: LocationEntity;
+  let service: BookService;
+
+  /** The copies of the book recorded at a location. */
+  const stockAt = (location: LocationEntity) =>
+    (tables.get(BookStockEntity) as BookStockEntity[]).find(
+      (stock) => stock.locationId === location.id,
+    )?.quantity;
+
+  beforeEach(() => {
+    book = Object.assign(new BookEntity(), {
+      id: 'book-1',
+      title: 'Dune',
+      quantity: 3,
+      status: Status.IN_STOKE,
+    });
+    store = Object.assign(new LocationEntity(), {
+      id: 1,
+      name: 'Store',
+      isDefault: true,
+    });
+    branch = Object.assign(new LocationEntity(), {
+      id: 2,
+      name: 'Branch',
+      isDefault: false,
+    });
+    tables = new Map<EntityClass, Row[]>([
+      [BookEntity, [book]],
+      [LocationEntity, [store, branch]],
+      [
+        BookStockEntity,
+        [
+          Object.assign(new BookStockEntity(), {
+            bookId: book.id,
+            locationId: store.id,
+            quantity: 3,
+          }),
+        ],
+      ],
+    ]);
+    manager = createManager(tables);
+    repository = {
+      manager: {
+        transaction: jest.fn(async (work) => await work(manager)),
+      },
+    };
+    reorderService = { raiseAlertIfNeeded: jest.fn() };
+    service = new BookService(
+      repository as unknown as Repository<BookEntity>,
+      {} as BookMetadataProvider,
+      reorderService as unknown as ReorderService,
+      {} as PromotionService,
+      {} as StorageAdapter,
+    );
+  });
+
+  describe('recordStockMovement', () => {
+    it('adds received copies at the default location and records them in the ledger', async () => {
+      const movement = await service.recordStockMovement(
+        book.id,
+        { type: StockMovementType.RECEIPT, quantity: 2, reason: 'Delivery' },
+        currentUser,
+      );
+
+      expect(book.quantity).toBe(5);
+      expect(stockAt(store)).toBe(5);
+      expect(movement).toBeInstanceOf(StockMovementEntity);
+      expect(movement).toMatchObject({
+        bookId: book.id,
+        type: StockMovementType.RECEIPT,
+        quantityDelta: 2,
+        quantityAfter: 5,
+        locationId: store.id,
+        reason: 'Delivery',
+        actorId: currentUser.id,
+        createdBy: currentUser.email,
+      });
+      expect(repository.manager.transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('marks the book out of stock when its last copies are sold', async () => {
+      const movement = await service.recordStockMovement(book.id, {
+        type: StockMovementType.SALE,
+        quantity: 3,
+      });
+
+      expect(movement).toMatchObject({
+        quantityDelta: -3,
+        quantityAfter: 0,
+        createdBy: 'System',
+      });
+      expect(book).toMatchObject({ quantity: 0, status: Status.OUT_OF_STOKE });
+    });
+
+    it('takes negative adjustments out of stock and marks restocked books in stock', async () => {
+      book.quantity = 0;
+      book.status = Status.OUT_OF_STOKE;
+      tables.get(BookStockEntity).length = 0;
+
+      await service.recordStockMovement(book.id, {
+        type: StockMovementType.ADJUSTMENT,
+        quantity: 4,
+      });
+      expect(book).toMatchObject({ quantity: 4, status: Status.IN_STOKE });
+
+      const movement = await service.recordStockMovement(book.id, {
+        type: StockMovementType.ADJUSTMENT,
+        quantity: -1,
+      });
+      expect(movement.quantityDelta).toBe(-1);
+      expect(stockAt(store)).toBe(3);
+    });
+
+    it('refuses to sell more copies than are in stock', async () => {
+      await expect(
+        service.recordStockMovement(book.id, {
+          type: StockMovementType.SALE,
+          quantity: 4,
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'Insufficient stock: only 3 copies of "Dune" available at Store',
+        ),
+      );
+      expect(book.quantity).toBe(3);
+      expect(stockAt(store)).toBe(3);
+    });
+
+    it.each([
+      [StockMovementType.RECEIPT, 0, 'Quantity must be greater than zero'],
+      [StockMovementType.SALE, -1, 'Quantity must be greater than zero'],
+      [StockMovementType.ADJUSTMENT, 0, 'Adjustment quantity cannot be zero'],
+      [
+        StockMovementType.TRANSFER_IN,
+        1,
+        'Use a stock transfer to move copies between locations',
+      ],
+    ])('rejects %s movements of %d', async (type, quantity, message) => {
+      await expect(
+        service.recordStockMovement(book.id, { type, quantity }),
+      ).rejects.toThrow(new BadRequestException(message));
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('throws if the book does not exist', async () => {
+      await expect(
+        service.recordStockMovement('missing', {
+          type: StockMovementType.RECEIPT,
+          quantity: 1,
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('checks the reorder point against the quantity before the movement', async () => {
+      await service.recordStockMovement(book.id, {
+        type: StockMovementType.SALE,
+        quantity: 1,
+      });
+
+      expect(reorderService.raiseAlertIfNeeded).toHaveBeenCalledWith(
+        manager,
+        book,
+        3,
+      );
+    });
+
+    it('joins the transaction of the given entity manager', async () => {
+      await service.recordStockMovement(
+        book.id,
+        { type: StockMovementType.RECEIPT, quantity: 1 },
+        currentUser,
+        manager as unknown as EntityManager,
+      );
+
+      expect(repository.manager.transaction).not.toHaveBeenCalled();
+      expect(book.quantity).toBe(4);
+    });
+
+    it('changes the stock only at the given location', async () => {
+      await service.recordStockMovement(book.id, {
+        type: StockMovementType.RECEIPT,
+        quantity: 2,
+        locationId: branch.id,
+      });
+
+      expect(stockAt(branch)).toBe(2);
+      expect(stockAt(store)).toBe(3);
+      expect(book.quantity).toBe(5);
+    });
+
+    it('refuses to sell copies a location does not have, even if others do', async () => {
+      await expect(
+        service.recordStockMovement(book.id, {
+          type: StockMovementType.SALE,
+          quantity: 1,
+          locationId: branch.id,
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'Insufficient stock: only 0 copies of "Dune" available at Branch',
+        ),
+      );
+      expect(book.quantity).toBe(3);
+    });
+
+    it('throws if the location does not exist', async () => {
+      await expect(
+        service.recordStockMovement(book.id, {
+          type: StockMovementType.RECEIPT,
+          quantity: 1,
+          locationId: 99,
+        }),
+      ).rejects.toThrow(new NotFoundException('Location not found'));
+    });
+  });
+
+  describe('transferStock', () => {
+    it('moves copies between locations without changing the total', async () => {
+      const movements = await service.transferStock(
+        book.id,
+        {
+          fromLocationId: store.id,
+          toLocationId: branch.id,
+          quantity: 2,
+          reason: 'Restock branch',
+        },
+        currentUser,
+      );
+
+      expect(stockAt(store)).toBe(1);
+      expect(stockAt(branch)).toBe(2);
+      expect(book).toMatchObject({ quantity: 3, status: Status.IN_STOKE });
+      expect(movements).toEqual([
+        expect.objectContaining({
+          type: StockMovementType.TRANSFER_OUT,
+          quantityDelta: -2,
+          quantityAfter: 1,
+          locationId: store.id,
+          reason: 'Restock branch',
+          createdBy: currentUser.email,
+        }),
+        expect.objectContaining({
+          type: StockMovementType.TRANSFER_IN,
+          quantityDelta: 2,
+          quantityAfter: 3,
+          locationId: branch.id,
+          reason: 'Restock branch',
+          createdBy: currentUser.email,
+        }),
+      ]);
+    });
+
+    it('refuses to move more copies than the source location has', async () => {
+      await expect(
+        service.transferStock(book.id, {
+          fromLocationId: branch.id,
+          toLocationId: store.id,
+          quantity: 1,
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'Insufficient stock: only 0 copies of "Dune" available at Branch',
+        ),
+      );
+      expect(stockAt(store)).toBe(3);
+    });
+
+    it('rejects a transfer to the same location', async () => {
+      await expect(
+        service.transferStock(book.id, {
+          fromLocationId: store.id,
+          toLocationId: store.id,
+          quantity: 1,
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'Source and destination locations must be different',
+        ),
+      );
+      expect(repository.manager.transaction).not.toHaveBeenCalled();
+    });
+  });
+});
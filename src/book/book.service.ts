@@ -1,43 +1,290 @@
 import {
   BadRequestException,
+  Inject,
   Injectable,
+  Logger,
   NotFoundException,
+  OnModuleInit,
 } from '@nestjs/common';
 import { BookDto } from './dto/book.dto';
 import { InjectRepository } from '@nestjs/typeorm';
-import { ILike, Repository } from 'typeorm';
+import {
+  Brackets,
+  EntityManager,
+  EntityTarget,
+  FindOptionsWhere,
+  In,
+  IsNull,
+  LessThanOrEqual,
+  Not,
+  Raw,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
 import { BookEntity } from './entities/book.entity';
-import { Status } from '../enum/book-enum';
+import {
+  BookFacet,
+  BookSortField,
+  ImportRowAction,
+  RevisionAction,
+  Status,
+  StockMovementType,
+} from '../enum/book-enum';
+import { BookQueryDto } from './dto/book-query.dto';
+import { SortOrder } from '../enum/pagination-enum';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+import {
+  paginate,
+  resolvePagination,
+  toPaginatedResult,
+} from '../utility/helpers/paginate';
+import {
+  isbn10To13,
+  isbn13To10,
+  normalizeIsbn,
+  toIsbn13,
+} from '../utility/helpers/isbn';
+import { BookFromIsbnDto } from './dto/book-from-isbn.dto';
+import {
+  BOOK_METADATA_PROVIDER,
+  BookMetadataProvider,
+} from './metadata/book-metadata-provider.interface';
+import { StockMovementEntity } from './entities/stock-movement.entity';
+import { StockMovementDto } from './dto/stock-movement.dto';
+import { UserEntity } from '../user/entities/user.entity';
+import { PaginationQueryDto } from '../utility/dto/pagination-query.dto';
+import { ReorderService } from '../reorder/reorder.service';
+import { Readable } from 'stream';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { parseCsv, toCsvLine } from '../utility/helpers/csv';
+import { FileFormat } from '../enum/file-format-enum';
+import { BookExportQueryDto } from './dto/book-export-query.dto';
+import { BookSearchResult } from './interfaces/book-search-result.interface';
+import { BookRevisionEntity } from './entities/book-revision.entity';
+import { diffBook, REVERTABLE_FIELDS } from './helpers/book-diff';
+import { recordBookRevision } from './helpers/book-revision';
+import { actorName } from '../utility/helpers/actor';
+import {
+  SEARCH_CONFIG,
+  toPrefixTsQuery,
+} from '../utility/helpers/full-text-search';
+import {
+  BookImportResult,
+  BookImportRowResult,
+} from './interfaces/book-import-result.interface';
+import { AuthorEntity } from '../author/entities/author.entity';
+import { GenreEntity } from '../genre/entities/genre.entity';
+import { CREDIT_SEPARATOR, splitCreditNames } from './helpers/book-credits';
+import { LocationEntity } from '../location/entities/location.entity';
+import { BookStockEntity } from '../location/entities/book-stock.entity';
+import { DEFAULT_LOCATION_NAME } from '../location/helpers/default-location-stock';
+import { StockTransferDto } from './dto/stock-transfer.dto';
+import { PromotionService } from '../promotion/promotion.service';
+import { PriceHistoryEntity } from './entities/price-history.entity';
+import { PricePreview } from './interfaces/price-preview.interface';
+import {
+  STORAGE_ADAPTER,
+  StorageAdapter,
+  StoredFile,
+} from '../utility/storage/storage-adapter.interface';
+import { CoverVariant } from '../enum/cover-enum';
+import {
+  COVER_CONTENT_TYPE,
+  COVER_MAX_SIZE,
+  COVER_MIME_TYPES,
+  coverKey,
+} from './helpers/book-cover';
+import { renderCoverVariants } from './helpers/cover-image';
+import { assertVersion } from '../utility/helpers/etag';
+import { BookBrowseQueryDto } from './dto/book-browse-query.dto';
+import {
+  BookBrowseResult,
+  BookFacets,
+} from './interfaces/book-browse-result.interface';
+import { FACET_LIMIT, PRICE_BANDS } from './helpers/book-facets';
+import { BookFilterQueryDto } from './dto/book-filter-query.dto';
+import { BookFilter, parseBookFilter } from './helpers/book-filter';
+import { seedPriceHistory } from './helpers/price-history';
+import { FilterOperator } from '../enum/filter-enum';
+
+const EXPORT_COLUMNS: (keyof BookEntity)[] = [
+  'id',
+  'isbn10',
+  'isbn13',
+  'title',
+  'author',
+  'genre',
+  'description',
+  'publish_date',
+  'price',
+  'quantity',
+  'reorderPoint',
+  'reorderQuantity',
+  'status',
+];
+const NUMERIC_IMPORT_COLUMNS = [
+  'price',
+  'quantity',
+  'reorderPoint',
+  'reorderQuantity',
+];
+const EXPORT_BATCH_SIZE = 500;
+const OUTGOING_MOVEMENT_TYPES = [
+  StockMovementType.SALE,
+  StockMovementType.WRITE_OFF,
+  StockMovementType.CHECK_OUT,
+];
+const HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5';
 
 @Injectable()
-export class BookService {
+export class BookService implements OnModuleInit {
+  private readonly logger = new Logger(BookService.name);
+
+  /** Whether the `pg_trgm` extension behind the typo-tolerant search fallback is installed. */
+  private trigramSearchAvailable = true;
+
   constructor(
     @InjectRepository(BookEntity)
     private bookEntityRepository: Repository<BookEntity>,
+    @Inject(BOOK_METADATA_PROVIDER)
+    private bookMetadataProvider: BookMetadataProvider,
+    private readonly reorderService: ReorderService,
+    private readonly promotionService: PromotionService,
+    @Inject(STORAGE_ADAPTER)
+    private storageAdapter: StorageAdapter,
   ) {}
 
+  /**
+   * Installs the `pg_trgm` extension used by the search fallback, since schema sync does not create
+   * extensions. If the database user may not install it, the fallback is turned off instead.
+   *
+   * Also starts the price history of books created before prices were tracked.
+   */
+  async onModuleInit(): Promise<void> {
+    await this.bookEntityRepository.manager.transaction(
+      async (manager) => await seedPriceHistory(manager),
+    );
+    try {
+      await this.bookEntityRepository.query(
+        'CREATE EXTENSION IF NOT EXISTS pg_trgm',
+      );
+    } catch (error) {
+      this.trigramSearchAvailable = false;
+      this.logger.warn(
+        `pg_trgm is not available, so search falls back to no results: ${(error as Error).message}`,
+      );
+    }
+  }
+
   /**
    * Creates a new book entry in the database.
+   * The initial quantity is recorded as a receipt in the stock ledger and the status is derived from it.
+   * The creation is recorded as the first revision of the book, attributed to the current user, and the
+   * initial price starts its price history.
+   * The book is linked to the given authors and genres; names that do not exist yet are created.
    * @param {BookDto} bookDto - The data transfer object containing book details.
+   * @param {UserEntity} [currentUser] - (Optional) The authenticated user creating the book.
    * @returns {Promise<BookEntity>} - A promise that resolves to the created book entity.
+   * @throws {BadRequestException} - If the ISBNs do not match, a book with the same ISBN already exists or an author or genre ID is unknown.
    * @throws {Error} - If the book creation fails.
    */
-  async create(bookDto: BookDto): Promise<BookEntity> {
-    bookDto.createdBy = 'Admin';
-    bookDto.updatedBy = 'Admin';
-    const book = this.bookEntityRepository.create(bookDto);
-    return await this.bookEntityRepository.save(book);
+  async create(
+    bookDto: BookDto,
+    currentUser?: UserEntity,
+  ): Promise<BookEntity> {
+    await this.applyIsbn(bookDto);
+    const created = await this.bookEntityRepository.manager.transaction(
+      async (manager) => {
+        const book = manager.create(BookEntity, {
+          ...bookDto,
+          quantity: 0,
+          status: Status.OUT_OF_STOKE,
+          createdBy: actorName(currentUser),
+          updatedBy: actorName(currentUser),
+        });
+        await this.applyCredits(manager, book, bookDto, currentUser);
+        await manager.save(book);
+        if (bookDto.quantity > 0) {
+          await this.applyStockMovement(
+            manager,
+            book,
+            {
+              type: StockMovementType.RECEIPT,
+              quantity: bookDto.quantity,
+              reason: 'Initial stock',
+            },
+            currentUser,
+          );
+        }
+        await recordBookRevision(
+          manager,
+          book.id,
+          RevisionAction.CREATE,
+          diffBook({}, book),
+          currentUser,
+        );
+        await this.recordPriceChange(manager, book, null, currentUser);
+        return book;
+      },
+    );
+    await this.promotionService.applyEffectivePrices([created]);
+    return created;
   }
 
   /**
-   * Retrieves a list of books from the database based on the provided filters.
+   * Creates a new book from its ISBN, filling in the bibliographic details from the metadata provider.
+   *
+   * The title, author, genre, description and publish date come from the provider; price and quantity
+   * come from the request.
+   *
+   * @param bookFromIsbnDto - The ISBN of the edition, plus its price and quantity.
+   * @param currentUser - (Optional) The authenticated user creating the book.
+   * @returns A promise that resolves to the created book entity.
+   * @throws BadRequestException - If the ISBN is invalid or a book with the same ISBN already exists.
+   * @throws NotFoundException - If the metadata provider does not know the ISBN.
+   */
+  async createFromIsbn(
+    bookFromIsbnDto: BookFromIsbnDto,
+    currentUser?: UserEntity,
+  ): Promise<BookEntity> {
+    const isbn13 = toIsbn13(bookFromIsbnDto.isbn);
+    if (!isbn13) {
+      throw new BadRequestException('ISBN is invalid');
+    }
+
+    const metadata = await this.bookMetadataProvider.findByIsbn(isbn13);
+    if (!metadata) {
+      throw new NotFoundException('No book metadata found for this ISBN');
+    }
+
+    return await this.create(
+      {
+        title: metadata.title,
+        author: metadata.author,
+        genre: metadata.genre,
+        description: metadata.description,
+        publish_date: metadata.publish_date,
+        isbn13,
+        price: bookFromIsbnDto.price,
+        quantity: bookFromIsbnDto.quantity,
+      },
+      currentUser,
+    );
+  }
+
+  /**
+   * Retrieves a page of books from the database based on the provided filters.
    * @param {string} [title] - (Optional) Filter books by title. Supports partial matches.
    * @param {string} [author] - (Optional) Filter books by author. Supports partial matches.
    * @param {string} [genre] - (Optional) Filter books by genre. Supports partial matches.
    * @param {Status} [status] - (Optional) Filter books by their status.
    * @param {string} [publish_date] - (Optional) Filter books by their publish date (YYYY-MM-DD).
-   * @returns {Promise<BookEntity[]>} - A promise that resolves to an array of matching book entities.
-   * @throws {NotFoundException} - If no books matching the criteria are found.
+   * @param {BookFilterQueryDto} [bookFilterQueryDto] - (Optional) Page, page size and sort options, a location the books must be in stock at,
+   * and filter expressions, which are validated by the DTO.
+   * @returns {Promise<PaginatedResult<BookEntity>>} - A promise that resolves to a page of matching book entities.
+   * An empty page is returned when no books match the criteria.
    */
   async findAll(
     title?: string,
@@ -45,7 +292,174 @@ export class BookService {
     genre?: string,
     status?: Status,
     publish_date?: string,
-  ): Promise<BookEntity[]> {
+    bookFilterQueryDto?: BookFilterQueryDto,
+  ): Promise<PaginatedResult<BookEntity>> {
+    const query = this.createFilteredQuery(
+      title,
+      author,
+      genre,
+      status,
+      publish_date,
+      bookFilterQueryDto,
+    )
+      .leftJoinAndSelect('book.authors', 'authors')
+      .leftJoinAndSelect('book.genres', 'genres');
+    if (bookFilterQueryDto?.locationId) {
+      this.filterByLocation(query, bookFilterQueryDto.locationId);
+    }
+    bookFilterQueryDto?.filter?.forEach((expression, index) =>
+      this.applyFilter(query, parseBookFilter(expression), index),
+    );
+
+    const page = await paginate(query, bookFilterQueryDto);
+    await this.promotionService.applyEffectivePrices(page.items);
+    return page;
+  }
+
+  /**
+   * Retrieves a page of books together with facet counts for building filter sidebars.
+   *
+   * Each facet (genre, author, status, price band and publish year) accepts several values, and a book
+   * matches a facet if it matches any of them. The counts of a facet respect the filters of every other
+   * facet but not its own, so the alternatives to the current selection stay visible.
+   *
+   * @param bookBrowseQueryDto - The facet filters, an optional title filter and location, and page and sort options.
+   * @returns A promise that resolves to a page of matching books and the facet counts.
+   */
+  async browse(
+    bookBrowseQueryDto: BookBrowseQueryDto,
+  ): Promise<BookBrowseResult> {
+    const query = this.createFacetedQuery(bookBrowseQueryDto)
+      .leftJoinAndSelect('book.authors', 'authors')
+      .leftJoinAndSelect('book.genres', 'genres')
+      .orderBy(
+        `book.${bookBrowseQueryDto.sortBy || BookSortField.TITLE}`,
+        bookBrowseQueryDto.sortOrder || SortOrder.ASC,
+      )
+      .addOrderBy('book.id', 'ASC');
+
+    const page = await paginate(query, bookBrowseQueryDto);
+    await this.promotionService.applyEffectivePrices(page.items);
+    return { ...page, facets: await this.countFacets(bookBrowseQueryDto) };
+  }
+
+  /**
+   * Imports books from a CSV or JSON file, creating new books and updating existing ones.
+   *
+   * Each row is validated with the same rules as `BookDto`. Existing books are matched by ISBN,
+   * or by title, author and publish date when the row has no ISBN. Invalid rows are reported and skipped;
+   * in a dry run nothing is written and the report shows what would happen to each row.
+   *
+   * @param file - The uploaded file: a CSV with a header row, or a JSON array of book objects.
+   * @param dryRun - Whether to only validate the rows without writing them.
+   * @param currentUser - (Optional) The authenticated user running the import.
+   * @returns A promise that resolves to the per-row import report.
+   * @throws BadRequestException - If the file is missing or cannot be parsed.
+   */
+  async importBooks(
+    file: Express.Multer.File,
+    dryRun: boolean,
+    currentUser?: UserEntity,
+  ): Promise<BookImportResult> {
+    if (!file) {
+      throw new BadRequestException('Import file is Required');
+    }
+
+    const rows = this.parseImportFile(file);
+    const seenKeys = new Set<string>();
+    const results: BookImportRowResult[] = [];
+    for (const [index, row] of rows.entries()) {
+      results.push(
+        await this.importRow(index + 1, row, dryRun, seenKeys, currentUser),
+      );
+    }
+
+    const count = (action: ImportRowAction) =>
+      results.filter((result) => result.action === action).length;
+    return {
+      dryRun,
+      total: results.length,
+      created: count(ImportRowAction.CREATE),
+      updated: count(ImportRowAction.UPDATE),
+      invalid: count(ImportRowAction.INVALID),
+      rows: results,
+    };
+  }
+
+  /**
+   * Streams every book matching the filters as CSV or JSON.
+   *
+   * Books are read from the database in batches, so the whole catalog is never held in memory.
+   * The filters and sort options are the same as for `findAll`.
+   *
+   * @param title - (Optional) Filter books by title. Supports partial matches.
+   * @param author - (Optional) Filter books by author. Supports partial matches.
+   * @param genre - (Optional) Filter books by genre. Supports partial matches.
+   * @param status - (Optional) Filter books by their status.
+   * @param publish_date - (Optional) Filter books by their publish date (YYYY-MM-DD).
+   * @param bookExportQueryDto - (Optional) The file format and sort options.
+   * @returns A readable stream of the exported file.
+   */
+  exportBooks(
+    title?: string,
+    author?: string,
+    genre?: string,
+    status?: Status,
+    publish_date?: string,
+    bookExportQueryDto?: BookExportQueryDto,
+  ): Readable {
+    const format = bookExportQueryDto?.format || FileFormat.CSV;
+    const query = this.createFilteredQuery(
+      title,
+      author,
+      genre,
+      status,
+      publish_date,
+      bookExportQueryDto,
+    );
+
+    async function* generate(): AsyncGenerator<string> {
+      yield format === FileFormat.CSV ? toCsvLine(EXPORT_COLUMNS) : '[';
+      for (let skip = 0; ; skip += EXPORT_BATCH_SIZE) {
+        const books = await query.skip(skip).take(EXPORT_BATCH_SIZE).getMany();
+        for (const [index, book] of books.entries()) {
+          if (format === FileFormat.CSV) {
+            yield toCsvLine(EXPORT_COLUMNS.map((column) => book[column]));
+          } else {
+            yield (skip + index > 0 ? ',' : '') + JSON.stringify(book);
+          }
+        }
+        if (books.length < EXPORT_BATCH_SIZE) {
+          break;
+        }
+      }
+      if (format === FileFormat.JSON) {
+        yield ']';
+      }
+    }
+
+    return Readable.from(generate());
+  }
+
+  /**
+   * Builds the query used by `findAll` and `exportBooks`, with the filters and sort order applied.
+   *
+   * @param title - (Optional) Filter books by title. Supports partial matches.
+   * @param author - (Optional) Filter books by author. Supports partial matches.
+   * @param genre - (Optional) Filter books by genre. Supports partial matches.
+   * @param status - (Optional) Filter books by their status.
+   * @param publish_date - (Optional) Filter books by their publish date (YYYY-MM-DD).
+   * @param sort - (Optional) The sort field and direction.
+   * @returns The query builder.
+   */
+  private createFilteredQuery(
+    title?: string,
+    author?: string,
+    genre?: string,
+    status?: Status,
+    publish_date?: string,
+    sort?: Pick<BookQueryDto, 'sortBy' | 'sortOrder'>,
+  ): SelectQueryBuilder<BookEntity> {
     const query = this.bookEntityRepository.createQueryBuilder('book');
     if (title) {
       query.andWhere('book.title LIKE :title', { title: `%${title}%` });
@@ -62,45 +476,286 @@ export class BookService {
     if (publish_date) {
       query.andWhere('book.publish_date = :publish_date', { publish_date });
     }
-    const books = await query.getMany();
+    return query
+      .orderBy(
+        `book.${sort?.sortBy || BookSortField.TITLE}`,
+        sort?.sortOrder || SortOrder.ASC,
+      )
+      .addOrderBy('book.id', 'ASC');
+  }
+
+  /**
+   * Limits a book query to books with copies in stock at a location.
+   *
+   * @param query - The query over books, aliased `book`.
+   * @param locationId - The unique identifier of the location.
+   */
+  private filterByLocation(
+    query: SelectQueryBuilder<BookEntity>,
+    locationId: number,
+  ): void {
+    query.andWhere(
+      `EXISTS (${query
+        .subQuery()
+        .select('1')
+        .from(BookStockEntity, 'stock')
+        .where('stock.bookId = book.id')
+        .andWhere('stock.locationId = :locationId')
+        .andWhere('stock.quantity > 0')
+        .getQuery()})`,
+      { locationId },
+    );
+  }
+
+  /**
+   * Limits a book query with a parsed filter expression.
+   *
+   * @param query - The query over books, aliased `book`.
+   * @param filter - The parsed filter.
+   * @param index - The position of the filter, to keep its parameter names unique.
+   */
+  private applyFilter(
+    query: SelectQueryBuilder<BookEntity>,
+    { field, column, operator, values }: BookFilter,
+    index: number,
+  ): void {
+    const name = `filter${index}`;
+    const condition = {
+      [FilterOperator.EQ]: `${column} = :${name}`,
+      [FilterOperator.GT]: `${column} > :${name}`,
+      [FilterOperator.GTE]: `${column} >= :${name}`,
+      [FilterOperator.LT]: `${column} < :${name}`,
+      [FilterOperator.LTE]: `${column} <= :${name}`,
+      [FilterOperator.BETWEEN]: `${column} BETWEEN :${name}Min AND :${name}Max`,
+      [FilterOperator.IN]: `${column} IN (:...${name})`,
+    }[operator];
+    const parameters = {
+      [name]: operator === FilterOperator.IN ? values : values[0],
+      [`${name}Min`]: values[0],
+      [`${name}Max`]: values[1],
+    };
+    if (field === 'genre') {
+      query.andWhere(
+        `EXISTS (SELECT 1 FROM "BookGenres" bookGenre JOIN "Genres" genre ON genre.id = bookGenre."genreId" WHERE bookGenre."bookId" = book.id AND ${condition})`,
+        parameters,
+      );
+    } else {
+      query.andWhere(condition, parameters);
+    }
+  }
 
-    if (!books.length) {
-      throw new NotFoundException('No books found');
+  /**
+   * Builds a query over the books matching the browse filters.
+   *
+   * @param bookBrowseQueryDto - The browse filters.
+   * @param except - (Optional) A facet whose own filter is left out, to count its values.
+   * @returns The query builder, aliased `book`.
+   */
+  private createFacetedQuery(
+    bookBrowseQueryDto: BookBrowseQueryDto,
+    except?: BookFacet,
+  ): SelectQueryBuilder<BookEntity> {
+    const { title, locationId, genreIds, authorIds, statuses } =
+      bookBrowseQueryDto;
+    const { priceBands, publishYears } = bookBrowseQueryDto;
+    const query = this.bookEntityRepository.createQueryBuilder('book');
+    if (title) {
+      query.andWhere('book.title LIKE :title', { title: `%${title}%` });
+    }
+    if (locationId) {
+      this.filterByLocation(query, locationId);
     }
+    if (genreIds?.length && except !== BookFacet.GENRE) {
+      query.andWhere(
+        `EXISTS (SELECT 1 FROM "BookGenres" bookGenre WHERE bookGenre."bookId" = book.id AND bookGenre."genreId" IN (:...genreIds))`,
+        { genreIds },
+      );
+    }
+    if (authorIds?.length && except !== BookFacet.AUTHOR) {
+      query.andWhere(
+        `EXISTS (SELECT 1 FROM "BookAuthors" bookAuthor WHERE bookAuthor."bookId" = book.id AND bookAuthor."authorId" IN (:...authorIds))`,
+        { authorIds },
+      );
+    }
+    if (statuses?.length && except !== BookFacet.STATUS) {
+      query.andWhere('book.status IN (:...statuses)', { statuses });
+    }
+    if (priceBands?.length && except !== BookFacet.PRICE_BAND) {
+      query.andWhere(
+        new Brackets((bands) => {
+          PRICE_BANDS.forEach(({ band, min, max }, index) => {
+            if (priceBands.includes(band)) {
+              const range = [
+                min !== null && `book.price >= :priceMin${index}`,
+                max !== null && `book.price < :priceMax${index}`,
+              ].filter(Boolean);
+              bands.orWhere(`(${range.join(' AND ')})`, {
+                [`priceMin${index}`]: min,
+                [`priceMax${index}`]: max,
+              });
+            }
+          });
+        }),
+      );
+    }
+    if (publishYears?.length && except !== BookFacet.PUBLISH_YEAR) {
+      query.andWhere(
+        'EXTRACT(YEAR FROM book.publish_date) IN (:...publishYears)',
+        { publishYears },
+      );
+    }
+    return query;
+  }
 
-    return books;
+  /**
+   * Counts the books matching the browse filters per value of each facet.
+   *
+   * Every status and price band is listed, even with no books; genres and authors are limited to the
+   * `FACET_LIMIT` values with the most books, and publish years are listed newest first.
+   *
+   * @param bookBrowseQueryDto - The browse filters.
+   * @returns A promise that resolves to the facet counts.
+   */
+  private async countFacets(
+    bookBrowseQueryDto: BookBrowseQueryDto,
+  ): Promise<BookFacets> {
+    const countCredits = async (facet: BookFacet, relation: string) => {
+      const rows = await this.createFacetedQuery(bookBrowseQueryDto, facet)
+        .innerJoin(`book.${relation}`, 'credit')
+        .select('credit.id', 'id')
+        .addSelect('credit.name', 'name')
+        .addSelect('COUNT(DISTINCT book.id)', 'count')
+        .groupBy('credit.id')
+        .addGroupBy('credit.name')
+        .orderBy('COUNT(DISTINCT book.id)', 'DESC')
+        .addOrderBy('credit.name', 'ASC')
+        .limit(FACET_LIMIT)
+        .getRawMany();
+      return rows.map((row) => ({
+        id: Number(row.id),
+        name: row.name,
+        count: Number(row.count),
+      }));
+    };
+
+    const statusRows = await this.createFacetedQuery(
+      bookBrowseQueryDto,
+      BookFacet.STATUS,
+    )
+      .select('book.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('book.status')
+      .getRawMany();
+
+    const band = `CASE ${PRICE_BANDS.map(
+      ({ max }, index) =>
+        `WHEN ${max === null ? 'TRUE' : `book.price < ${max}`} THEN ${index}`,
+    ).join(' ')} END`;
+    const bandRows = await this.createFacetedQuery(
+      bookBrowseQueryDto,
+      BookFacet.PRICE_BAND,
+    )
+      .select(band, 'band')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('band')
+      .getRawMany();
+
+    const yearRows = await this.createFacetedQuery(
+      bookBrowseQueryDto,
+      BookFacet.PUBLISH_YEAR,
+    )
+      .select('EXTRACT(YEAR FROM book.publish_date)', 'year')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('year')
+      .orderBy('year', 'DESC')
+      .getRawMany();
+
+    return {
+      genres: await countCredits(BookFacet.GENRE, 'genres'),
+      authors: await countCredits(BookFacet.AUTHOR, 'authors'),
+      statuses: Object.values(Status).map((status) => ({
+        status,
+        count: Number(
+          statusRows.find((row) => row.status === status)?.count ?? 0,
+        ),
+      })),
+      priceBands: PRICE_BANDS.map(({ band, min, max }, index) => ({
+        band,
+        min,
+        max,
+        count: Number(
+          bandRows.find((row) => Number(row.band) === index)?.count ?? 0,
+        ),
+      })),
+      publishYears: yearRows.map((row) => ({
+        year: Number(row.year),
+        count: Number(row.count),
+      })),
+    };
   }
 
   /**
-   * Searches for books in the repository based on a given query.
+   * Searches for books using PostgreSQL full-text search, most relevant first.
    *
-   * This method supports searching by title, author, genre, status, or publish date.
-   * If the query matches a valid date, it will be used to filter by the `publish_date` field.
-   * If the query matches a valid status, it will be used to filter by the `status` field.
-   * Partial matches are supported for title, author, and genre fields.
+   * Title, author, genre and description are searched with decreasing weight, and each word of the
+   * query matches as a prefix so partial input works while typing. Matches come back with
+   * `<mark>`-highlighted snippets of the title and description.
+   * If nothing matches, a trigram similarity search over title and author is used instead, so small typos still find the book.
+   * The fallback is skipped when the `pg_trgm` extension could not be installed.
+   * Results are ranked by relevance unless a sort field is given.
    *
-   * @param query - The search term to filter books by. It can be a partial string, a valid status, or a date.
-   * @returns A promise that resolves to an array of books matching the search criteria.
-   * @throws BadRequestException - If the query is empty.
+   * @param query - The search text as typed by the user.
+   * @param bookQueryDto - (Optional) Page, page size and sort options.
+   * @returns A promise that resolves to a page of ranked search results.
+   * @throws BadRequestException - If the query is empty or contains no words.
    */
-  async searchBook(query: string): Promise<BookEntity[]> {
+  async searchBook(
+    query: string,
+    bookQueryDto?: BookQueryDto,
+  ): Promise<PaginatedResult<BookSearchResult>> {
     if (!query) {
       throw new BadRequestException('Search query cannot be empty');
     }
-    const parsedDate = !isNaN(Date.parse(query)) ? new Date(query) : null;
-    return this.bookEntityRepository.find({
-      where: [
-        { title: ILike(`%${query}%`) },
-        { author: ILike(`%${query}%`) },
-        { genre: ILike(`%${query}%`) },
-        {
-          status: Object.values(Status).includes(query as Status)
-            ? (query as Status)
-            : undefined,
-        },
-        { publish_date: parsedDate || undefined },
-      ].filter(Boolean),
-    });
+    const tsQuery = toPrefixTsQuery(query);
+    if (!tsQuery) {
+      throw new BadRequestException(
+        'Search query must contain at least one letter or digit',
+      );
+    }
+
+    const matchQuery = `to_tsquery('${SEARCH_CONFIG}', :tsQuery)`;
+    const fullTextResults = await this.runSearchQuery(
+      this.bookEntityRepository
+        .createQueryBuilder('book')
+        .addSelect(`ts_rank(book.searchVector, ${matchQuery})`, 'rank')
+        .addSelect(
+          `ts_headline('${SEARCH_CONFIG}', book.title, ${matchQuery}, :headlineOptions)`,
+          'titleHighlight',
+        )
+        .addSelect(
+          `ts_headline('${SEARCH_CONFIG}', coalesce(book.description, ''), ${matchQuery}, :headlineOptions)`,
+          'descriptionHighlight',
+        )
+        .where(`book.searchVector @@ ${matchQuery}`)
+        .setParameters({ tsQuery, headlineOptions: HEADLINE_OPTIONS }),
+      false,
+      bookQueryDto,
+    );
+    if (fullTextResults.total > 0 || !this.trigramSearchAvailable) {
+      return fullTextResults;
+    }
+
+    return await this.runSearchQuery(
+      this.bookEntityRepository
+        .createQueryBuilder('book')
+        .addSelect(
+          'GREATEST(similarity(book.title, :query), similarity(book.author, :query))',
+          'rank',
+        )
+        .where('(book.title % :query OR book.author % :query)', { query }),
+      true,
+      bookQueryDto,
+    );
   }
 
   /**
@@ -116,12 +771,43 @@ export class BookService {
   async findOne(id: string): Promise<BookEntity> {
     const book = await this.bookEntityRepository.findOne({
       where: { id },
+      relations: { authors: true, genres: true },
     });
 
     if (!book) {
       throw new NotFoundException('Book not found');
     }
 
+    await this.promotionService.applyEffectivePrices([book]);
+    return book;
+  }
+
+  /**
+   * Retrieves a single book by its ISBN.
+   *
+   * Both ISBN-10 and ISBN-13 are accepted, with or without hyphens.
+   *
+   * @param isbn - The ISBN of the book to retrieve.
+   * @returns A promise that resolves to the book entity if found.
+   * @throws BadRequestException - If the ISBN is invalid.
+   * @throws NotFoundException - If no book is found with the given ISBN.
+   */
+  async findByIsbn(isbn: string): Promise<BookEntity> {
+    const isbn13 = toIsbn13(isbn);
+    if (!isbn13) {
+      throw new BadRequestException('ISBN is invalid');
+    }
+
+    const book = await this.bookEntityRepository.findOne({
+      where: { isbn13 },
+      relations: { authors: true, genres: true },
+    });
+
+    if (!book) {
+      throw new NotFoundException('Book not found');
+    }
+
+    await this.promotionService.applyEffectivePrices([book]);
     return book;
   }
 
@@ -130,39 +816,1134 @@ export class BookService {
    *
    * This method retrieves a book by its ID and updates it with the fields provided in the `bookDto`.
    * If the book is not found, a `NotFoundException` is thrown.
-   * If the `status` field is not provided in `bookDto`, the current status of the book is retained.
+   * A change of `quantity` is recorded as an adjustment in the stock ledger, and the status is derived from it.
+   * A change of `price` is recorded in the price history.
+   * When an expected version is given, it is checked while the book is locked, so concurrent edits cannot
+   * silently overwrite each other.
+   * The changed fields are recorded as a new revision of the book, attributed to the current user.
    *
    * @param id - The unique identifier of the book to update.
    * @param bookDto - An object containing the fields to update in the book entity.
+   * @param currentUser - (Optional) The authenticated user updating the book.
+   * @param expectedVersion - (Optional) The version the client last read; the update is rejected if the book has changed since.
    * @returns A promise that resolves to the updated book entity.
    * @throws NotFoundException - If no book is found with the given ID.
+   * @throws BadRequestException - If the ISBNs do not match or belong to another book.
+   * @throws PreconditionFailedException - If the book is no longer at the expected version.
    */
-  async update(id: string, bookDto: BookDto): Promise<BookEntity> {
-    const book = await this.bookEntityRepository.findOne({
+  async update(
+    id: string,
+    bookDto: BookDto,
+    currentUser?: UserEntity,
+    expectedVersion?: number,
+  ): Promise<BookEntity> {
+    const updated = await this.bookEntityRepository.manager.transaction(
+      async (manager) => {
+        const book = await this.findOneForUpdate(manager, id);
+        assertVersion('Book', book.version, expectedVersion);
+        await this.applyIsbn(bookDto, id);
+        return await this.applyChanges(
+          manager,
+          book,
+          bookDto,
+          RevisionAction.UPDATE,
+          currentUser,
+        );
+      },
+    );
+    await this.promotionService.applyEffectivePrices([updated]);
+    return updated;
+  }
+
+  /**
+   * Retrieves the revision history of a book, most recent first.
+   *
+   * Each revision records the action, who performed it, when, and the old and new value of every changed field.
+   * The history of a book in the trash can still be browsed.
+   *
+   * @param id - The unique identifier of the book.
+   * @param paginationQueryDto - (Optional) Page and page size.
+   * @returns A promise that resolves to a page of revisions.
+   * @throws NotFoundException - If no book is found with the given ID.
+   */
+  async findRevisions(
+    id: string,
+    paginationQueryDto?: PaginationQueryDto,
+  ): Promise<PaginatedResult<BookRevisionEntity>> {
+    const exists = await this.bookEntityRepository.exists({
       where: { id },
+      withDeleted: true,
     });
+    if (!exists) {
+      throw new NotFoundException('Book not found');
+    }
+
+    const query = this.bookEntityRepository.manager
+      .createQueryBuilder(BookRevisionEntity, 'revision')
+      .where('revision.bookId = :id', { id })
+      .orderBy('revision.revision', 'DESC');
 
+    return await paginate(query, paginationQueryDto);
+  }
+
+  /**
+   * Retrieves the price history of a book, most recent first.
+   *
+   * Each entry records the new and previous list price, when it took effect and who changed it.
+   *
+   * @param id - The unique identifier of the book.
+   * @param paginationQueryDto - (Optional) Page and page size.
+   * @returns A promise that resolves to a page of price history entries.
+   * @throws NotFoundException - If no book is found with the given ID.
+   */
+  async findPriceHistory(
+    id: string,
+    paginationQueryDto?: PaginationQueryDto,
+  ): Promise<PaginatedResult<PriceHistoryEntity>> {
+    const exists = await this.bookEntityRepository.exists({
+      where: { id },
+      withDeleted: true,
+    });
+    if (!exists) {
+      throw new NotFoundException('Book not found');
+    }
+
+    const query = this.bookEntityRepository.manager
+      .createQueryBuilder(PriceHistoryEntity, 'price')
+      .where('price.bookId = :id', { id })
+      .orderBy('price.effectiveFrom', 'DESC')
+      .addOrderBy('price.createdAt', 'DESC');
+
+    return await paginate(query, paginationQueryDto);
+  }
+
+  /**
+   * Previews the price of a book on a given date.
+   *
+   * The list price is the one in effect at that moment according to the price history, and the
+   * best promotion running at that moment is applied to it.
+   *
+   * @param id - The unique identifier of the book.
+   * @param date - (Optional) The moment to price the book at; now when omitted.
+   * @returns A promise that resolves to the list price, the effective price and the applied promotion.
+   * @throws NotFoundException - If no book is found with the given ID.
+   */
+  async previewPrice(id: string, date?: Date): Promise<PricePreview> {
+    const book = await this.findOne(id);
+    const at = Math.floor((date ? date.getTime() : Date.now()) / 1000);
+    const entry = await this.bookEntityRepository.manager.findOne(
+      PriceHistoryEntity,
+      {
+        where: { bookId: id, effectiveFrom: LessThanOrEqual(at) },
+        order: { effectiveFrom: 'DESC', createdAt: 'DESC' },
+      },
+    );
+    const listPrice = Number(entry ? entry.price : book.price);
+
+    return {
+      bookId: id,
+      at,
+      ...(await this.promotionService.priceAt(id, listPrice, at)),
+    };
+  }
+
+  /**
+   * Sets the cover image of a book from an uploaded JPEG, PNG or WebP image.
+   *
+   * A thumbnail, medium and large WebP variant are rendered from the upload and stored through the
+   * storage adapter under a new cover version. If storing a variant or saving the book fails, the
+   * variants already stored are deleted again; the variants of the previous cover are only deleted
+   * once the new version is committed.
+   *
+   * @param id - The unique identifier of the book.
+   * @param file - The uploaded image.
+   * @param currentUser - (Optional) The authenticated user uploading the cover.
+   * @returns A promise that resolves to the book, with its new cover URLs.
+   * @throws BadRequestException - If the file is missing, too large, or not a readable image of an accepted type.
+   * @throws NotFoundException - If no book is found with the given ID.
+   */
+  async uploadCover(
+    id: string,
+    file: Express.Multer.File,
+    currentUser?: UserEntity,
+  ): Promise<BookEntity> {
+    if (!file) {
+      throw new BadRequestException('Cover image is required');
+    }
+    if (file.size > COVER_MAX_SIZE) {
+      throw new BadRequestException(
+        `Cover image must not be larger than ${COVER_MAX_SIZE / 1024 / 1024} MB`,
+      );
+    }
+    const variants = COVER_MIME_TYPES.includes(file.mimetype)
+      ? await renderCoverVariants(file.buffer)
+      : null;
+    if (!variants) {
+      throw new BadRequestException('Cover image must be a JPEG, PNG or WebP');
+    }
+
+    const previousVersion = await this.bookEntityRepository.manager.transaction(
+      async (manager) => {
+        const book = await this.findOneForUpdate(manager, id);
+        const version = (book.coverVersion || 0) + 1;
+        try {
+          for (const variant of Object.values(CoverVariant)) {
+            await this.storageAdapter.put(
+              coverKey(id, version, variant),
+              variants[variant],
+              COVER_CONTENT_TYPE,
+            );
+          }
+          await manager.update(BookEntity, id, {
+            coverVersion: version,
+            updatedBy: actorName(currentUser),
+          });
+        } catch (error) {
+          // Clean up while the book is still locked, so a concurrent upload of the same version is not hit.
+          await this.deleteCover(id, version);
+          throw error;
+        }
+        return book.coverVersion;
+      },
+    );
+    if (previousVersion) {
+      await this.deleteCover(id, previousVersion);
+    }
+
+    return await this.findOne(id);
+  }
+
+  /**
+   * Opens one variant of a book's current cover for streaming.
+   *
+   * @param id - The unique identifier of the book.
+   * @param variant - The variant to open.
+   * @returns A promise that resolves to the stored image and its cover version.
+   * @throws NotFoundException - If the book is not found or has no cover.
+   */
+  async findCover(
+    id: string,
+    variant: CoverVariant,
+  ): Promise<{ file: StoredFile; version: number }> {
+    const book = await this.bookEntityRepository.findOne({
+      where: { id },
+      select: { id: true, coverVersion: true },
+    });
     if (!book) {
       throw new NotFoundException('Book not found');
     }
-    Object.assign(book, bookDto, {
-      status: bookDto.status || book.status,
+
+    const file = book.coverVersion
+      ? await this.storageAdapter.get(coverKey(id, book.coverVersion, variant))
+      : null;
+    if (!file) {
+      throw new NotFoundException('Book has no cover');
+    }
+
+    return { file, version: book.coverVersion };
+  }
+
+  /**
+   * Reverts a book's catalog fields to how they were right after the given revision.
+   *
+   * The state at that revision is rebuilt by replaying the history up to it. Quantity and status are
+   * not reverted, since they follow the stock ledger. The revert itself is recorded as a new revision.
+   *
+   * @param id - The unique identifier of the book.
+   * @param revisionId - The unique identifier of the revision to revert to.
+   * @param currentUser - (Optional) The authenticated user reverting the book.
+   * @returns A promise that resolves to the reverted book entity.
+   * @throws NotFoundException - If the book or the revision is not found.
+   * @throws BadRequestException - If the reverted ISBN now belongs to another book.
+   */
+  async revert(
+    id: string,
+    revisionId: string,
+    currentUser?: UserEntity,
+  ): Promise<BookEntity> {
+    const reverted = await this.bookEntityRepository.manager.transaction(
+      async (manager) => {
+        const book = await this.findOneForUpdate(manager, id);
+        const target = await manager.findOne(BookRevisionEntity, {
+          where: { id: revisionId, bookId: id },
+        });
+        if (!target) {
+          throw new NotFoundException('Revision not found');
+        }
+
+        const revisions = await manager.find(BookRevisionEntity, {
+          where: { bookId: id },
+          order: { revision: 'ASC' },
+        });
+        const snapshot: Partial<BookDto> = {};
+        for (const revision of revisions) {
+          if (revision.revision > target.revision) {
+            break;
+          }
+          for (const [field, change] of Object.entries(revision.changes)) {
+            if (REVERTABLE_FIELDS.includes(field as keyof BookEntity)) {
+              snapshot[field] = change.to;
+            }
+          }
+        }
+
+        await this.applyIsbn(snapshot, id);
+        return await this.applyChanges(
+          manager,
+          book,
+          snapshot,
+          RevisionAction.REVERT,
+          currentUser,
+        );
+      },
+    );
+    await this.promotionService.applyEffectivePrices([reverted]);
+    return reverted;
+  }
+
+  /**
+   * Records a stock movement against a book and updates its quantity and status.
+   *
+   * The movement changes the stock at one location (the default location unless one is given); the book's
+   * quantity is the total across all locations and its status follows that total.
+   * The book row is locked for the duration of the transaction, so concurrent movements are applied one at a time.
+   * When an `EntityManager` is passed, the movement joins the caller's transaction instead of opening a new one.
+   *
+   * @param id - The unique identifier of the book.
+   * @param stockMovementDto - The movement type, quantity, optional reason and optional location.
+   * @param currentUser - (Optional) The authenticated user recording the movement.
+   * @param manager - (Optional) The entity manager of an enclosing transaction.
+   * @returns A promise that resolves to the recorded stock movement.
+   * @throws NotFoundException - If no book or location is found with the given ID.
+   * @throws BadRequestException - If the quantity is invalid for the movement type, the type is a transfer, or the movement would take the stock at the location below zero.
+   */
+  async recordStockMovement(
+    id: string,
+    stockMovementDto: StockMovementDto,
+    currentUser?: UserEntity,
+    manager?: EntityManager,
+  ): Promise<StockMovementEntity> {
+    const record = async (transactionManager: EntityManager) => {
+      const book = await this.findOneForUpdate(transactionManager, id);
+
+      return await this.applyStockMovement(
+        transactionManager,
+        book,
+        stockMovementDto,
+        currentUser,
+      );
+    };
+
+    return manager
+      ? await record(manager)
+      : await this.bookEntityRepository.manager.transaction(record);
+  }
+
+  /**
+   * Moves copies of a book from one location to another.
+   *
+   * Both sides of the transfer are recorded in the stock ledger in one transaction; the book's total
+   * quantity and status do not change.
+   *
+   * @param id - The unique identifier of the book.
+   * @param stockTransferDto - The source and destination locations, the quantity and an optional reason.
+   * @param currentUser - (Optional) The authenticated user moving the stock.
+   * @returns A promise that resolves to the outgoing and incoming stock movements.
+   * @throws NotFoundException - If no book or location is found with the given ID.
+   * @throws BadRequestException - If both locations are the same or the source location has too few copies.
+   */
+  async transferStock(
+    id: string,
+    stockTransferDto: StockTransferDto,
+    currentUser?: UserEntity,
+  ): Promise<StockMovementEntity[]> {
+    const { fromLocationId, toLocationId, quantity, reason } = stockTransferDto;
+    if (fromLocationId === toLocationId) {
+      throw new BadRequestException(
+        'Source and destination locations must be different',
+      );
+    }
+
+    return await this.bookEntityRepository.manager.transaction(
+      async (manager) => {
+        const book = await this.findOneForUpdate(manager, id);
+        const movements: StockMovementEntity[] = [];
+        for (const [type, locationId, quantityDelta] of [
+          [StockMovementType.TRANSFER_OUT, fromLocationId, -quantity],
+          [StockMovementType.TRANSFER_IN, toLocationId, quantity],
+        ] as const) {
+          const location = await this.resolveLocation(manager, locationId);
+          await this.applyLocationStock(manager, book, location, quantityDelta);
+          movements.push(
+            await manager.save(
+              manager.create(StockMovementEntity, {
+                bookId: book.id,
+                type,
+                quantityDelta,
+                quantityAfter: book.quantity,
+                locationId: location.id,
+                reason,
+                actorId: currentUser?.id,
+                createdBy: actorName(currentUser),
+              }),
+            ),
+          );
+        }
+        return movements;
+      },
+    );
+  }
+
+  /**
+   * Retrieves the stock of a book at each location that has or had copies of it.
+   *
+   * @param id - The unique identifier of the book.
+   * @returns A promise that resolves to the stock records, with their locations, sorted by location name.
+   * @throws NotFoundException - If no book is found with the given ID.
+   */
+  async findStock(id: string): Promise<BookStockEntity[]> {
+    await this.findOne(id);
+    return await this.bookEntityRepository.manager.find(BookStockEntity, {
+      where: { bookId: id },
+      relations: { location: true },
+      order: { location: { name: 'ASC' } },
     });
-    return await this.bookEntityRepository.save(book);
   }
 
   /**
-   * Deletes a book by its ID.
+   * Retrieves the stock movement history of a book, most recent first.
    *
-   * This method attempts to delete a book from the repository using the given ID.
-   * It returns a boolean indicating whether the deletion was successful.
+   * @param id - The unique identifier of the book.
+   * @param paginationQueryDto - (Optional) Page and page size.
+   * @returns A promise that resolves to a page of stock movements.
+   * @throws NotFoundException - If no book is found with the given ID.
+   */
+  async findStockMovements(
+    id: string,
+    paginationQueryDto?: PaginationQueryDto,
+  ): Promise<PaginatedResult<StockMovementEntity>> {
+    await this.findOne(id);
+    const query = this.bookEntityRepository.manager
+      .createQueryBuilder(StockMovementEntity, 'movement')
+      .where('movement.bookId = :id', { id })
+      .orderBy('movement.createdAt', 'DESC')
+      .addOrderBy('movement.id', 'ASC');
+
+    return await paginate(query, paginationQueryDto);
+  }
+
+  /**
+   * Moves a book to the trash.
+   *
+   * The book is soft-deleted: it is hidden from listings, search and lookups, but keeps its history
+   * and can be restored until it is purged.
    *
    * @param id - The unique identifier of the book to delete.
-   * @returns A promise that resolves to `true` if the book was successfully deleted, otherwise `false`.
+   * @param currentUser - (Optional) The authenticated user deleting the book.
+   * @returns A promise that resolves to `true` if the book was moved to the trash, otherwise `false`.
+   */
+  async remove(id: string, currentUser?: UserEntity): Promise<boolean> {
+    return await this.bookEntityRepository.manager.transaction(
+      async (manager) => {
+        const result = await manager.update(
+          BookEntity,
+          { id, deletedAt: IsNull() },
+          { deletedAt: new Date(), deletedBy: actorName(currentUser) },
+        );
+        if (!result.affected) {
+          return false;
+        }
+
+        await recordBookRevision(
+          manager,
+          id,
+          RevisionAction.DELETE,
+          {},
+          currentUser,
+        );
+        return true;
+      },
+    );
+  }
+
+  /**
+   * Retrieves the books in the trash, most recently deleted first.
+   *
+   * @param paginationQueryDto - (Optional) Page and page size.
+   * @returns A promise that resolves to a page of soft-deleted books.
+   */
+  async findTrash(
+    paginationQueryDto?: PaginationQueryDto,
+  ): Promise<PaginatedResult<BookEntity>> {
+    const query = this.bookEntityRepository
+      .createQueryBuilder('book')
+      .withDeleted()
+      .where('book.deletedAt IS NOT NULL')
+      .orderBy('book.deletedAt', 'DESC')
+      .addOrderBy('book.id', 'ASC');
+
+    return await paginate(query, paginationQueryDto);
+  }
+
+  /**
+   * Restores a book from the trash.
+   *
+   * @param id - The unique identifier of the book to restore.
+   * @param currentUser - (Optional) The authenticated user restoring the book.
+   * @returns A promise that resolves to the restored book entity.
+   * @throws NotFoundException - If no book with the given ID is in the trash.
+   */
+  async restore(id: string, currentUser?: UserEntity): Promise<BookEntity> {
+    await this.findTrashed(id);
+    await this.bookEntityRepository.manager.transaction(async (manager) => {
+      await manager.update(BookEntity, id, {
+        deletedAt: null,
+        deletedBy: null,
+        updatedBy: actorName(currentUser),
+      });
+      await recordBookRevision(
+        manager,
+        id,
+        RevisionAction.RESTORE,
+        {},
+        currentUser,
+      );
+    });
+
+    return await this.findOne(id);
+  }
+
+  /**
+   * Permanently deletes a book from the trash, together with its stock history and cover images.
+   *
+   * Books that still have copies in stock are only purged when `force` is set.
+   *
+   * @param id - The unique identifier of the book to purge.
+   * @param force - Whether to purge the book even if it still has stock.
+   * @returns A promise that resolves to `true` if the book was purged, otherwise `false`.
+   * @throws NotFoundException - If no book with the given ID is in the trash.
+   * @throws BadRequestException - If the book still has stock and `force` is not set.
    */
-  async remove(id: string): Promise<boolean> {
+  async purge(id: string, force = false): Promise<boolean> {
+    const book = await this.findTrashed(id);
+    if (book.quantity > 0 && !force) {
+      throw new BadRequestException(
+        `Book still has ${book.quantity} copies in stock; write them off or purge with force`,
+      );
+    }
     const result = await this.bookEntityRepository.delete(id);
+    if (result.affected && book.coverVersion) {
+      await this.deleteCover(id, book.coverVersion);
+    }
 
     return result.affected > 0;
   }
+
+  /**
+   * Normalizes the ISBNs on a book DTO and fills in whichever of ISBN-10/ISBN-13 is missing.
+   *
+   * @param bookDto - The book data to normalize in place.
+   * @param id - (Optional) The ID of the book being updated, which is allowed to keep its own ISBN.
+   * @throws BadRequestException - If the ISBNs refer to different editions or another book already has the ISBN.
+   */
+  private async applyIsbn(
+    bookDto: Pick<BookDto, 'isbn10' | 'isbn13'>,
+    id?: string,
+  ): Promise<void> {
+    const isbn10 = bookDto.isbn10 ? normalizeIsbn(bookDto.isbn10) : null;
+    const isbn13 = bookDto.isbn13 ? normalizeIsbn(bookDto.isbn13) : null;
+    if (!isbn10 && !isbn13) {
+      return;
+    }
+    if (isbn10 && isbn13 && isbn10To13(isbn10) !== isbn13) {
+      throw new BadRequestException(
+        'ISBN-10 and ISBN-13 do not refer to the same edition',
+      );
+    }
+
+    bookDto.isbn13 = isbn13 || isbn10To13(isbn10);
+    bookDto.isbn10 = isbn10 || isbn13To10(isbn13);
+
+    const existing = await this.bookEntityRepository.findOne({
+      where: { isbn13: bookDto.isbn13, ...(id && { id: Not(id) }) },
+      withDeleted: true,
+    });
+    if (existing) {
+      throw new BadRequestException(
+        existing.deletedAt
+          ? 'A book with this ISBN is in the trash; restore or purge it first'
+          : 'A book with this ISBN already exists',
+      );
+    }
+  }
+
+  /**
+   * Deletes every variant of one version of a book's cover from storage.
+   *
+   * Failures are ignored: the book no longer points at these files, so at worst they are left orphaned.
+   *
+   * @param id - The unique identifier of the book.
+   * @param version - The cover version to delete.
+   * @returns A promise that resolves once the variants are deleted.
+   */
+  private async deleteCover(id: string, version: number): Promise<void> {
+    for (const variant of Object.values(CoverVariant)) {
+      await this.storageAdapter
+        .delete(coverKey(id, version, variant))
+        .catch(() => undefined);
+    }
+  }
+
+  /**
+   * Retrieves a book from the trash by its ID.
+   *
+   * @param id - The unique identifier of the trashed book.
+   * @returns A promise that resolves to the soft-deleted book entity.
+   * @throws NotFoundException - If no book with the given ID is in the trash.
+   */
+  private async findTrashed(id: string): Promise<BookEntity> {
+    const book = await this.bookEntityRepository.findOne({
+      where: { id, deletedAt: Not(IsNull()) },
+      withDeleted: true,
+    });
+
+    if (!book) {
+      throw new NotFoundException('Book not found in trash');
+    }
+
+    return book;
+  }
+
+  /**
+   * Applies a stock movement to an already locked book and writes it to the ledger.
+   * A low-stock alert is raised if the movement takes the book to or below its reorder point.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param book - The book to move stock for, locked for update.
+   * @param stockMovementDto - The movement type, quantity and optional reason.
+   * @param currentUser - (Optional) The authenticated user recording the movement.
+   * @returns A promise that resolves to the recorded stock movement.
+   * @throws BadRequestException - If the quantity is invalid for the movement type or the movement would take the quantity below zero.
+   */
+  private async applyStockMovement(
+    manager: EntityManager,
+    book: BookEntity,
+    stockMovementDto: StockMovementDto,
+    currentUser?: UserEntity,
+  ): Promise<StockMovementEntity> {
+    const { type, quantity, reason } = stockMovementDto;
+    if (
+      type === StockMovementType.TRANSFER_OUT ||
+      type === StockMovementType.TRANSFER_IN
+    ) {
+      throw new BadRequestException(
+        'Use a stock transfer to move copies between locations',
+      );
+    }
+    if (
+      type === StockMovementType.ADJUSTMENT ? quantity === 0 : quantity <= 0
+    ) {
+      throw new BadRequestException(
+        type === StockMovementType.ADJUSTMENT
+          ? 'Adjustment quantity cannot be zero'
+          : 'Quantity must be greater than zero',
+      );
+    }
+
+    const quantityDelta = OUTGOING_MOVEMENT_TYPES.includes(type)
+      ? -quantity
+      : quantity;
+    const location = await this.resolveLocation(
+      manager,
+      stockMovementDto.locationId,
+    );
+    const previousQuantity = book.quantity;
+    await this.applyLocationStock(manager, book, location, quantityDelta);
+    const quantityAfter = book.quantity;
+    book.status = quantityAfter > 0 ? Status.IN_STOKE : Status.OUT_OF_STOKE;
+    await manager.save(book);
+    await this.reorderService.raiseAlertIfNeeded(
+      manager,
+      book,
+      previousQuantity,
+    );
+
+    const movement = manager.create(StockMovementEntity, {
+      bookId: book.id,
+      type,
+      quantityDelta,
+      quantityAfter,
+      locationId: location.id,
+      reason,
+      actorId: currentUser?.id,
+      createdBy: actorName(currentUser),
+    });
+    return await manager.save(movement);
+  }
+
+  /**
+   * Changes the stock of a book at one location, and its total quantity by the same amount.
+   *
+   * The stock record is created on first use and locked until the enclosing transaction ends.
+   * The book itself is not saved.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param book - The book, locked for update.
+   * @param location - The location whose stock changes.
+   * @param quantityDelta - The signed change in copies.
+   * @throws BadRequestException - If the location has too few copies.
+   */
+  private async applyLocationStock(
+    manager: EntityManager,
+    book: BookEntity,
+    location: LocationEntity,
+    quantityDelta: number,
+  ): Promise<void> {
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(BookStockEntity)
+      .values({ bookId: book.id, locationId: location.id, quantity: 0 })
+      .orIgnore()
+      .execute();
+    const stock = await manager.findOne(BookStockEntity, {
+      where: { bookId: book.id, locationId: location.id },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (stock.quantity + quantityDelta < 0) {
+      throw new BadRequestException(
+        `Insufficient stock: only ${stock.quantity} copies of "${book.title}" available at ${location.name}`,
+      );
+    }
+
+    stock.quantity += quantityDelta;
+    await manager.save(stock);
+    book.quantity += quantityDelta;
+  }
+
+  /**
+   * Finds the location a stock movement applies to.
+   *
+   * Without an ID the default location is used; if no location has been set up yet, a default one is created.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param locationId - (Optional) The unique identifier of the location.
+   * @returns A promise that resolves to the location.
+   * @throws NotFoundException - If no location is found with the given ID.
+   */
+  private async resolveLocation(
+    manager: EntityManager,
+    locationId?: number,
+  ): Promise<LocationEntity> {
+    if (locationId) {
+      const location = await manager.findOne(LocationEntity, {
+        where: { id: locationId },
+      });
+      if (!location) {
+        throw new NotFoundException('Location not found');
+      }
+      return location;
+    }
+
+    const location = await manager.findOne(LocationEntity, {
+      where: { isDefault: true },
+    });
+    if (location) {
+      return location;
+    }
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(LocationEntity)
+      .values({
+        name: DEFAULT_LOCATION_NAME,
+        isDefault: true,
+        createdBy: actorName(),
+        updatedBy: actorName(),
+      })
+      .orIgnore()
+      .execute();
+    return await manager.findOne(LocationEntity, {
+      where: { name: DEFAULT_LOCATION_NAME },
+    });
+  }
+
+  /**
+   * Retrieves a book by its ID and locks its row until the enclosing transaction ends.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param id - The unique identifier of the book.
+   * @returns A promise that resolves to the locked book entity.
+   * @throws NotFoundException - If no book is found with the given ID.
+   */
+  private async findOneForUpdate(
+    manager: EntityManager,
+    id: string,
+  ): Promise<BookEntity> {
+    const book = await manager.findOne(BookEntity, {
+      where: { id },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (!book) {
+      throw new NotFoundException('Book not found');
+    }
+
+    return book;
+  }
+
+  /**
+   * Applies field changes to a locked book, saves it and records the changed fields as a revision.
+   *
+   * A change of `quantity` goes through the stock ledger as an adjustment, and a change of
+   * authors or genres relinks the book.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param book - The book to change, locked for update.
+   * @param changes - The new field values.
+   * @param action - The revision action to record.
+   * @param currentUser - (Optional) The authenticated user making the change.
+   * @returns A promise that resolves to the saved book entity.
+   */
+  private async applyChanges(
+    manager: EntityManager,
+    book: BookEntity,
+    changes: Partial<BookDto>,
+    action: RevisionAction,
+    currentUser?: UserEntity,
+  ): Promise<BookEntity> {
+    const before = { ...book };
+    // Quantity goes through the stock ledger below, and credit IDs are linked by applyCredits.
+    for (const field of REVERTABLE_FIELDS) {
+      if (field in changes) {
+        Object.assign(book, { [field]: changes[field as keyof BookDto] });
+      }
+    }
+    book.updatedBy = actorName(currentUser);
+    await this.applyCredits(manager, book, changes, currentUser);
+    const { quantity } = changes;
+    if (quantity !== undefined && quantity !== book.quantity) {
+      await this.applyStockMovement(
+        manager,
+        book,
+        {
+          type: StockMovementType.ADJUSTMENT,
+          quantity: quantity - book.quantity,
+          reason: 'Quantity edited on book',
+        },
+        currentUser,
+      );
+    } else {
+      await manager.save(book);
+    }
+
+    if (Number(before.price) !== Number(book.price)) {
+      await this.recordPriceChange(manager, book, before.price, currentUser);
+    }
+
+    const fieldChanges = diffBook(before, book);
+    if (Object.keys(fieldChanges).length) {
+      await recordBookRevision(
+        manager,
+        book.id,
+        action,
+        fieldChanges,
+        currentUser,
+      );
+    }
+    return book;
+  }
+
+  /**
+   * Links a book to its authors and genres, and rewrites its `author` and `genre` display columns to match.
+   *
+   * Authors and genres are taken from `authorIds`/`genreIds` when given, otherwise from the names in
+   * `author`/`genre` (separated by semicolons), creating the ones that do not exist yet.
+   * Credits missing from the changes are left as they are.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param book - The book to link; it is not saved.
+   * @param changes - The new field values.
+   * @param currentUser - (Optional) The authenticated user making the change.
+   * @throws BadRequestException - If an author or genre ID is unknown.
+   */
+  private async applyCredits(
+    manager: EntityManager,
+    book: BookEntity,
+    changes: Partial<BookDto>,
+    currentUser?: UserEntity,
+  ): Promise<void> {
+    if (changes.authorIds?.length || changes.author !== undefined) {
+      book.authors = await this.resolveCredits(
+        manager,
+        AuthorEntity,
+        changes.authorIds,
+        changes.author,
+        currentUser,
+      );
+      book.author = book.authors
+        .map((author) => author.name)
+        .join(CREDIT_SEPARATOR);
+    }
+    if (changes.genreIds?.length || changes.genre !== undefined) {
+      book.genres = await this.resolveCredits(
+        manager,
+        GenreEntity,
+        changes.genreIds,
+        changes.genre,
+        currentUser,
+      );
+      book.genre = book.genres
+        .map((genre) => genre.name)
+        .join(CREDIT_SEPARATOR);
+    }
+  }
+
+  /**
+   * Finds authors or genres by ID, or by name creating the missing ones.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param target - `AuthorEntity` or `GenreEntity`.
+   * @param ids - (Optional) The IDs to look up; takes precedence over the names.
+   * @param names - (Optional) The display value holding the names, separated by semicolons.
+   * @param currentUser - (Optional) The authenticated user, recorded on created rows.
+   * @returns A promise that resolves to the authors or genres, in the order given.
+   * @throws BadRequestException - If an ID is unknown.
+   */
+  private async resolveCredits<T extends AuthorEntity | GenreEntity>(
+    manager: EntityManager,
+    target: new () => T,
+    ids?: number[],
+    names?: string,
+    currentUser?: UserEntity,
+  ): Promise<T[]> {
+    if (ids?.length) {
+      const uniqueIds = [...new Set(ids)];
+      const credits = await manager.findBy(target, {
+        id: In(uniqueIds),
+      } as FindOptionsWhere<T>);
+      if (credits.length !== uniqueIds.length) {
+        throw new BadRequestException(
+          target === AuthorEntity ? 'Author not found' : 'Genre not found',
+        );
+      }
+      return uniqueIds.map((id) => credits.find((credit) => credit.id === id));
+    }
+
+    const uniqueNames = splitCreditNames(names);
+    if (!uniqueNames.length) {
+      return [];
+    }
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(target as EntityTarget<AuthorEntity | GenreEntity>)
+      .values(
+        uniqueNames.map((name) => ({
+          name,
+          createdBy: actorName(currentUser),
+          updatedBy: actorName(currentUser),
+        })),
+      )
+      .orIgnore()
+      .execute();
+    const credits = await manager.findBy(target, {
+      name: In(uniqueNames),
+    } as FindOptionsWhere<T>);
+    return uniqueNames.map((name) =>
+      credits.find((credit) => credit.name === name),
+    );
+  }
+
+  /**
+   * Records a change of a book's list price in its price history, effective now.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param book - The book, with its new price.
+   * @param previousPrice - The price before the change, or `null` for a new book.
+   * @param currentUser - (Optional) The authenticated user who changed the price.
+   * @returns A promise that resolves to the recorded price history entry.
+   */
+  private async recordPriceChange(
+    manager: EntityManager,
+    book: BookEntity,
+    previousPrice: number | null,
+    currentUser?: UserEntity,
+  ): Promise<PriceHistoryEntity> {
+    const entry = manager.create(PriceHistoryEntity, {
+      bookId: book.id,
+      price: book.price,
+      previousPrice,
+      effectiveFrom: Math.floor(Date.now() / 1000),
+      actorId: currentUser?.id,
+      createdBy: actorName(currentUser),
+    });
+    return await manager.save(entry);
+  }
+
+  /**
+   * Parses an uploaded import file into plain row objects.
+   *
+   * JSON files must contain an array of objects. Any other file is read as CSV; numeric columns are
+   * converted to numbers and empty fields are dropped so they count as missing.
+   *
+   * @param file - The uploaded CSV or JSON file.
+   * @returns The rows of the file.
+   * @throws BadRequestException - If the file cannot be parsed.
+   */
+  private parseImportFile(
+    file: Express.Multer.File,
+  ): Record<string, unknown>[] {
+    const content = file.buffer.toString('utf8');
+    const isJson =
+      file.mimetype === 'application/json' ||
+      file.originalname?.toLowerCase().endsWith('.json');
+
+    if (isJson) {
+      let rows: unknown;
+      try {
+        rows = JSON.parse(content);
+      } catch {
+        throw new BadRequestException('Import file is not valid JSON');
+      }
+      if (!Array.isArray(rows)) {
+        throw new BadRequestException(
+          'Import file must contain an array of books',
+        );
+      }
+      return rows;
+    }
+
+    return parseCsv(content).map((row) =>
+      Object.entries(row).reduce<Record<string, string | number>>(
+        (parsed, [column, value]) => {
+          if (value.trim() !== '') {
+            parsed[column] = NUMERIC_IMPORT_COLUMNS.includes(column)
+              ? Number(value)
+              : value;
+          }
+          return parsed;
+        },
+        {},
+      ),
+    );
+  }
+
+  /**
+   * Validates a single import row and creates or updates the matching book.
+   *
+   * @param rowNumber - The 1-based position of the row in the file, used in the report.
+   * @param row - The raw row data: strings and numbers from CSV, any JSON values from JSON.
+   * @param dryRun - Whether to only validate the row without writing it.
+   * @param seenKeys - Natural keys of earlier rows in the same file, so repeated rows in a dry run report as updates.
+   * @param currentUser - (Optional) The authenticated user running the import.
+   * @returns A promise that resolves to the report for the row.
+   */
+  private async importRow(
+    rowNumber: number,
+    row: Record<string, unknown>,
+    dryRun: boolean,
+    seenKeys: Set<string>,
+    currentUser?: UserEntity,
+  ): Promise<BookImportRowResult> {
+    const bookDto = plainToInstance(BookDto, row);
+    const validationErrors = await validate(bookDto, { whitelist: true });
+    if (validationErrors.length) {
+      return {
+        row: rowNumber,
+        action: ImportRowAction.INVALID,
+        errors: validationErrors.flatMap((error) =>
+          Object.values(error.constraints || {}),
+        ),
+      };
+    }
+
+    const isbn13 = bookDto.isbn13
+      ? toIsbn13(bookDto.isbn13)
+      : bookDto.isbn10 && toIsbn13(bookDto.isbn10);
+    const publishDate = bookDto.publish_date.toISOString().slice(0, 10);
+    const existing = await this.bookEntityRepository.findOne({
+      where: isbn13
+        ? { isbn13 }
+        : {
+            title: bookDto.title,
+            author: bookDto.author,
+            publish_date: Raw((column) => `${column} = :publishDate`, {
+              publishDate,
+            }),
+          },
+    });
+    const key = isbn13 || `${bookDto.title}|${bookDto.author}|${publishDate}`;
+    const action =
+      existing || seenKeys.has(key)
+        ? ImportRowAction.UPDATE
+        : ImportRowAction.CREATE;
+    seenKeys.add(key);
+
+    if (dryRun) {
+      return { row: rowNumber, action, bookId: existing?.id };
+    }
+
+    try {
+      const book = existing
+        ? await this.update(existing.id, bookDto, currentUser)
+        : await this.create(bookDto, currentUser);
+      return { row: rowNumber, action, bookId: book.id };
+    } catch (error) {
+      return {
+        row: rowNumber,
+        action: ImportRowAction.INVALID,
+        errors: [error.message],
+      };
+    }
+  }
+
+  /**
+   * Runs one of the `searchBook` queries and maps the rows to search results.
+   *
+   * The query must select the relevance as `rank`, and may select `titleHighlight` and `descriptionHighlight`.
+   *
+   * @param query - The search query builder, with its filter and computed columns.
+   * @param fuzzy - Whether this is the trigram fallback query.
+   * @param bookQueryDto - (Optional) Page, page size and sort options.
+   * @returns A promise that resolves to a page of search results.
+   */
+  private async runSearchQuery(
+    query: SelectQueryBuilder<BookEntity>,
+    fuzzy: boolean,
+    bookQueryDto?: BookQueryDto,
+  ): Promise<PaginatedResult<BookSearchResult>> {
+    const { page, limit, skip } = resolvePagination(bookQueryDto);
+    const total = await query.getCount();
+    if (!total) {
+      return toPaginatedResult([], total, page, limit);
+    }
+
+    if (bookQueryDto?.sortBy) {
+      query.orderBy(
+        `book.${bookQueryDto.sortBy}`,
+        bookQueryDto.sortOrder || SortOrder.ASC,
+      );
+    } else {
+      query.orderBy('rank', SortOrder.DESC);
+    }
+    const { entities, raw } = await query
+      .addOrderBy('book.id', SortOrder.ASC)
+      .offset(skip)
+      .limit(limit)
+      .getRawAndEntities();
+
+    const results = entities.map((book, index) => ({
+      book,
+      rank: Number(raw[index].rank),
+      fuzzy,
+      highlights: {
+        title: raw[index].titleHighlight ?? book.title,
+        description: raw[index].descriptionHighlight || null,
+      },
+    }));
+    await this.promotionService.applyEffectivePrices(entities);
+    return toPaginatedResult(results, total, page, limit);
+  }
 }
@@ -0,0 +1,44 @@
+import { IsEnum, IsIn, IsInt, IsOptional, IsString } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { BookQueryDto } from './book-query.dto';
+import { Status } from '../../enum/book-enum';
+import { PRICE_BANDS } from '../helpers/book-facets';
+import { toQueryList } from '../../utility/helpers/query-list';
+
+/**
+ * Filters for faceted browsing. Every facet accepts several values, repeated or comma-separated;
+ * a book matches a facet if it matches any of its values.
+ */
+export class BookBrowseQueryDto extends BookQueryDto {
+  @IsString({ message: 'Title must be a String' })
+  @IsOptional()
+  title?: string;
+
+  @Transform(({ value }) => toQueryList(value)?.map(Number))
+  @IsInt({ each: true, message: 'Genre IDs must be integers' })
+  @IsOptional()
+  genreIds?: number[];
+
+  @Transform(({ value }) => toQueryList(value)?.map(Number))
+  @IsInt({ each: true, message: 'Author IDs must be integers' })
+  @IsOptional()
+  authorIds?: number[];
+
+  @Transform(({ value }) => toQueryList(value))
+  @IsEnum(Status, { each: true, message: 'Status is invalid' })
+  @IsOptional()
+  statuses?: Status[];
+
+  @Transform(({ value }) => toQueryList(value))
+  @IsIn(PRICE_BANDS.map(({ band }) => band), {
+    each: true,
+    message: 'Price band is invalid',
+  })
+  @IsOptional()
+  priceBands?: string[];
+
+  @Transform(({ value }) => toQueryList(value)?.map(Number))
+  @IsInt({ each: true, message: 'Publish years must be integers' })
+  @IsOptional()
+  publishYears?: number[];
+}
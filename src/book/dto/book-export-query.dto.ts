@@ -0,0 +1,13 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { PickType } from '@nestjs/mapped-types';
+import { BookQueryDto } from './book-query.dto';
+import { FileFormat } from '../../enum/file-format-enum';
+
+export class BookExportQueryDto extends PickType(BookQueryDto, [
+  'sortBy',
+  'sortOrder',
+] as const) {
+  @IsEnum(FileFormat, { message: 'Format must be csv or json' })
+  @IsOptional()
+  format?: FileFormat;
+}
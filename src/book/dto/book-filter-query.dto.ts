@@ -0,0 +1,23 @@
+import { IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { BookQueryDto } from './book-query.dto';
+import {
+  BOOK_FILTER_DESCRIPTION,
+  BOOK_FILTER_SEPARATOR,
+  IsBookFilter,
+} from '../helpers/book-filter';
+import { toQueryList } from '../../utility/helpers/query-list';
+
+/** Listing options with range and in-list filters, e.g. `?filter=price:between:10,20&filter=quantity:lt:5`. */
+export class BookFilterQueryDto extends BookQueryDto {
+  @ApiPropertyOptional({
+    type: [String],
+    description: BOOK_FILTER_DESCRIPTION,
+    example: ['price:between:10,20', 'updatedAt:gte:-7d'],
+  })
+  @Transform(({ value }) => toQueryList(value, BOOK_FILTER_SEPARATOR))
+  @IsBookFilter()
+  @IsOptional()
+  filter?: string[];
+}
@@ -0,0 +1,16 @@
+import { IsISBN, IsInt, IsNotEmpty, IsNumber, Min } from 'class-validator';
+
+export class BookFromIsbnDto {
+  @IsISBN(undefined, { message: 'ISBN is invalid' })
+  @IsNotEmpty({ message: 'ISBN is Required' })
+  isbn: string;
+
+  @IsNumber()
+  @IsNotEmpty({ message: 'Book price is Required' })
+  price: number;
+
+  @IsInt({ message: 'Book quantity must be an integer' })
+  @Min(0, { message: 'Book quantity cannot be negative' })
+  @IsNotEmpty({ message: 'Book quantity is Required' })
+  quantity: number;
+}
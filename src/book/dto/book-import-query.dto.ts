@@ -0,0 +1,7 @@
+import { IsBooleanString, IsOptional } from 'class-validator';
+
+export class BookImportQueryDto {
+  @IsBooleanString({ message: 'Dry run must be true or false' })
+  @IsOptional()
+  dryRun?: string;
+}
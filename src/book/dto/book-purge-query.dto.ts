@@ -0,0 +1,7 @@
+import { IsBooleanString, IsOptional } from 'class-validator';
+
+export class BookPurgeQueryDto {
+  @IsBooleanString({ message: 'Force must be true or false' })
+  @IsOptional()
+  force?: string;
+}
@@ -0,0 +1,21 @@
+import { IsEnum, IsInt, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationQueryDto } from '../../utility/dto/pagination-query.dto';
+import { BookSortField } from '../../enum/book-enum';
+import { SortOrder } from '../../enum/pagination-enum';
+
+export class BookQueryDto extends PaginationQueryDto {
+  @IsEnum(BookSortField, { message: 'Sort field is invalid' })
+  @IsOptional()
+  sortBy?: BookSortField;
+
+  @IsEnum(SortOrder, { message: 'Sort order must be ASC or DESC' })
+  @IsOptional()
+  sortOrder?: SortOrder;
+
+  /** Only list books with copies in stock at this location. */
+  @Type(() => Number)
+  @IsInt({ message: 'Location ID must be an integer' })
+  @IsOptional()
+  locationId?: number;
+}
@@ -1,12 +1,15 @@
 import {
   IsString,
-  IsEnum,
   IsOptional,
   IsDate,
   IsNumber,
   IsNotEmpty,
+  IsISBN,
+  IsInt,
+  Min,
+  IsArray,
+  ValidateIf,
 } from 'class-validator';
-import { Status } from '../../enum/book-enum';
 import { Type } from 'class-transformer';
 
 export class BookDto {
@@ -14,18 +17,37 @@ export class BookDto {
   @IsNotEmpty({ message: 'Book title is Required' })
   title: string;
 
+  @ValidateIf((book: BookDto) => !book.authorIds?.length)
   @IsString()
   @IsNotEmpty({ message: 'Book author is Required' })
   author: string;
 
+  @IsArray({ message: 'Author IDs must be an Array of Numbers' })
+  @IsInt({ each: true, message: 'Author IDs must be integers' })
+  @IsOptional()
+  authorIds?: number[];
+
   @IsString()
   @IsOptional()
   genre?: string;
 
+  @IsArray({ message: 'Genre IDs must be an Array of Numbers' })
+  @IsInt({ each: true, message: 'Genre IDs must be integers' })
+  @IsOptional()
+  genreIds?: number[];
+
   @IsString()
   @IsOptional()
   description?: string;
 
+  @IsISBN(10, { message: 'ISBN-10 is invalid' })
+  @IsOptional()
+  isbn10?: string;
+
+  @IsISBN(13, { message: 'ISBN-13 is invalid' })
+  @IsOptional()
+  isbn13?: string;
+
   @IsDate()
   @Type(() => Date)
   @IsNotEmpty({ message: 'book published date is Required' })
@@ -35,19 +57,18 @@ export class BookDto {
   @IsNotEmpty({ message: 'Book price is Required' })
   price: number;
 
-  @IsNumber()
+  @IsInt({ message: 'Book quantity must be an integer' })
+  @Min(0, { message: 'Book quantity cannot be negative' })
   @IsNotEmpty({ message: 'Book quantity is Required' })
   quantity: number;
 
-  @IsEnum(Status)
-  @IsNotEmpty({ message: 'Book status is Required' })
-  status: Status;
-
-  @IsString()
+  @IsInt({ message: 'Reorder point must be an integer' })
+  @Min(0, { message: 'Reorder point cannot be negative' })
   @IsOptional()
-  createdBy?: string;
+  reorderPoint?: number;
 
-  @IsString()
+  @IsInt({ message: 'Reorder quantity must be an integer' })
+  @Min(1, { message: 'Reorder quantity must be at least 1' })
   @IsOptional()
-  updatedBy?: string;
+  reorderQuantity?: number;
 }
@@ -0,0 +1,10 @@
+import { IsDate, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class PricePreviewQueryDto {
+  /** The moment to price the book at; now when omitted. */
+  @IsDate({ message: 'Date is invalid' })
+  @Type(() => Date)
+  @IsOptional()
+  date?: Date;
+}
@@ -0,0 +1,31 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { StockMovementType } from '../../enum/book-enum';
+
+export class StockMovementDto {
+  @IsEnum(StockMovementType, { message: 'Stock movement type is invalid' })
+  @IsNotEmpty({ message: 'Stock movement type is Required' })
+  type: StockMovementType;
+
+  /**
+   * Number of copies moved. Positive for receipts, sales, returns, write-offs, check-outs and check-ins
+   * (the type decides the direction); signed for adjustments.
+   */
+  @IsInt({ message: 'Quantity must be an integer' })
+  @IsNotEmpty({ message: 'Quantity is Required' })
+  quantity: number;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+
+  /** Location whose stock moves; the default location when omitted. */
+  @IsInt({ message: 'Location ID must be an integer' })
+  @IsOptional()
+  locationId?: number;
+}
@@ -0,0 +1,19 @@
+import { IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator';
+
+export class StockTransferDto {
+  @IsInt({ message: 'Source location ID must be an integer' })
+  @IsNotEmpty({ message: 'Source location ID is Required' })
+  fromLocationId: number;
+
+  @IsInt({ message: 'Destination location ID must be an integer' })
+  @IsNotEmpty({ message: 'Destination location ID is Required' })
+  toLocationId: number;
+
+  @IsInt({ message: 'Quantity must be an integer' })
+  @Min(1, { message: 'Quantity must be greater than zero' })
+  quantity: number;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
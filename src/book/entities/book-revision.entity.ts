@@ -0,0 +1,54 @@
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { RevisionAction } from '../../enum/book-enum';
+import { BookEntity } from './book.entity';
+import { UserEntity } from '../../user/entities/user.entity';
+import { FieldChanges } from '../helpers/book-diff';
+
+@Entity('BookRevisions')
+@Unique(['bookId', 'revision'])
+export class BookRevisionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  bookId: string;
+
+  @ManyToOne(() => BookEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'bookId' })
+  book: BookEntity;
+
+  @Column('int')
+  revision: number;
+
+  @Column({
+    type: 'enum',
+    enum: RevisionAction,
+  })
+  action: RevisionAction;
+
+  @Column('jsonb', { default: {} })
+  changes: FieldChanges;
+
+  @Column({ nullable: true })
+  actorId: number;
+
+  @ManyToOne(() => UserEntity, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actorId' })
+  actor: UserEntity;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  createdAt: number;
+
+  @Column()
+  createdBy: string;
+}
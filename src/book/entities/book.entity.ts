@@ -1,7 +1,24 @@
-import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  AfterLoad,
+  Column,
+  DeleteDateColumn,
+  Entity,
+  Index,
+  JoinTable,
+  ManyToMany,
+  PrimaryGeneratedColumn,
+  VersionColumn,
+} from 'typeorm';
 import { Status } from '../../enum/book-enum';
+import { AuthorEntity } from '../../author/entities/author.entity';
+import { GenreEntity } from '../../genre/entities/genre.entity';
+import { CoverVariant } from '../../enum/cover-enum';
+import { coverUrls } from '../helpers/book-cover';
 
 @Entity('Books')
+@Index('IDX_BOOKS_SEARCH_VECTOR', { synchronize: false })
+@Index('IDX_BOOKS_TITLE_TRGM', { synchronize: false })
+@Index('IDX_BOOKS_AUTHOR_TRGM', { synchronize: false })
 export class BookEntity {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -15,18 +32,67 @@ export class BookEntity {
   @Column()
   genre: string;
 
+  @ManyToMany(() => AuthorEntity, (author) => author.books)
+  @JoinTable({
+    name: 'BookAuthors',
+    joinColumn: { name: 'bookId' },
+    inverseJoinColumn: { name: 'authorId' },
+  })
+  authors: AuthorEntity[];
+
+  @ManyToMany(() => GenreEntity, (genre) => genre.books)
+  @JoinTable({
+    name: 'BookGenres',
+    joinColumn: { name: 'bookId' },
+    inverseJoinColumn: { name: 'genreId' },
+  })
+  genres: GenreEntity[];
+
+  @Column({ nullable: true, unique: true })
+  isbn10: string;
+
+  @Column({ nullable: true, unique: true })
+  isbn13: string;
+
   @Column('text')
   description: string;
 
+  @Column({
+    type: 'tsvector',
+    select: false,
+    nullable: true,
+    insert: false,
+    update: false,
+    generatedType: 'STORED',
+    asExpression: `setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("author", '')), 'B') || setweight(to_tsvector('english', coalesce("genre", '')), 'C') || setweight(to_tsvector('english', coalesce("description", '')), 'D')`,
+  })
+  searchVector: string;
+
   @Column('date')
   publish_date: Date;
 
   @Column('decimal')
   price: number;
 
+  /** The list price with the best running promotion applied; filled in when the book is read. */
+  effectivePrice?: number;
+
   @Column('int')
   quantity: number;
 
+  /** Bumped on every cover upload; `null` while the book has no cover. */
+  @Column('int', { nullable: true })
+  coverVersion: number;
+
+  /** The URL of each cover variant, or `null` without a cover; filled in when the book is loaded. */
+  coverUrls?: Record<CoverVariant, string> | null;
+
+  @Column('int', { nullable: true })
+  reorderPoint: number;
+
+  @Column('int', { nullable: true })
+  reorderQuantity: number;
+
   @Column({
     type: 'enum',
     enum: Status,
@@ -53,4 +119,19 @@ export class BookEntity {
 
   @Column()
   updatedBy: string;
+
+  /** Incremented on every write; exposed as the `ETag` for optimistic concurrency. */
+  @VersionColumn({ default: 1 })
+  version: number;
+
+  @DeleteDateColumn({ type: 'timestamptz', nullable: true })
+  deletedAt: Date;
+
+  @Column({ nullable: true })
+  deletedBy: string;
+
+  @AfterLoad()
+  setCoverUrls(): void {
+    this.coverUrls = coverUrls(this.id, this.coverVersion);
+  }
 }
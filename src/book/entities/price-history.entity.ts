@@ -0,0 +1,50 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { BookEntity } from './book.entity';
+import { UserEntity } from '../../user/entities/user.entity';
+
+@Entity('PriceHistory')
+@Index(['bookId', 'effectiveFrom'])
+export class PriceHistoryEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  bookId: string;
+
+  @ManyToOne(() => BookEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'bookId' })
+  book: BookEntity;
+
+  @Column('decimal')
+  price: number;
+
+  @Column('decimal', { nullable: true })
+  previousPrice: number;
+
+  /** When the price took effect. */
+  @Column('bigint')
+  effectiveFrom: number;
+
+  @Column({ nullable: true })
+  actorId: number;
+
+  @ManyToOne(() => UserEntity, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actorId' })
+  actor: UserEntity;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  createdAt: number;
+
+  @Column()
+  createdBy: string;
+}
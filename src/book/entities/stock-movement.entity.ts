@@ -0,0 +1,62 @@
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { StockMovementType } from '../../enum/book-enum';
+import { BookEntity } from './book.entity';
+import { UserEntity } from '../../user/entities/user.entity';
+import { LocationEntity } from '../../location/entities/location.entity';
+
+@Entity('StockMovements')
+export class StockMovementEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  bookId: string;
+
+  @ManyToOne(() => BookEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'bookId' })
+  book: BookEntity;
+
+  @Column({
+    type: 'enum',
+    enum: StockMovementType,
+  })
+  type: StockMovementType;
+
+  @Column('int')
+  quantityDelta: number;
+
+  @Column('int')
+  quantityAfter: number;
+
+  @Column({ nullable: true })
+  locationId: number;
+
+  @ManyToOne(() => LocationEntity, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'locationId' })
+  location: LocationEntity;
+
+  @Column('text', { nullable: true })
+  reason: string;
+
+  @Column({ nullable: true })
+  actorId: number;
+
+  @ManyToOne(() => UserEntity, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actorId' })
+  actor: UserEntity;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  createdAt: number;
+
+  @Column()
+  createdBy: string;
+}
@@ -0,0 +1,52 @@
+import { CoverVariant } from '../../enum/cover-enum';
+
+/** Largest cover image accepted for upload, in bytes. */
+export const COVER_MAX_SIZE = 5 * 1024 * 1024;
+
+/** Image types accepted for upload. */
+export const COVER_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/** Variants are stored as WebP, whatever the type of the upload. */
+export const COVER_CONTENT_TYPE = 'image/webp';
+
+/**
+ * Builds the storage key of a cover variant. Every upload gets a new version, so keys are never reused.
+ *
+ * @param bookId - The unique identifier of the book.
+ * @param version - The cover version.
+ * @param variant - The variant.
+ * @returns The storage key.
+ */
+export function coverKey(
+  bookId: string,
+  version: number,
+  variant: CoverVariant,
+): string {
+  return `covers/${bookId}/${variant}-${version}.webp`;
+}
+
+/**
+ * Builds the public URLs of every variant of a book's cover.
+ *
+ * The version is added as a query parameter, so a new upload is never hidden by a cached copy.
+ *
+ * @param bookId - The unique identifier of the book.
+ * @param version - The cover version, or `null` if the book has no cover.
+ * @returns The URL of each variant, or `null` if the book has no cover.
+ */
+export function coverUrls(
+  bookId: string,
+  version: number | null,
+): Record<CoverVariant, string> | null {
+  if (!version) {
+    return null;
+  }
+  const base = process.env.COVER_BASE_URL || '/api/v1/book';
+  return Object.values(CoverVariant).reduce(
+    (urls, variant) => ({
+      ...urls,
+      [variant]: `${base}/${bookId}/cover/${variant}?v=${version}`,
+    }),
+    {} as Record<CoverVariant, string>,
+  );
+}
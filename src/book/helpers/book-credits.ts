@@ -0,0 +1,115 @@
+import { EntityManager, In } from 'typeorm';
+import { BookEntity } from '../entities/book.entity';
+import { RevisionAction } from '../../enum/book-enum';
+import { UserEntity } from '../../user/entities/user.entity';
+import { actorName } from '../../utility/helpers/actor';
+import { diffBook } from './book-diff';
+import { recordBookRevision } from './book-revision';
+
+/** Separator between names in the `author` and `genre` display columns of a book. */
+export const CREDIT_SEPARATOR = '; ';
+
+/**
+ * Splits an `author` or `genre` display value into individual, trimmed names.
+ *
+ * @param value - The display value, e.g. `Neil Gaiman; Terry Pratchett`.
+ * @returns The distinct names, in order.
+ */
+export function splitCreditNames(value?: string): string[] {
+  const names = (value || '')
+    .split(CREDIT_SEPARATOR.trim())
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return [...new Set(names)];
+}
+
+/**
+ * Rewrites the `author` and `genre` display columns of books from their linked authors and genres.
+ *
+ * Call this after renaming or merging authors or genres, so listings, filters and search keep matching.
+ * Every book whose columns change gets an `Update` revision.
+ *
+ * @param manager - The entity manager of the enclosing transaction.
+ * @param bookIds - The unique identifiers of the books to update.
+ * @param currentUser - (Optional) The authenticated user who renamed or merged the credits.
+ */
+export async function syncCreditNames(
+  manager: EntityManager,
+  bookIds: string[],
+  currentUser?: UserEntity,
+): Promise<void> {
+  if (!bookIds.length) {
+    return;
+  }
+
+  const books = await manager.find(BookEntity, {
+    where: { id: In(bookIds) },
+    relations: { authors: true, genres: true },
+    withDeleted: true,
+  });
+  for (const book of books) {
+    const credits = {
+      author: book.authors.map((author) => author.name).join(CREDIT_SEPARATOR),
+      genre: book.genres.map((genre) => genre.name).join(CREDIT_SEPARATOR),
+    };
+    const changes = diffBook(book, { ...book, ...credits });
+    if (!Object.keys(changes).length) {
+      continue;
+    }
+    await manager.update(BookEntity, book.id, {
+      ...credits,
+      updatedBy: actorName(currentUser),
+    });
+    await recordBookRevision(
+      manager,
+      book.id,
+      RevisionAction.UPDATE,
+      changes,
+      currentUser,
+    );
+  }
+}
+
+/** Table, join table and join column behind the `author` and `genre` columns of a book. */
+const CREDIT_TABLES = {
+  author: {
+    table: 'Authors',
+    joinTable: 'BookAuthors',
+    joinColumn: 'authorId',
+  },
+  genre: { table: 'Genres', joinTable: 'BookGenres', joinColumn: 'genreId' },
+};
+
+/**
+ * Links books that have no authors (or genres) yet to the names in their `author` (or `genre`)
+ * column, creating the authors or genres that do not exist.
+ *
+ * Values holding several names separated by semicolons become one author or genre per name.
+ * Books that already have links are left alone, so it is safe to run on every start.
+ *
+ * @param manager - The entity manager to run the queries with.
+ * @param column - The book column to read the names from.
+ * @returns A promise that resolves once the books are linked.
+ */
+export async function backfillCreditLinks(
+  manager: EntityManager,
+  column: 'author' | 'genre',
+): Promise<void> {
+  const { table, joinTable, joinColumn } = CREDIT_TABLES[column];
+  await manager.query(
+    `INSERT INTO "${table}" ("name", "createdBy", "updatedBy")
+     SELECT DISTINCT trim(name), 'System', 'System'
+     FROM "Books" book, unnest(string_to_array(book."${column}", ';')) AS name
+     WHERE trim(name) <> ''
+       AND NOT EXISTS (SELECT 1 FROM "${joinTable}" link WHERE link."bookId" = book."id")
+     ON CONFLICT ("name") DO NOTHING`,
+  );
+  await manager.query(
+    `INSERT INTO "${joinTable}" ("bookId", "${joinColumn}")
+     SELECT DISTINCT book."id", credit."id"
+     FROM "Books" book, unnest(string_to_array(book."${column}", ';')) AS name
+     JOIN "${table}" credit ON credit."name" = trim(name)
+     WHERE NOT EXISTS (SELECT 1 FROM "${joinTable}" link WHERE link."bookId" = book."id")
+     ON CONFLICT DO NOTHING`,
+  );
+}
@@ -0,0 +1,64 @@
+import { BookEntity } from '../entities/book.entity';
+
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+/** Book fields tracked in the revision history. */
+export const REVISION_FIELDS: (keyof BookEntity)[] = [
+  'title',
+  'author',
+  'genre',
+  'description',
+  'isbn10',
+  'isbn13',
+  'publish_date',
+  'price',
+  'quantity',
+  'reorderPoint',
+  'reorderQuantity',
+  'status',
+];
+
+/**
+ * Fields that a revert restores. Quantity and status are left out because they follow the stock ledger,
+ * not the catalog history.
+ */
+export const REVERTABLE_FIELDS: (keyof BookEntity)[] = REVISION_FIELDS.filter(
+  (field) => field !== 'quantity' && field !== 'status',
+);
+
+/**
+ * Compares two versions of a book and returns the old and new value of every tracked field that changed.
+ *
+ * Values are normalized first, so a price of `'12.50'` from the database equals `12.5` from a request,
+ * and publish dates compare as `YYYY-MM-DD` strings.
+ *
+ * @param before - The book before the change, or an empty object for a new book.
+ * @param after - The book after the change.
+ * @returns The changed fields, keyed by field name.
+ */
+export function diffBook(
+  before: Partial<BookEntity>,
+  after: Partial<BookEntity>,
+): FieldChanges {
+  return REVISION_FIELDS.reduce<FieldChanges>((changes, field) => {
+    const from = normalize(field, before[field]);
+    const to = normalize(field, after[field]);
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+    return changes;
+  }, {});
+}
+
+function normalize(field: keyof BookEntity, value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (field === 'price') {
+    return Number(value);
+  }
+  return value;
+}
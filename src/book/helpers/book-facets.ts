@@ -0,0 +1,15 @@
+/** Price bands offered as a facet, by list price; `min` is inclusive, `max` exclusive. */
+export const PRICE_BANDS: {
+  band: string;
+  min: number | null;
+  max: number | null;
+}[] = [
+  { band: 'under-10', min: null, max: 10 },
+  { band: '10-20', min: 10, max: 20 },
+  { band: '20-50', min: 20, max: 50 },
+  { band: '50-100', min: 50, max: 100 },
+  { band: '100-plus', min: 100, max: null },
+];
+
+/** Most values listed for the genre and author facets, largest counts first. */
+export const FACET_LIMIT = 50;
@@ -0,0 +1,104 @@
+import { validate } from 'class-validator';
+import { FilterOperator } from '../../enum/filter-enum';
+import { Status } from '../../enum/book-enum';
+import { IsBookFilter, parseBookFilter } from './book-filter';
+
+class FilterHolder {
+  @IsBookFilter()
+  filter: unknown;
+}
+
+describe('book-filter', () => {
+  describe('parseBookFilter', () => {
+    it('parses a numeric comparison', () => {
+      expect(parseBookFilter('price:gte:9.5')).toEqual({
+        field: 'price',
+        column: 'book.price',
+        operator: FilterOperator.GTE,
+        values: [9.5],
+      });
+    });
+
+    it('parses between bounds and in lists', () => {
+      expect(parseBookFilter('quantity:between:1, 10').values).toEqual([1, 10]);
+      expect(
+        parseBookFilter(`status:in:${Status.IN_STOKE},${Status.OUT_OF_STOKE}`)
+          .values,
+      ).toEqual([Status.IN_STOKE, Status.OUT_OF_STOKE]);
+    });
+
+    it('matches genres case-insensitively', () => {
+      expect(parseBookFilter('genre:eq:Science Fiction')).toMatchObject({
+        column: 'LOWER(genre.name)',
+        values: ['science fiction'],
+      });
+    });
+
+    it('keeps colons inside the value', () => {
+      expect(
+        parseBookFilter('createdAt:gte:2024-01-01T10:00:00Z').values,
+      ).toEqual([Date.parse('2024-01-01T10:00:00Z') / 1000]);
+    });
+
+    it('resolves relative times against now', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+      try {
+        expect(parseBookFilter('updatedAt:gt:-7d').values).toEqual([
+          1_700_000_000 - 7 * 24 * 60 * 60,
+        ]);
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
+    it('accepts real calendar dates', () => {
+      expect(parseBookFilter('publish_date:lt:2024-02-29').values).toEqual([
+        '2024-02-29',
+      ]);
+    });
+
+    it.each([
+      ['price', 'must have the form'],
+      ['isbn:eq:1', 'unknown field'],
+      ['status:gt:In Stock', 'invalid operator'],
+      ['price:between:1', 'two comma-separated bounds'],
+      ['price:between:10,1', 'lower bound above its upper bound'],
+      ['price:in:1,,2', 'invalid operator'],
+      ['status:in:In Stock,', 'empty value'],
+      ['price:eq:cheap', 'is not a number'],
+      ['quantity:eq:1.5', 'is not an integer'],
+      ['publish_date:eq:2024-02-31', 'is not a YYYY-MM-DD date'],
+      ['publish_date:eq:2023-02-29', 'is not a YYYY-MM-DD date'],
+      ['publish_date:eq:24-02-01', 'is not a YYYY-MM-DD date'],
+      ['createdAt:gt:yesterday', 'is not an ISO 8601 date'],
+      ['status:eq:Lost', 'is not a status'],
+    ])('rejects %s', (expression, message) => {
+      expect(() => parseBookFilter(expression)).toThrow(message);
+    });
+  });
+
+  describe('IsBookFilter', () => {
+    it('accepts a list of valid expressions', async () => {
+      const holder = Object.assign(new FilterHolder(), {
+        filter: ['price:lt:10', 'genre:in:fantasy,horror'],
+      });
+      expect(await validate(holder)).toHaveLength(0);
+    });
+
+    it('reports the problem with the first invalid expression', async () => {
+      const holder = Object.assign(new FilterHolder(), {
+        filter: ['price:lt:10', 'price:lt:free'],
+      });
+      const [error] = await validate(holder);
+      expect(error.constraints.isBookFilter).toBe(
+        'Filter "price:lt:free": "free" is not a number',
+      );
+    });
+
+    it('rejects values that are not lists of strings', async () => {
+      const holder = Object.assign(new FilterHolder(), { filter: [1] });
+      const [error] = await validate(holder);
+      expect(error.constraints.isBookFilter).toBe('Filter must be a string');
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { registerDecorator, ValidationOptions } from 'class-validator';
+import { Status } from '../../enum/book-enum';
+import { FilterOperator } from '../../enum/filter-enum';
+
+type BookFilterValueType =
+  | 'number'
+  | 'integer'
+  | 'date'
+  | 'timestamp'
+  | 'status'
+  | 'genre';
+
+const RANGE_OPERATORS = [
+  FilterOperator.EQ,
+  FilterOperator.GT,
+  FilterOperator.GTE,
+  FilterOperator.LT,
+  FilterOperator.LTE,
+  FilterOperator.BETWEEN,
+];
+
+const LIST_OPERATORS = [FilterOperator.EQ, FilterOperator.IN];
+
+/** The fields a filter expression can target, with the column, value type and operators of each. */
+export const BOOK_FILTER_FIELDS: Record<
+  string,
+  { column: string; type: BookFilterValueType; operators: FilterOperator[] }
+> = {
+  price: { column: 'book.price', type: 'number', operators: RANGE_OPERATORS },
+  quantity: {
+    column: 'book.quantity',
+    type: 'integer',
+    operators: RANGE_OPERATORS,
+  },
+  publish_date: {
+    column: 'book.publish_date',
+    type: 'date',
+    operators: RANGE_OPERATORS,
+  },
+  createdAt: {
+    column: 'book.createdAt',
+    type: 'timestamp',
+    operators: RANGE_OPERATORS,
+  },
+  updatedAt: {
+    column: 'book.updatedAt',
+    type: 'timestamp',
+    operators: RANGE_OPERATORS,
+  },
+  status: { column: 'book.status', type: 'status', operators: LIST_OPERATORS },
+  genre: {
+    column: 'LOWER(genre.name)',
+    type: 'genre',
+    operators: LIST_OPERATORS,
+  },
+};
+
+/** Separates several filter expressions given in one query parameter. */
+export const BOOK_FILTER_SEPARATOR = ';';
+
+/** The filter syntax, as shown in the API documentation. */
+export const BOOK_FILTER_DESCRIPTION = [
+  'Filter expressions of the form `<field>:<operator>:<value>`, repeated or separated by `;`. A book must match all of them.',
+  '- `price`, `quantity`, `publish_date`, `createdAt`, `updatedAt`: `eq`, `gt`, `gte`, `lt`, `lte`, or `between` with two comma-separated bounds (inclusive).',
+  '- `status`, `genre`: `eq`, or `in` with a comma-separated list. Genre names are matched case-insensitively.',
+  '`publish_date` takes `YYYY-MM-DD` dates. `createdAt` and `updatedAt` take ISO 8601 dates or date-times, or a time ago such as `-7d` (units `m`, `h`, `d`, `w`).',
+].join('\n');
+
+const RELATIVE_TIME_UNITS: Record<string, number> = {
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+};
+
+/** A parsed filter expression. */
+export interface BookFilter {
+  field: string;
+  column: string;
+  operator: FilterOperator;
+  values: (string | number)[];
+}
+
+/**
+ * Parses a filter expression of the form `<field>:<operator>:<value>`.
+ *
+ * Relative times (`-7d`) are resolved against the current time, and `createdAt`/`updatedAt` values
+ * are converted to epoch seconds to match their columns.
+ *
+ * @param expression - The filter expression.
+ * @returns The field's column, the operator and the parsed values.
+ * @throws Error - If the expression is malformed, with a message explaining what is wrong.
+ */
+export function parseBookFilter(expression: string): BookFilter {
+  const [field, operator, ...rest] = expression.split(':');
+  const value = rest.join(':').trim();
+  if (!operator || !value) {
+    throw new Error(
+      `Filter "${expression}" must have the form <field>:<operator>:<value>`,
+    );
+  }
+  const definition = BOOK_FILTER_FIELDS[field.trim()];
+  if (!definition) {
+    throw new Error(
+      `Filter "${expression}" has an unknown field; use one of ${Object.keys(BOOK_FILTER_FIELDS).join(', ')}`,
+    );
+  }
+  if (!definition.operators.includes(operator.trim() as FilterOperator)) {
+    throw new Error(
+      `Filter "${expression}" has an invalid operator; ${field.trim()} supports ${definition.operators.join(', ')}`,
+    );
+  }
+
+  const filterOperator = operator.trim() as FilterOperator;
+  const rawValues =
+    filterOperator === FilterOperator.BETWEEN ||
+    filterOperator === FilterOperator.IN
+      ? value.split(',').map((item) => item.trim())
+      : [value];
+  if (filterOperator === FilterOperator.BETWEEN && rawValues.length !== 2) {
+    throw new Error(
+      `Filter "${expression}" must give two comma-separated bounds for between`,
+    );
+  }
+  if (rawValues.some((item) => !item)) {
+    throw new Error(`Filter "${expression}" has an empty value`);
+  }
+
+  const values = rawValues.map((item) =>
+    parseFilterValue(expression, definition.type, item),
+  );
+  if (filterOperator === FilterOperator.BETWEEN && values[0] > values[1]) {
+    throw new Error(
+      `Filter "${expression}" has a lower bound above its upper bound`,
+    );
+  }
+  return {
+    field: field.trim(),
+    column: definition.column,
+    operator: filterOperator,
+    values,
+  };
+}
+
+/**
+ * Checks that a property holds a list of valid filter expressions, reporting what is wrong with
+ * the first invalid one.
+ *
+ * @param validationOptions - (Optional) Further class-validator options.
+ * @returns The property decorator.
+ */
+export function IsBookFilter(
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return (object: object, propertyName: string | symbol) => {
+    registerDecorator({
+      name: 'isBookFilter',
+      target: object.constructor,
+      propertyName: propertyName.toString(),
+      options: validationOptions,
+      validator: {
+        validate: (value: unknown) =>
+          Array.isArray(value) && !value.some((item) => filterError(item)),
+        defaultMessage: ({ value }) =>
+          (Array.isArray(value) &&
+            value.map((item) => filterError(item)).find(Boolean)) ||
+          'Filter must be a list of filter expressions',
+      },
+    });
+  };
+}
+
+/**
+ * Parses a single value of a filter expression.
+ *
+ * @param expression - The whole expression, for error messages.
+ * @param type - The value type of the field.
+ * @param value - The value.
+ * @returns The value, as a number, a date string, a status or a lower-case genre name.
+ * @throws Error - If the value does not fit the field.
+ */
+function parseFilterValue(
+  expression: string,
+  type: BookFilterValueType,
+  value: string,
+): string | number {
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        throw new Error(`Filter "${expression}": "${value}" is not a number`);
+      }
+      if (type === 'integer' && !Number.isInteger(number)) {
+        throw new Error(`Filter "${expression}": "${value}" is not an integer`);
+      }
+      return number;
+    }
+    case 'date':
+      if (
+        !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+        Number.isNaN(Date.parse(value)) ||
+        new Date(value).toISOString().slice(0, 10) !== value
+      ) {
+        throw new Error(
+          `Filter "${expression}": "${value}" is not a YYYY-MM-DD date`,
+        );
+      }
+      return value;
+    case 'timestamp': {
+      const relative = /^-(\d+)([mhdw])$/.exec(value);
+      if (relative) {
+        return (
+          Math.floor(Date.now() / 1000) -
+          Number(relative[1]) * RELATIVE_TIME_UNITS[relative[2]]
+        );
+      }
+      const time = /^\d{4}-\d{2}-\d{2}/.test(value) ? Date.parse(value) : NaN;
+      if (Number.isNaN(time)) {
+        throw new Error(
+          `Filter "${expression}": "${value}" is not an ISO 8601 date or a time ago such as -7d`,
+        );
+      }
+      return Math.floor(time / 1000);
+    }
+    case 'status':
+      if (!Object.values(Status).includes(value as Status)) {
+        throw new Error(
+          `Filter "${expression}": "${value}" is not a status; use one of ${Object.values(Status).join(', ')}`,
+        );
+      }
+      return value;
+    case 'genre':
+      return value.toLowerCase();
+  }
+}
+
+/**
+ * Describes what is wrong with a filter expression.
+ *
+ * @param expression - The filter expression.
+ * @returns The problem, or `undefined` if the expression is valid.
+ */
+function filterError(expression: unknown): string | undefined {
+  if (typeof expression !== 'string') {
+    return 'Filter must be a string';
+  }
+  try {
+    parseBookFilter(expression);
+    return undefined;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
@@ -0,0 +1,40 @@
+import { EntityManager } from 'typeorm';
+import { RevisionAction } from '../../enum/book-enum';
+import { UserEntity } from '../../user/entities/user.entity';
+import { actorName } from '../../utility/helpers/actor';
+import { BookRevisionEntity } from '../entities/book-revision.entity';
+import { FieldChanges } from './book-diff';
+
+/**
+ * Records the next revision of a book.
+ *
+ * @param manager - The entity manager of the enclosing transaction.
+ * @param bookId - The unique identifier of the book.
+ * @param action - What happened to the book.
+ * @param changes - The old and new value of every changed field.
+ * @param currentUser - (Optional) The authenticated user who made the change.
+ * @returns A promise that resolves to the recorded revision.
+ */
+export async function recordBookRevision(
+  manager: EntityManager,
+  bookId: string,
+  action: RevisionAction,
+  changes: FieldChanges,
+  currentUser?: UserEntity,
+): Promise<BookRevisionEntity> {
+  const { latest } = await manager
+    .createQueryBuilder(BookRevisionEntity, 'revision')
+    .select('MAX(revision.revision)', 'latest')
+    .where('revision.bookId = :bookId', { bookId })
+    .getRawOne();
+
+  const revision = manager.create(BookRevisionEntity, {
+    bookId,
+    revision: (Number(latest) || 0) + 1,
+    action,
+    changes,
+    actorId: currentUser?.id,
+    createdBy: actorName(currentUser),
+  });
+  return await manager.save(revision);
+}
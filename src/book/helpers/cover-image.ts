@@ -0,0 +1,40 @@
+import * as sharp from 'sharp';
+import { CoverVariant } from '../../enum/cover-enum';
+
+/** The formats, as detected by `sharp`, of the image types accepted for upload. */
+const COVER_FORMATS = ['jpeg', 'png', 'webp'];
+
+/** Width in pixels of each generated variant; images are never enlarged. */
+const COVER_WIDTHS: Record<CoverVariant, number> = {
+  [CoverVariant.THUMBNAIL]: 160,
+  [CoverVariant.MEDIUM]: 480,
+  [CoverVariant.LARGE]: 1024,
+};
+
+/**
+ * Checks that an upload is a readable JPEG, PNG or WebP image and renders every cover variant from it as WebP.
+ *
+ * @param image - The uploaded image.
+ * @returns A promise that resolves to the rendered variants, or `null` if the image cannot be read
+ * or is not of an accepted type.
+ */
+export async function renderCoverVariants(
+  image: Buffer,
+): Promise<Record<CoverVariant, Buffer> | null> {
+  const metadata = await sharp(image)
+    .metadata()
+    .catch(() => null);
+  if (!metadata || !COVER_FORMATS.includes(metadata.format)) {
+    return null;
+  }
+
+  const variants = {} as Record<CoverVariant, Buffer>;
+  for (const variant of Object.values(CoverVariant)) {
+    variants[variant] = await sharp(image)
+      .rotate()
+      .resize({ width: COVER_WIDTHS[variant], withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+  }
+  return variants;
+}
@@ -0,0 +1,19 @@
+import { EntityManager } from 'typeorm';
+
+/**
+ * Seeds the price history with the current price of every book that has none, taking effect
+ * from the book's creation, so price previews have a starting point.
+ *
+ * Books that already have a price history are left alone, so it is safe to run on every start.
+ *
+ * @param manager - The entity manager to run the query with.
+ * @returns A promise that resolves once the history is seeded.
+ */
+export async function seedPriceHistory(manager: EntityManager): Promise<void> {
+  await manager.query(
+    `INSERT INTO "PriceHistory" ("bookId", "price", "effectiveFrom", "createdBy")
+     SELECT book."id", book."price", book."createdAt", 'System'
+     FROM "Books" book
+     WHERE NOT EXISTS (SELECT 1 FROM "PriceHistory" history WHERE history."bookId" = book."id")`,
+  );
+}
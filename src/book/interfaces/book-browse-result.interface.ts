@@ -0,0 +1,20 @@
+import { Status } from '../../enum/book-enum';
+import { BookEntity } from '../entities/book.entity';
+import { PaginatedResult } from '../../utility/interfaces/paginated-result.interface';
+
+export interface BookFacets {
+  genres: { id: number; name: string; count: number }[];
+  authors: { id: number; name: string; count: number }[];
+  statuses: { status: Status; count: number }[];
+  priceBands: {
+    band: string;
+    min: number | null;
+    max: number | null;
+    count: number;
+  }[];
+  publishYears: { year: number; count: number }[];
+}
+
+export interface BookBrowseResult extends PaginatedResult<BookEntity> {
+  facets: BookFacets;
+}
@@ -0,0 +1,17 @@
+import { ImportRowAction } from '../../enum/book-enum';
+
+export interface BookImportRowResult {
+  row: number;
+  action: ImportRowAction;
+  bookId?: string;
+  errors?: string[];
+}
+
+export interface BookImportResult {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  invalid: number;
+  rows: BookImportRowResult[];
+}
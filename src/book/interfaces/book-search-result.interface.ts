@@ -0,0 +1,12 @@
+import { BookEntity } from '../entities/book.entity';
+
+export interface BookSearchResult {
+  book: BookEntity;
+  rank: number;
+  /** `true` when the book was found by the typo-tolerant trigram fallback rather than full-text search. */
+  fuzzy: boolean;
+  highlights: {
+    title: string;
+    description: string | null;
+  };
+}
@@ -0,0 +1,7 @@
+import { AppliedPrice } from '../../promotion/interfaces/applied-price.interface';
+
+export interface PricePreview extends AppliedPrice {
+  bookId: string;
+  /** The moment the book was priced at, in epoch seconds. */
+  at: number;
+}
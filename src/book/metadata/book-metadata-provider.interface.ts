@@ -0,0 +1,20 @@
+export const BOOK_METADATA_PROVIDER = 'BOOK_METADATA_PROVIDER';
+
+export interface BookMetadata {
+  isbn13: string;
+  title: string;
+  author: string;
+  genre?: string;
+  description?: string;
+  publish_date: Date;
+}
+
+export interface BookMetadataProvider {
+  /**
+   * Looks up bibliographic metadata for a book.
+   *
+   * @param isbn13 - The normalized ISBN-13 of the edition to look up.
+   * @returns A promise that resolves to the metadata, or `null` if the provider does not know the ISBN.
+   */
+  findByIsbn(isbn13: string): Promise<BookMetadata | null>;
+}
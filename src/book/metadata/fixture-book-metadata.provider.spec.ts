@@ -0,0 +1,65 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FixtureBookMetadataProvider } from './fixture-book-metadata.provider';
+
+describe('FixtureBookMetadataProvider', () => {
+  const fixturePath = process.env.BOOK_METADATA_FIXTURE_PATH;
+
+  afterEach(() => {
+    if (fixturePath === undefined) {
+      delete process.env.BOOK_METADATA_FIXTURE_PATH;
+    } else {
+      process.env.BOOK_METADATA_FIXTURE_PATH = fixturePath;
+    }
+  });
+
+  it('looks books up in the bundled fixtures', async () => {
+    delete process.env.BOOK_METADATA_FIXTURE_PATH;
+    const provider = new FixtureBookMetadataProvider();
+
+    expect(await provider.findByIsbn('9780747532699')).toEqual({
+      title: "Harry Potter and the Philosopher's Stone",
+      author: 'J. K. Rowling',
+      genre: 'Fantasy',
+      description: expect.any(String),
+      isbn13: '9780747532699',
+      publish_date: new Date('1997-06-26'),
+    });
+  });
+
+  it('returns null for an unknown ISBN', async () => {
+    delete process.env.BOOK_METADATA_FIXTURE_PATH;
+    const provider = new FixtureBookMetadataProvider();
+
+    expect(await provider.findByIsbn('9780000000002')).toBeNull();
+  });
+
+  it('reads the file named by BOOK_METADATA_FIXTURE_PATH', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'book-metadata-'));
+    try {
+      process.env.BOOK_METADATA_FIXTURE_PATH = join(dir, 'books.json');
+      await writeFile(
+        process.env.BOOK_METADATA_FIXTURE_PATH,
+        JSON.stringify({
+          '9780000000002': {
+            title: 'Test Book',
+            author: 'Test Author',
+            publish_date: '2020-01-31',
+          },
+        }),
+      );
+      const provider = new FixtureBookMetadataProvider();
+
+      expect(await provider.findByIsbn('9780000000002')).toEqual({
+        title: 'Test Book',
+        author: 'Test Author',
+        isbn13: '9780000000002',
+        publish_date: new Date('2020-01-31'),
+      });
+      expect(await provider.findByIsbn('9780747532699')).toBeNull();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
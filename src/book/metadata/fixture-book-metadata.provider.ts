@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import * as dotenv from 'dotenv';
+import {
+  BookMetadata,
+  BookMetadataProvider,
+} from './book-metadata-provider.interface';
+
+dotenv.config();
+
+interface BookMetadataFixture {
+  title: string;
+  author: string;
+  genre?: string;
+  description?: string;
+  publish_date: string;
+}
+
+/**
+ * Metadata provider backed by a JSON file keyed by ISBN-13.
+ *
+ * The file defaults to the bundled `fixtures/book-metadata.json` and can be
+ * replaced with `BOOK_METADATA_FIXTURE_PATH`, so lookups work offline and in tests.
+ */
+@Injectable()
+export class FixtureBookMetadataProvider implements BookMetadataProvider {
+  private fixtures: Promise<Record<string, BookMetadataFixture>>;
+
+  async findByIsbn(isbn13: string): Promise<BookMetadata | null> {
+    const fixture = (await this.loadFixtures())[isbn13];
+    if (!fixture) {
+      return null;
+    }
+    return {
+      ...fixture,
+      isbn13,
+      publish_date: new Date(fixture.publish_date),
+    };
+  }
+
+  private loadFixtures(): Promise<Record<string, BookMetadataFixture>> {
+    if (!this.fixtures) {
+      const path =
+        process.env.BOOK_METADATA_FIXTURE_PATH ||
+        join(__dirname, 'fixtures', 'book-metadata.json');
+      this.fixtures = readFile(path, 'utf8').then((content) =>
+        JSON.parse(content),
+      );
+    }
+    return this.fixtures;
+  }
+}
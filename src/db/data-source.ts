@@ -1,8 +1,31 @@
 import { DataSource, DataSourceOptions } from 'typeorm';
 import * as dotenv from 'dotenv';
+import { join } from 'path';
 import { ConfigService } from '@nestjs/config';
 import { UserEntity } from '../user/entities/user.entity';
 import { BookEntity } from '../book/entities/book.entity';
+import { StockMovementEntity } from '../book/entities/stock-movement.entity';
+import { BookRevisionEntity } from '../book/entities/book-revision.entity';
+import { GenreReorderDefaultEntity } from '../reorder/entities/genre-reorder-default.entity';
+import { LowStockAlertEntity } from '../reorder/entities/low-stock-alert.entity';
+import { AuthorEntity } from '../author/entities/author.entity';
+import { GenreEntity } from '../genre/entities/genre.entity';
+import { LocationEntity } from '../location/entities/location.entity';
+import { BookStockEntity } from '../location/entities/book-stock.entity';
+import { SupplierEntity } from '../supplier/entities/supplier.entity';
+import { PurchaseOrderEntity } from '../purchase-order/entities/purchase-order.entity';
+import { PurchaseOrderLineEntity } from '../purchase-order/entities/purchase-order-line.entity';
+import { OrderEntity } from '../order/entities/order.entity';
+import { OrderLineEntity } from '../order/entities/order-line.entity';
+import { LoanEntity } from '../loan/entities/loan.entity';
+import { PriceHistoryEntity } from '../book/entities/price-history.entity';
+import { PromotionEntity } from '../promotion/entities/promotion.entity';
+import { SessionEntity } from '../user/entities/session.entity';
+import { RefreshTokenEntity } from '../user/entities/refresh-token.entity';
+import { PasswordResetTokenEntity } from '../user/entities/password-reset-token.entity';
+import { EmailVerificationTokenEntity } from '../user/entities/email-verification-token.entity';
+import { LoginFailureEntity } from '../user/entities/login-failure.entity';
+import { RecoveryCodeEntity } from '../user/entities/recovery-code.entity';
 
 dotenv.config();
 
@@ -15,8 +38,34 @@ export const dataSourceOptions: DataSourceOptions = {
   username: configService.get<string>('DATABASE_USERNAME') || 'postgres',
   password: configService.get<string>('DATABASE_PASSWORD') || '123',
   database: configService.get<string>('DATABASE_NAME') || 'Book_Inventory',
-  entities: [UserEntity, BookEntity],
-  migrations: ['src/db/migrations/*.ts'],
+  entities: [
+    UserEntity,
+    BookEntity,
+    StockMovementEntity,
+    BookRevisionEntity,
+    GenreReorderDefaultEntity,
+    LowStockAlertEntity,
+    AuthorEntity,
+    GenreEntity,
+    LocationEntity,
+    BookStockEntity,
+    SupplierEntity,
+    PurchaseOrderEntity,
+    PurchaseOrderLineEntity,
+    OrderEntity,
+    OrderLineEntity,
+    LoanEntity,
+    PriceHistoryEntity,
+    PromotionEntity,
+    SessionEntity,
+    RefreshTokenEntity,
+    PasswordResetTokenEntity,
+    EmailVerificationTokenEntity,
+    LoginFailureEntity,
+    RecoveryCodeEntity,
+  ],
+  // Resolved from the compiled or source directory, so `node dist/main` only loads the `.js` migrations.
+  migrations: [join(__dirname, 'migrations', '*{.ts,.js}')],
   logging: false,
   synchronize: true,
 };
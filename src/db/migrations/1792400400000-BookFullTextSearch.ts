@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds the indexes behind `GET /book/search`: a GIN index on the weighted `searchVector`
+ * column for full-text search, and trigram indexes on title and author for the typo-tolerant fallback.
+ *
+ * The indexes are declared with `synchronize: false` on `BookEntity`, so schema sync leaves them alone.
+ */
+export class BookFullTextSearch1792400400000 implements MigrationInterface {
+  name = 'BookFullTextSearch1792400400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_BOOKS_SEARCH_VECTOR" ON "Books" USING GIN ("searchVector")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_BOOKS_TITLE_TRGM" ON "Books" USING GIN ("title" gin_trgm_ops)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_BOOKS_AUTHOR_TRGM" ON "Books" USING GIN ("author" gin_trgm_ops)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_BOOKS_AUTHOR_TRGM"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_BOOKS_TITLE_TRGM"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_BOOKS_SEARCH_VECTOR"`);
+  }
+}
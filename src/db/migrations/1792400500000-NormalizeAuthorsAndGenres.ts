@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { backfillCreditLinks } from '../../book/helpers/book-credits';
+
+/**
+ * Backfills the `Authors` and `Genres` tables and their `BookAuthors`/`BookGenres` links
+ * from the `author` and `genre` text columns of existing books.
+ *
+ * Values holding several names separated by semicolons become one author or genre per name.
+ * The author and genre services also run this backfill on start-up, since the app does not run
+ * migrations. It can safely be run more than once.
+ * The text columns are kept as the display value of each book's credits.
+ */
+export class NormalizeAuthorsAndGenres1792400500000
+  implements MigrationInterface
+{
+  name = 'NormalizeAuthorsAndGenres1792400500000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await backfillCreditLinks(queryRunner.manager, 'author');
+    await backfillCreditLinks(queryRunner.manager, 'genre');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM "BookGenres"`);
+    await queryRunner.query(`DELETE FROM "BookAuthors"`);
+    await queryRunner.query(`DELETE FROM "Genres"`);
+    await queryRunner.query(`DELETE FROM "Authors"`);
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { backfillDefaultLocationStock } from '../../location/helpers/default-location-stock';
+
+/**
+ * Moves the existing single stock figure of every book into a default location,
+ * so `Books.quantity` stays equal to the sum of its `BookStocks`.
+ *
+ * Ledger entries recorded before locations existed are attributed to the default location.
+ * The location service also runs this backfill on start-up, since the app does not run migrations.
+ * It can safely be run more than once.
+ */
+export class MultiLocationStock1792400600000 implements MigrationInterface {
+  name = 'MultiLocationStock1792400600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await backfillDefaultLocationStock(queryRunner.manager);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`UPDATE "StockMovements" SET "locationId" = NULL`);
+    await queryRunner.query(`DELETE FROM "BookStocks"`);
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { seedPriceHistory } from '../../book/helpers/price-history';
+
+/**
+ * Seeds the price history with the current price of every book that has none,
+ * taking effect from the book's creation, so price previews have a starting point.
+ *
+ * The book service also seeds the history on start-up, since the app does not run migrations.
+ * It can safely be run more than once.
+ */
+export class PriceHistory1792400700000 implements MigrationInterface {
+  name = 'PriceHistory1792400700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await seedPriceHistory(queryRunner.manager);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DELETE FROM "PriceHistory" WHERE "createdBy" = 'System' AND "previousPrice" IS NULL`,
+    );
+  }
+}
@@ -2,3 +2,46 @@ export enum Status {
   IN_STOKE = 'In Stock',
   OUT_OF_STOKE = 'Out of Stoke',
 }
+
+export enum BookSortField {
+  TITLE = 'title',
+  AUTHOR = 'author',
+  PRICE = 'price',
+  PUBLISH_DATE = 'publish_date',
+  QUANTITY = 'quantity',
+  UPDATED_AT = 'updatedAt',
+}
+
+export enum StockMovementType {
+  RECEIPT = 'Receipt',
+  SALE = 'Sale',
+  RETURN = 'Return',
+  ADJUSTMENT = 'Adjustment',
+  WRITE_OFF = 'Write-off',
+  TRANSFER_OUT = 'Transfer out',
+  TRANSFER_IN = 'Transfer in',
+  CHECK_OUT = 'Check-out',
+  CHECK_IN = 'Check-in',
+}
+
+export enum ImportRowAction {
+  CREATE = 'Create',
+  UPDATE = 'Update',
+  INVALID = 'Invalid',
+}
+
+export enum RevisionAction {
+  CREATE = 'Create',
+  UPDATE = 'Update',
+  DELETE = 'Delete',
+  RESTORE = 'Restore',
+  REVERT = 'Revert',
+}
+
+export enum BookFacet {
+  GENRE = 'genre',
+  AUTHOR = 'author',
+  STATUS = 'status',
+  PRICE_BAND = 'priceBand',
+  PUBLISH_YEAR = 'publishYear',
+}
@@ -0,0 +1,5 @@
+export enum CoverVariant {
+  THUMBNAIL = 'thumbnail',
+  MEDIUM = 'medium',
+  LARGE = 'large',
+}
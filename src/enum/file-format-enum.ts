@@ -0,0 +1,4 @@
+export enum FileFormat {
+  CSV = 'csv',
+  JSON = 'json',
+}
@@ -0,0 +1,9 @@
+export enum FilterOperator {
+  EQ = 'eq',
+  GT = 'gt',
+  GTE = 'gte',
+  LT = 'lt',
+  LTE = 'lte',
+  BETWEEN = 'between',
+  IN = 'in',
+}
@@ -0,0 +1,17 @@
+export enum BarcodeSymbology {
+  CODE128 = 'code128',
+  EAN13 = 'ean13',
+  QR = 'qrcode',
+}
+
+export enum BarcodeContent {
+  ISBN = 'isbn',
+  ID = 'id',
+}
+
+export enum LabelLayout {
+  AVERY_5160 = 'avery-5160',
+  AVERY_5163 = 'avery-5163',
+  AVERY_L7160 = 'avery-l7160',
+  AVERY_L7163 = 'avery-l7163',
+}
@@ -0,0 +1,8 @@
+export enum OrderStatus {
+  PENDING = 'Pending',
+  PAID = 'Paid',
+  SHIPPED = 'Shipped',
+  DELIVERED = 'Delivered',
+  CANCELLED = 'Cancelled',
+  REFUNDED = 'Refunded',
+}
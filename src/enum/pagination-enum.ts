@@ -0,0 +1,4 @@
+export enum SortOrder {
+  ASC = 'ASC',
+  DESC = 'DESC',
+}
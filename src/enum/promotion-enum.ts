@@ -0,0 +1,4 @@
+export enum DiscountType {
+  PERCENTAGE = 'Percentage',
+  FIXED = 'Fixed',
+}
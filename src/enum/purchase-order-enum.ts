@@ -0,0 +1,7 @@
+export enum PurchaseOrderStatus {
+  DRAFT = 'Draft',
+  SENT = 'Sent',
+  PARTIALLY_RECEIVED = 'Partially received',
+  RECEIVED = 'Received',
+  CANCELLED = 'Cancelled',
+}
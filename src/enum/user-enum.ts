@@ -7,3 +7,8 @@ export enum Status {
   ACTIVE = 'Active',
   DEACTIVATED = 'Deactivated',
 }
+
+export enum LoginFailureKind {
+  ACCOUNT = 'account',
+  IP = 'ip',
+}
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsOptional, IsString, Matches } from 'class-validator';
+
+export class GenreDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Genre name is Required' })
+  @Matches(/^[^;]*$/, { message: 'Genre name cannot contain a semicolon' })
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
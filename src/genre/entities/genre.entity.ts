@@ -0,0 +1,36 @@
+import { Column, Entity, ManyToMany, PrimaryGeneratedColumn } from 'typeorm';
+import { BookEntity } from '../../book/entities/book.entity';
+
+@Entity('Genres')
+export class GenreEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ unique: true })
+  name: string;
+
+  @Column('text', { nullable: true })
+  description: string;
+
+  @ManyToMany(() => BookEntity, (book) => book.genres)
+  books: BookEntity[];
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  createdAt: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+    onUpdate: 'extract(epoch from now())::bigint',
+  })
+  updatedAt: number;
+
+  @Column()
+  createdBy: string;
+
+  @Column()
+  updatedBy: string;
+}
@@ -0,0 +1,14 @@
+import { Controller } from '@nestjs/common';
+import { GenreService } from './genre.service';
+import { GenreDto } from './dto/genre.dto';
+import { GenreEntity } from './entities/genre.entity';
+import { CreditController } from '../utility/credit/credit.controller';
+
+@Controller('genre')
+export class GenreController extends CreditController<GenreEntity, GenreDto>(
+  GenreDto,
+) {
+  constructor(genreService: GenreService) {
+    super(genreService);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import * as dotenv from 'dotenv';
+import { GenreService } from './genre.service';
+import { GenreController } from './genre.controller';
+import { GenreEntity } from './entities/genre.entity';
+import { BookEntity } from '../book/entities/book.entity';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+
+dotenv.config();
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([GenreEntity, BookEntity]),
+    JwtModule.register({
+      secret: process.env.ACCESS_TOKEN_SECRET_KEY,
+      signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME },
+    }),
+  ],
+  controllers: [GenreController],
+  providers: [GenreService, JwtAuthGuard],
+})
+export class GenreModule {}
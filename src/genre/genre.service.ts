@@ -0,0 +1,23 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { GenreEntity } from './entities/genre.entity';
+import { GenreDto } from './dto/genre.dto';
+import { BookEntity } from '../book/entities/book.entity';
+import { CreditService } from '../utility/credit/credit.service';
+
+@Injectable()
+export class GenreService extends CreditService<GenreEntity, GenreDto> {
+  constructor(
+    @InjectRepository(GenreEntity)
+    genreEntityRepository: Repository<GenreEntity>,
+    @InjectRepository(BookEntity)
+    bookEntityRepository: Repository<BookEntity>,
+  ) {
+    super(genreEntityRepository, bookEntityRepository, {
+      alias: 'genre',
+      joinTable: 'BookGenres',
+      article: 'A genre',
+    });
+  }
+}
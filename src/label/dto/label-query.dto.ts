@@ -0,0 +1,14 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { BarcodeContent, BarcodeSymbology } from '../../enum/label-enum';
+
+export class LabelQueryDto {
+  @IsEnum(BarcodeSymbology, {
+    message: 'Symbology must be code128, ean13 or qrcode',
+  })
+  @IsOptional()
+  symbology?: BarcodeSymbology;
+
+  @IsEnum(BarcodeContent, { message: 'Content must be isbn or id' })
+  @IsOptional()
+  content?: BarcodeContent;
+}
@@ -0,0 +1,14 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { IntersectionType } from '@nestjs/mapped-types';
+import { BookFilterQueryDto } from '../../book/dto/book-filter-query.dto';
+import { LabelQueryDto } from './label-query.dto';
+import { LabelLayout } from '../../enum/label-enum';
+
+export class LabelSheetQueryDto extends IntersectionType(
+  BookFilterQueryDto,
+  LabelQueryDto,
+) {
+  @IsEnum(LabelLayout, { message: 'Layout is invalid' })
+  @IsOptional()
+  layout?: LabelLayout;
+}
@@ -0,0 +1,27 @@
+import { toBuffer } from 'bwip-js';
+import { BarcodeSymbology } from '../../enum/label-enum';
+
+/**
+ * Renders a barcode or QR code as a PNG image.
+ *
+ * Linear barcodes carry their human-readable text underneath.
+ *
+ * @param symbology - The kind of code to render.
+ * @param text - The text to encode.
+ * @returns A promise that resolves to the PNG image.
+ */
+export async function renderBarcode(
+  symbology: BarcodeSymbology,
+  text: string,
+): Promise<Buffer> {
+  return await toBuffer({
+    bcid: symbology,
+    text,
+    scale: 4,
+    ...(symbology !== BarcodeSymbology.QR && {
+      height: 12,
+      includetext: true,
+      textxalign: 'center',
+    }),
+  });
+}
@@ -0,0 +1,80 @@
+import * as sharp from 'sharp';
+
+const WIDTH = 600;
+const HEIGHT = 300;
+const PADDING = 20;
+const LINE_HEIGHT = 38;
+
+/** A line of text on a label. */
+export interface LabelLine {
+  text: string;
+  fontSize: number;
+  bold?: boolean;
+}
+
+/**
+ * Renders a label as a 600×300 PNG image: lines of text above a barcode, or beside a QR code.
+ *
+ * @param lines - The lines of text, top to bottom. Lines too long for the label are cut short.
+ * @param barcode - The rendered barcode or QR code.
+ * @param isQr - Whether the code is a QR code.
+ * @returns A promise that resolves to the PNG image.
+ */
+export async function renderLabelImage(
+  lines: LabelLine[],
+  barcode: Buffer,
+  isQr: boolean,
+): Promise<Buffer> {
+  const textWidth = (isQr ? WIDTH - HEIGHT : WIDTH) - 2 * PADDING;
+  const text = lines.map(({ text, fontSize, bold }, index) => {
+    const maxLength = Math.floor(textWidth / (fontSize * 0.6));
+    return (
+      `<text x="${PADDING}" y="${PADDING + (index + 1) * LINE_HEIGHT}" ` +
+      `font-family="sans-serif" font-size="${fontSize}" font-weight="${bold ? 'bold' : 'normal'}">` +
+      `${escapeXml(truncate(text, maxLength))}</text>`
+    );
+  });
+
+  const textHeight = PADDING + lines.length * LINE_HEIGHT + PADDING / 2;
+  const [x, y, width, height] = isQr
+    ? [
+        WIDTH - HEIGHT + PADDING,
+        PADDING,
+        HEIGHT - 2 * PADDING,
+        HEIGHT - 2 * PADDING,
+      ]
+    : [PADDING, textHeight, WIDTH - 2 * PADDING, HEIGHT - textHeight - PADDING];
+  const image =
+    `<image href="data:image/png;base64,${barcode.toString('base64')}" ` +
+    `x="${x}" y="${y}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid meet"/>`;
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}">` +
+    `<rect width="100%" height="100%" fill="white"/>${text.join('')}${image}</svg>`;
+  return await sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+/**
+ * Escapes text for use inside an SVG document.
+ *
+ * @param text - The text to escape.
+ * @returns The escaped text.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Shortens text to a maximum length, ending it with an ellipsis when cut.
+ *
+ * @param text - The text to shorten.
+ * @param length - The maximum length.
+ * @returns The text, shortened if needed.
+ */
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
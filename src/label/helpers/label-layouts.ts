@@ -0,0 +1,68 @@
+import { LabelLayout } from '../../enum/label-enum';
+
+const INCH = 72;
+const MM = 72 / 25.4;
+
+/** The geometry of a sheet of labels, in PDF points. */
+export interface LabelSheetLayout {
+  pageSize: [number, number];
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  columnGap: number;
+  rowGap: number;
+}
+
+const LETTER: [number, number] = [8.5 * INCH, 11 * INCH];
+const A4: [number, number] = [210 * MM, 297 * MM];
+
+/** Common label papers: Avery 5160/5163 on US Letter and L7160/L7163 on A4. */
+export const LABEL_LAYOUTS: Record<LabelLayout, LabelSheetLayout> = {
+  [LabelLayout.AVERY_5160]: {
+    pageSize: LETTER,
+    columns: 3,
+    rows: 10,
+    labelWidth: 2.625 * INCH,
+    labelHeight: 1 * INCH,
+    marginTop: 0.5 * INCH,
+    marginLeft: 0.1875 * INCH,
+    columnGap: 0.125 * INCH,
+    rowGap: 0,
+  },
+  [LabelLayout.AVERY_5163]: {
+    pageSize: LETTER,
+    columns: 2,
+    rows: 5,
+    labelWidth: 4 * INCH,
+    labelHeight: 2 * INCH,
+    marginTop: 0.5 * INCH,
+    marginLeft: 0.15625 * INCH,
+    columnGap: 0.1875 * INCH,
+    rowGap: 0,
+  },
+  [LabelLayout.AVERY_L7160]: {
+    pageSize: A4,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5 * MM,
+    labelHeight: 38.1 * MM,
+    marginTop: 15.15 * MM,
+    marginLeft: 7.25 * MM,
+    columnGap: 2.5 * MM,
+    rowGap: 0,
+  },
+  [LabelLayout.AVERY_L7163]: {
+    pageSize: A4,
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1 * MM,
+    labelHeight: 38.1 * MM,
+    marginTop: 15.15 * MM,
+    marginLeft: 4.65 * MM,
+    columnGap: 2.5 * MM,
+    rowGap: 0,
+  },
+};
@@ -0,0 +1,114 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { LabelService } from './label.service';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+import { Roles } from '../utility/decorators/role-decorator';
+import { RoleTypes } from '../enum/user-enum';
+import { Status } from '../enum/book-enum';
+import { BookEntity } from '../book/entities/book.entity';
+import { LabelQueryDto } from './dto/label-query.dto';
+import { LabelSheetQueryDto } from './dto/label-sheet-query.dto';
+
+@Controller('label')
+export class LabelController {
+  constructor(private readonly labelService: LabelService) {}
+
+  /**
+   * Generates the shelf label of a single book as a PNG image.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   * The label shows the title, author and current price with a Code 128 or EAN-13 barcode, or a QR code,
+   * encoding the book's ISBN-13 (or its ID, for books without one or when asked for).
+   *
+   * @param id - The unique identifier of the book.
+   * @param labelQueryDto - (Optional) `symbology` (`code128`, `ean13` or `qrcode`) and `content` (`isbn` or `id`) query parameters.
+   * @returns A promise that resolves to the PNG image.
+   *
+   * @throws NotFoundException - If no book is found with the given ID.
+   * @throws BadRequestException - If an EAN-13 barcode is requested for a book without an ISBN-13, or for its ID.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('book/:id')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async renderLabel(
+    @Param('id') id: string,
+    @Query() labelQueryDto: LabelQueryDto,
+  ): Promise<StreamableFile> {
+    const image = await this.labelService.renderLabel(id, labelQueryDto);
+    return new StreamableFile(image, {
+      type: 'image/png',
+      disposition: `inline; filename="label-${id}.png"`,
+    });
+  }
+
+  /**
+   * Generates a PDF sheet of shelf labels for the books matching the filters.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   * It accepts the same filters, sort options and paging as `GET /book`; one page of books (up to 100) is
+   * printed per request, laid out for Avery 5160 (default), 5163, L7160 or L7163 label paper.
+   *
+   * @param title - (Optional) Filter by book title (partial match).
+   * @param author - (Optional) Filter by author name (partial match).
+   * @param genre - (Optional) Filter by book genre (partial match).
+   * @param status - (Optional) Filter by the status of the book.
+   * @param publish_date - (Optional) Filter by the publish date of the book (must be a valid date string).
+   * @param labelSheetQueryDto - (Optional) `page`, `limit`, `sortBy`, `sortOrder`, `locationId`, `filter`, `layout`, `symbology` and `content` query parameters.
+   * @returns A promise that resolves to the PDF download.
+   *
+   * @throws NotFoundException - If no books match the filters.
+   * @throws BadRequestException - If an EAN-13 barcode is requested for a book without an ISBN-13, or for book IDs, or a filter expression is malformed.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('sheet')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async renderSheet(
+    @Query('title') title?: string,
+    @Query('author') author?: string,
+    @Query('genre') genre?: string,
+    @Query('status') status?: Status,
+    @Query('publish_date') publish_date?: string,
+    @Query() labelSheetQueryDto?: LabelSheetQueryDto,
+  ): Promise<StreamableFile> {
+    const pdf = await this.labelService.renderSheet(
+      title,
+      author,
+      genre,
+      status,
+      publish_date,
+      labelSheetQueryDto,
+    );
+    return new StreamableFile(pdf, {
+      type: 'application/pdf',
+      disposition: 'attachment; filename="labels.pdf"',
+    });
+  }
+
+  /**
+   * Looks up the book a scanned barcode or QR code refers to.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   * The code may be a book ID or an ISBN-10/ISBN-13 (as encoded in EAN-13 barcodes).
+   *
+   * @param code - The scanned code.
+   * @returns A promise that resolves to the book.
+   *
+   * @throws BadRequestException - If the code is neither a book ID nor a valid ISBN.
+   * @throws NotFoundException - If no book matches the code.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('lookup/:code')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async lookup(@Param('code') code: string): Promise<BookEntity> {
+    return await this.labelService.lookup(code);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import * as dotenv from 'dotenv';
+import { LabelService } from './label.service';
+import { LabelController } from './label.controller';
+import { BookModule } from '../book/book.module';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+
+dotenv.config();
+@Module({
+  imports: [
+    BookModule,
+    JwtModule.register({
+      secret: process.env.ACCESS_TOKEN_SECRET_KEY,
+      signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME },
+    }),
+  ],
+  controllers: [LabelController],
+  providers: [LabelService, JwtAuthGuard],
+})
+export class LabelModule {}
@@ -0,0 +1,269 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import * as PDFDocument from 'pdfkit';
+import { isUUID } from 'class-validator';
+import { BookService } from '../book/book.service';
+import { BookEntity } from '../book/entities/book.entity';
+import { Status } from '../enum/book-enum';
+import {
+  BarcodeContent,
+  BarcodeSymbology,
+  LabelLayout,
+} from '../enum/label-enum';
+import { LabelQueryDto } from './dto/label-query.dto';
+import { LabelSheetQueryDto } from './dto/label-sheet-query.dto';
+import { renderBarcode } from './helpers/barcode';
+import { renderLabelImage } from './helpers/label-image';
+import { LABEL_LAYOUTS } from './helpers/label-layouts';
+import { toIsbn13 } from '../utility/helpers/isbn';
+
+@Injectable()
+export class LabelService {
+  constructor(private readonly bookService: BookService) {}
+
+  /**
+   * Renders the shelf label of a single book as a PNG image.
+   *
+   * The label shows the title, author and current price above a barcode, or beside a QR code.
+   *
+   * @param id - The unique identifier of the book.
+   * @param labelQueryDto - (Optional) The symbology (Code 128 by default) and what to encode (the ISBN by default).
+   * @returns A promise that resolves to the PNG image.
+   * @throws NotFoundException - If no book is found with the given ID.
+   * @throws BadRequestException - If an EAN-13 barcode is requested for a book without an ISBN-13, or for its ID.
+   */
+  async renderLabel(
+    id: string,
+    labelQueryDto?: LabelQueryDto,
+  ): Promise<Buffer> {
+    const book = await this.bookService.findOne(id);
+    const symbology = labelQueryDto?.symbology || BarcodeSymbology.CODE128;
+    const barcode = await renderBarcode(
+      symbology,
+      this.barcodeText(book, symbology, labelQueryDto?.content),
+    );
+
+    return await renderLabelImage(
+      [
+        { text: book.title, fontSize: 30, bold: true },
+        { text: book.author, fontSize: 24 },
+        { text: this.formatPrice(book), fontSize: 30, bold: true },
+      ],
+      barcode,
+      symbology === BarcodeSymbology.QR,
+    );
+  }
+
+  /**
+   * Renders shelf labels for a page of books as a PDF, laid out for a sheet of label paper.
+   *
+   * The books are selected with the same filters, sort order and paging as the book listing,
+   * so at most one page (up to 100 books) is printed per request.
+   *
+   * @param title - (Optional) Filter books by title. Supports partial matches.
+   * @param author - (Optional) Filter books by author. Supports partial matches.
+   * @param genre - (Optional) Filter books by genre. Supports partial matches.
+   * @param status - (Optional) Filter books by their status.
+   * @param publish_date - (Optional) Filter books by their publish date (YYYY-MM-DD).
+   * @param labelSheetQueryDto - (Optional) Paging, sorting, location and filter expressions, the label layout (Avery 5160 by default) and the barcode options.
+   * @returns A promise that resolves to the PDF.
+   * @throws NotFoundException - If no books match the filters.
+   * @throws BadRequestException - If an EAN-13 barcode is requested for a book without an ISBN-13, or for book IDs.
+   */
+  async renderSheet(
+    title?: string,
+    author?: string,
+    genre?: string,
+    status?: Status,
+    publish_date?: string,
+    labelSheetQueryDto?: LabelSheetQueryDto,
+  ): Promise<Buffer> {
+    const { items: books } = await this.bookService.findAll(
+      title,
+      author,
+      genre,
+      status,
+      publish_date,
+      labelSheetQueryDto,
+    );
+    if (!books.length) {
+      throw new NotFoundException('No books match the filters');
+    }
+
+    const symbology = labelSheetQueryDto?.symbology || BarcodeSymbology.CODE128;
+    const barcodes: Buffer[] = [];
+    for (const book of books) {
+      barcodes.push(
+        await renderBarcode(
+          symbology,
+          this.barcodeText(book, symbology, labelSheetQueryDto?.content),
+        ),
+      );
+    }
+
+    const layout =
+      LABEL_LAYOUTS[labelSheetQueryDto?.layout || LabelLayout.AVERY_5160];
+    const perPage = layout.columns * layout.rows;
+    const doc = new PDFDocument({
+      size: layout.pageSize,
+      margin: 0,
+      autoFirstPage: false,
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const finished = new Promise((resolve) => doc.on('end', resolve));
+    books.forEach((book, index) => {
+      const slot = index % perPage;
+      if (slot === 0) {
+        doc.addPage();
+      }
+      const x =
+        layout.marginLeft +
+        (slot % layout.columns) * (layout.labelWidth + layout.columnGap);
+      const y =
+        layout.marginTop +
+        Math.floor(slot / layout.columns) *
+          (layout.labelHeight + layout.rowGap);
+      this.drawLabel(
+        doc,
+        book,
+        barcodes[index],
+        symbology === BarcodeSymbology.QR,
+        x,
+        y,
+        layout.labelWidth,
+        layout.labelHeight,
+      );
+    });
+    doc.end();
+    await finished;
+
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Finds the book a scanned code refers to.
+   *
+   * The code may be a book ID (as printed in Code 128 or QR labels) or an ISBN-10/ISBN-13,
+   * which is what EAN-13 barcodes on labels and on the books themselves encode.
+   *
+   * @param code - The scanned code.
+   * @returns A promise that resolves to the book.
+   * @throws BadRequestException - If the code is neither a book ID nor a valid ISBN.
+   * @throws NotFoundException - If no book matches the code.
+   */
+  async lookup(code: string): Promise<BookEntity> {
+    const value = code.trim();
+    if (isUUID(value)) {
+      return await this.bookService.findOne(value);
+    }
+    if (toIsbn13(value)) {
+      return await this.bookService.findByIsbn(value);
+    }
+    throw new BadRequestException('Code is not a book ID or ISBN');
+  }
+
+  /**
+   * Works out the text to encode in a book's barcode.
+   *
+   * Books without an ISBN-13 get their ID instead, except for EAN-13, which can only encode an ISBN.
+   *
+   * @param book - The book.
+   * @param symbology - The kind of code.
+   * @param content - (Optional) What to encode; the ISBN by default.
+   * @returns The text to encode.
+   * @throws BadRequestException - If an EAN-13 barcode is requested for a book without an ISBN-13, or for its ID.
+   */
+  private barcodeText(
+    book: BookEntity,
+    symbology: BarcodeSymbology,
+    content = BarcodeContent.ISBN,
+  ): string {
+    if (symbology === BarcodeSymbology.EAN13) {
+      if (content === BarcodeContent.ID) {
+        throw new BadRequestException(
+          'EAN-13 barcodes can only encode an ISBN',
+        );
+      }
+      if (!book.isbn13) {
+        throw new BadRequestException(
+          `Book "${book.title}" has no ISBN-13 for an EAN-13 barcode`,
+        );
+      }
+    }
+    return content === BarcodeContent.ISBN && book.isbn13
+      ? book.isbn13
+      : book.id;
+  }
+
+  /**
+   * Draws one label onto the current page of a PDF.
+   *
+   * @param doc - The PDF document.
+   * @param book - The book to label.
+   * @param barcode - The rendered barcode or QR code.
+   * @param isQr - Whether the code is a QR code, which goes beside the text rather than under it.
+   * @param x - The left edge of the label, in points.
+   * @param y - The top edge of the label, in points.
+   * @param width - The width of the label, in points.
+   * @param height - The height of the label, in points.
+   */
+  private drawLabel(
+    doc: PDFKit.PDFDocument,
+    book: BookEntity,
+    barcode: Buffer,
+    isQr: boolean,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+  ): void {
+    const pad = Math.min(6, height * 0.08);
+    const fontSize = Math.min(11, height / 8);
+    const lineHeight = fontSize * 1.25;
+    const codeSize = height - 2 * pad;
+    const textWidth = isQr ? width - 3 * pad - codeSize : width - 2 * pad;
+
+    const lines: [string, string][] = [
+      ['Helvetica-Bold', book.title],
+      ['Helvetica', book.author],
+      ['Helvetica-Bold', this.formatPrice(book)],
+    ];
+    lines.forEach(([font, text], index) => {
+      doc
+        .font(font)
+        .fontSize(fontSize)
+        .text(text, x + pad, y + pad + index * lineHeight, {
+          width: textWidth,
+          height: lineHeight,
+          ellipsis: true,
+        });
+    });
+
+    if (isQr) {
+      doc.image(barcode, x + width - pad - codeSize, y + pad, {
+        fit: [codeSize, codeSize],
+      });
+    } else {
+      const top = y + pad + lines.length * lineHeight;
+      doc.image(barcode, x + pad, top, {
+        fit: [width - 2 * pad, y + height - pad - top],
+        align: 'center',
+        valign: 'center',
+      });
+    }
+  }
+
+  /**
+   * Formats the price printed on a label: the current price, with any running promotion applied.
+   *
+   * @param book - The book.
+   * @returns The price with two decimals.
+   */
+  private formatPrice(book: BookEntity): string {
+    return Number(book.effectivePrice ?? book.price).toFixed(2);
+  }
+}
@@ -0,0 +1,14 @@
+import { IsBooleanString, IsInt, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationQueryDto } from '../../utility/dto/pagination-query.dto';
+
+export class LoanQueryDto extends PaginationQueryDto {
+  @Type(() => Number)
+  @IsInt({ message: 'User ID must be an integer' })
+  @IsOptional()
+  userId?: number;
+
+  @IsBooleanString({ message: 'Active must be true or false' })
+  @IsOptional()
+  active?: string;
+}
@@ -0,0 +1,23 @@
+import { IsDate, IsInt, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class LoanDto {
+  @IsUUID('all', { message: 'Book ID is invalid' })
+  @IsNotEmpty({ message: 'Book ID is Required' })
+  bookId: string;
+
+  @IsInt({ message: 'User ID must be an integer' })
+  @IsNotEmpty({ message: 'User ID is Required' })
+  userId: number;
+
+  /** When the loan is due; the configured loan period from now when omitted. */
+  @IsDate({ message: 'Due date is invalid' })
+  @Type(() => Date)
+  @IsOptional()
+  dueDate?: Date;
+
+  /** Location the copy is taken from; the default location when omitted. */
+  @IsInt({ message: 'Location ID must be an integer' })
+  @IsOptional()
+  locationId?: number;
+}
@@ -0,0 +1,66 @@
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { BookEntity } from '../../book/entities/book.entity';
+import { UserEntity } from '../../user/entities/user.entity';
+import { LocationEntity } from '../../location/entities/location.entity';
+
+@Entity('Loans')
+export class LoanEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ nullable: true })
+  bookId: string;
+
+  @ManyToOne(() => BookEntity, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'bookId' })
+  book: BookEntity;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity;
+
+  /** Location the copy was checked out from, and is checked back in to. */
+  @Column({ nullable: true })
+  locationId: number;
+
+  @ManyToOne(() => LocationEntity, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'locationId' })
+  location: LocationEntity;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  checkedOutAt: number;
+
+  @Column('bigint')
+  dueAt: number;
+
+  @Column({ type: 'bigint', nullable: true })
+  returnedAt: number;
+
+  @Column('int', { default: 0 })
+  renewals: number;
+
+  /** Fine assessed at check-in; for open loans, the fine accrued so far is filled in when the loan is read. */
+  @Column('decimal', { default: 0 })
+  fineAmount: number;
+
+  @Column({ type: 'bigint', nullable: true })
+  finePaidAt: number;
+
+  @Column()
+  createdBy: string;
+
+  @Column()
+  updatedBy: string;
+}
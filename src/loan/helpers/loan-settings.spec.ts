@@ -0,0 +1,70 @@
+import { addDays, daysOverdue, fineFor, loanSettings } from './loan-settings';
+
+const DAY = 86400;
+
+describe('loan-settings', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    delete process.env.LOAN_PERIOD_DAYS;
+    delete process.env.LOAN_MAX_RENEWALS;
+    delete process.env.LOAN_FINE_PER_DAY;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('loanSettings', () => {
+    it('uses the defaults when nothing is configured', () => {
+      expect(loanSettings()).toEqual({
+        periodDays: 14,
+        maxRenewals: 2,
+        finePerDay: 0.25,
+      });
+    });
+
+    it('reads the rules from the environment, including zero', () => {
+      process.env.LOAN_PERIOD_DAYS = '21';
+      process.env.LOAN_MAX_RENEWALS = '0';
+      process.env.LOAN_FINE_PER_DAY = '1.5';
+      expect(loanSettings()).toEqual({
+        periodDays: 21,
+        maxRenewals: 0,
+        finePerDay: 1.5,
+      });
+    });
+
+    it('falls back to the defaults for invalid or negative values', () => {
+      process.env.LOAN_PERIOD_DAYS = 'two weeks';
+      process.env.LOAN_MAX_RENEWALS = '-1';
+      expect(loanSettings()).toMatchObject({ periodDays: 14, maxRenewals: 2 });
+    });
+  });
+
+  describe('daysOverdue', () => {
+    it('is zero up to and including the due moment', () => {
+      expect(daysOverdue(1000, 500)).toBe(0);
+      expect(daysOverdue(1000, 1000)).toBe(0);
+    });
+
+    it('counts every started day', () => {
+      expect(daysOverdue(1000, 1001)).toBe(1);
+      expect(daysOverdue(1000, 1000 + DAY)).toBe(1);
+      expect(daysOverdue(1000, 1001 + DAY)).toBe(2);
+    });
+  });
+
+  describe('fineFor', () => {
+    it('charges the daily fine per started day, rounded to cents', () => {
+      process.env.LOAN_FINE_PER_DAY = '0.1';
+      expect(fineFor(0, 3 * DAY)).toBe(0.3);
+      expect(fineFor(0, 0)).toBe(0);
+    });
+  });
+
+  it('adds whole days', () => {
+    expect(addDays(1000, 2)).toBe(1000 + 2 * DAY);
+  });
+});
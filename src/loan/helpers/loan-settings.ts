@@ -0,0 +1,63 @@
+const SECONDS_PER_DAY = 86400;
+
+export interface LoanSettings {
+  /** Days a loan runs before it is due, and how far a renewal extends it. */
+  periodDays: number;
+  /** How many times a loan may be renewed. */
+  maxRenewals: number;
+  /** Fine charged per day a loan is overdue. */
+  finePerDay: number;
+}
+
+/**
+ * Reads the lending rules from the environment: `LOAN_PERIOD_DAYS` (default 14),
+ * `LOAN_MAX_RENEWALS` (default 2) and `LOAN_FINE_PER_DAY` (default 0.25).
+ *
+ * @returns The lending rules.
+ */
+export function loanSettings(): LoanSettings {
+  const setting = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && value >= 0 ? value : fallback;
+  };
+  return {
+    periodDays: setting('LOAN_PERIOD_DAYS', 14),
+    maxRenewals: setting('LOAN_MAX_RENEWALS', 2),
+    finePerDay: setting('LOAN_FINE_PER_DAY', 0.25),
+  };
+}
+
+/**
+ * Counts the started days between a due date and a later moment.
+ *
+ * @param dueAt - The due date, in epoch seconds.
+ * @param at - The moment to measure to, in epoch seconds.
+ * @returns The number of days overdue, or 0 if the moment is not past the due date.
+ */
+export function daysOverdue(dueAt: number, at: number): number {
+  return at > dueAt ? Math.ceil((at - dueAt) / SECONDS_PER_DAY) : 0;
+}
+
+/**
+ * Works out the fine for a loan returned, or still open, at a given moment.
+ *
+ * @param dueAt - The due date, in epoch seconds.
+ * @param at - The moment of return, or now for open loans, in epoch seconds.
+ * @returns The fine, rounded to cents.
+ */
+export function fineFor(dueAt: number, at: number): number {
+  return Number(
+    (daysOverdue(dueAt, at) * loanSettings().finePerDay).toFixed(2),
+  );
+}
+
+/**
+ * Adds whole days to a moment.
+ *
+ * @param at - The moment, in epoch seconds.
+ * @param days - The number of days to add.
+ * @returns The new moment, in epoch seconds.
+ */
+export function addDays(at: number, days: number): number {
+  return at + days * SECONDS_PER_DAY;
+}
@@ -0,0 +1,10 @@
+export interface OverdueLoan {
+  loanId: string;
+  bookId: string;
+  title: string;
+  userId: number;
+  email: string;
+  dueAt: number;
+  daysOverdue: number;
+  accruedFine: number;
+}
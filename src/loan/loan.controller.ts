@@ -0,0 +1,198 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { LoanService } from './loan.service';
+import { LoanDto } from './dto/loan.dto';
+import { LoanQueryDto } from './dto/loan-query.dto';
+import { LoanEntity } from './entities/loan.entity';
+import { OverdueLoan } from './interfaces/overdue-loan.interface';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+import { Roles } from '../utility/decorators/role-decorator';
+import { RoleTypes } from '../enum/user-enum';
+import { CurrentUser } from '../utility/decorators/current-user-decorator';
+import { UserEntity } from '../user/entities/user.entity';
+import { PaginationQueryDto } from '../utility/dto/pagination-query.dto';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+
+@Controller('loan')
+export class LoanController {
+  constructor(private readonly loanService: LoanService) {}
+
+  /**
+   * Checks a copy of a book out to a user.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param loanDto - An object containing the book ID, the borrowing user's ID, an optional due date and an optional location ID.
+   * @param currentUser - The currently authenticated user, recorded as the actor of the check-out.
+   * @returns A promise that resolves to the created loan.
+   *
+   * @throws NotFoundException - If the book, the user or the location is not found.
+   * @throws BadRequestException - If the user has unpaid fines or already has the book, the due date is in the past, or no copy is in stock at the location.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async checkOut(
+    @Body() loanDto: LoanDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<LoanEntity> {
+    return await this.loanService.checkOut(loanDto, currentUser);
+  }
+
+  /**
+   * Retrieves the current user's open loans, soonest due first, with the fines accrued so far.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the user's open loans.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('mine')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async findMine(
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<LoanEntity[]> {
+    return await this.loanService.findMine(currentUser);
+  }
+
+  /**
+   * Retrieves a page of all of the current user's loans, open and returned, most recent first.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param currentUser - The currently authenticated user.
+   * @param paginationQueryDto - (Optional) `page` and `limit` query parameters.
+   * @returns A promise that resolves to a page of the user's loans.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('mine/history')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async findMyHistory(
+    @CurrentUser() currentUser: UserEntity,
+    @Query() paginationQueryDto: PaginationQueryDto,
+  ): Promise<PaginatedResult<LoanEntity>> {
+    return await this.loanService.findMyHistory(
+      currentUser,
+      paginationQueryDto,
+    );
+  }
+
+  /**
+   * Lists every open loan past its due date, most overdue first, with the fine accrued so far.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @returns A promise that resolves to the overdue report.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('overdue')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async getOverdueReport(): Promise<OverdueLoan[]> {
+    return await this.loanService.getOverdueReport();
+  }
+
+  /**
+   * Retrieves a page of loans, most recent first.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param loanQueryDto - (Optional) `page`, `limit`, `userId` and `active` query parameters.
+   * @returns A promise that resolves to a page of loans.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findAll(
+    @Query() loanQueryDto: LoanQueryDto,
+  ): Promise<PaginatedResult<LoanEntity>> {
+    return await this.loanService.findAll(loanQueryDto);
+  }
+
+  /**
+   * Renews an open loan by one loan period, up to the configured renewal limit.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   * Users can only renew their own loans.
+   *
+   * @param id - The unique identifier of the loan.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the renewed loan.
+   *
+   * @throws NotFoundException - If no loan is found with the given ID, or it belongs to another user.
+   * @throws BadRequestException - If the loan is returned, overdue, or has reached the renewal limit.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Patch(':id/renew')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async renew(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<LoanEntity> {
+    return await this.loanService.renew(id, currentUser);
+  }
+
+  /**
+   * Checks a loaned copy back in, returning it to stock and assessing any overdue fine.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the loan.
+   * @param currentUser - The currently authenticated user, recorded as the actor of the check-in.
+   * @returns A promise that resolves to the returned loan.
+   *
+   * @throws NotFoundException - If no loan is found with the given ID.
+   * @throws BadRequestException - If the loan has already been returned.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Patch(':id/check-in')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async checkIn(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<LoanEntity> {
+    return await this.loanService.checkIn(id, currentUser);
+  }
+
+  /**
+   * Records the fine of a returned loan as paid.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the loan.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the updated loan.
+   *
+   * @throws NotFoundException - If no loan is found with the given ID.
+   * @throws BadRequestException - If the loan is still open, has no fine, or its fine is already paid.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Patch(':id/pay-fine')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async payFine(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<LoanEntity> {
+    return await this.loanService.payFine(id, currentUser);
+  }
+}
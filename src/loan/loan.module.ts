@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import * as dotenv from 'dotenv';
+import { LoanService } from './loan.service';
+import { LoanController } from './loan.controller';
+import { LoanEntity } from './entities/loan.entity';
+import { BookModule } from '../book/book.module';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+
+dotenv.config();
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([LoanEntity]),
+    BookModule,
+    JwtModule.register({
+      secret: process.env.ACCESS_TOKEN_SECRET_KEY,
+      signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME },
+    }),
+  ],
+  controllers: [LoanController],
+  providers: [LoanService, JwtAuthGuard],
+})
+export class LoanModule {}
@@ -0,0 +1,295 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { LoanService } from './loan.service';
+import { LoanEntity } from './entities/loan.entity';
+import { StockMovementType } from '../enum/book-enum';
+import { RoleTypes } from '../enum/user-enum';
+import { BookService } from '../book/book.service';
+import { UserEntity } from '../user/entities/user.entity';
+
+const DAY = 86400;
+const NOW = 1_700_000_000;
+
+describe('LoanService', () => {
+  const env = process.env;
+  const librarian = Object.assign(new UserEntity(), {
+    id: 1,
+    email: 'librarian@example.com',
+    role: [RoleTypes.ADMIN],
+  });
+  const borrower = Object.assign(new UserEntity(), {
+    id: 5,
+    email: 'reader@example.com',
+    role: [RoleTypes.USER],
+  });
+  let loan: LoanEntity;
+  let otherLoans: LoanEntity[];
+  let manager: {
+    findOne: jest.Mock;
+    find: jest.Mock;
+    exists: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+  let bookService: { recordStockMovement: jest.Mock };
+  let service: LoanService;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    delete process.env.LOAN_PERIOD_DAYS;
+    delete process.env.LOAN_MAX_RENEWALS;
+    delete process.env.LOAN_FINE_PER_DAY;
+    jest.spyOn(Date, 'now').mockReturnValue(NOW * 1000);
+
+    loan = Object.assign(new LoanEntity(), {
+      id: 'loan-1',
+      bookId: 'book-1',
+      userId: borrower.id,
+      locationId: 2,
+      checkedOutAt: NOW - 10 * DAY,
+      dueAt: NOW + 4 * DAY,
+      returnedAt: null,
+      renewals: 0,
+      fineAmount: 0,
+      finePaidAt: null,
+    });
+    otherLoans = [];
+    manager = {
+      findOne: jest.fn(async (entity, { where }) =>
+        entity === UserEntity
+          ? [librarian, borrower].find((user) => user.id === where.id)
+          : loan,
+      ),
+      find: jest.fn(async () => otherLoans),
+      exists: jest.fn(async () => false),
+      create: jest.fn((entity, values) => Object.assign(new entity(), values)),
+      save: jest.fn(async (entity) => entity),
+    };
+    bookService = {
+      recordStockMovement: jest.fn(async (bookId, { locationId }) => ({
+        locationId: locationId ?? 1,
+      })),
+    };
+    service = new LoanService(
+      {
+        manager: { transaction: async (work) => await work(manager) },
+      } as unknown as Repository<LoanEntity>,
+      bookService as unknown as BookService,
+    );
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.restoreAllMocks();
+  });
+
+  describe('checkOut', () => {
+    it('takes a copy out of stock and lends it for the loan period', async () => {
+      const created = await service.checkOut(
+        { bookId: 'book-1', userId: borrower.id },
+        librarian,
+      );
+
+      expect(bookService.recordStockMovement).toHaveBeenCalledWith(
+        'book-1',
+        {
+          type: StockMovementType.CHECK_OUT,
+          quantity: 1,
+          reason: 'Loan to reader@example.com',
+          locationId: undefined,
+        },
+        librarian,
+        manager,
+      );
+      expect(created).toMatchObject({
+        bookId: 'book-1',
+        userId: borrower.id,
+        locationId: 1,
+        checkedOutAt: NOW,
+        dueAt: NOW + 14 * DAY,
+        createdBy: librarian.email,
+      });
+    });
+
+    it('keeps the location and due date it was given', async () => {
+      const created = await service.checkOut({
+        bookId: 'book-1',
+        userId: borrower.id,
+        dueDate: new Date((NOW + 3 * DAY) * 1000),
+        locationId: 2,
+      });
+
+      expect(created).toMatchObject({ locationId: 2, dueAt: NOW + 3 * DAY });
+    });
+
+    it('rejects a due date in the past', async () => {
+      await expect(
+        service.checkOut({
+          bookId: 'book-1',
+          userId: borrower.id,
+          dueDate: new Date((NOW - DAY) * 1000),
+        }),
+      ).rejects.toThrow(
+        new BadRequestException('Due date must be in the future'),
+      );
+      expect(manager.findOne).not.toHaveBeenCalled();
+    });
+
+    it('throws if the borrower does not exist', async () => {
+      await expect(
+        service.checkOut({ bookId: 'book-1', userId: 99 }),
+      ).rejects.toThrow(new NotFoundException('User not found'));
+    });
+
+    it.each([
+      [
+        'an unpaid fine',
+        { returnedAt: NOW - DAY, fineAmount: 0.5, finePaidAt: null },
+      ],
+      [
+        'a fine accruing on an overdue book',
+        { returnedAt: null, dueAt: NOW - DAY, finePaidAt: null },
+      ],
+    ])('refuses to lend to a borrower with %s', async (_, fined) => {
+      otherLoans = [Object.assign(new LoanEntity(), fined)];
+
+      await expect(
+        service.checkOut({ bookId: 'book-1', userId: borrower.id }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'User has unpaid fines and cannot borrow books',
+        ),
+      );
+      expect(bookService.recordStockMovement).not.toHaveBeenCalled();
+    });
+
+    it('refuses to lend a book the borrower already has', async () => {
+      manager.exists.mockResolvedValue(true);
+
+      await expect(
+        service.checkOut({ bookId: 'book-1', userId: borrower.id }),
+      ).rejects.toThrow(
+        new BadRequestException('User already has this book on loan'),
+      );
+      expect(bookService.recordStockMovement).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renew', () => {
+    it('extends the loan by one loan period', async () => {
+      const renewed = await service.renew(loan.id, borrower);
+
+      expect(renewed).toMatchObject({
+        renewals: 1,
+        dueAt: NOW + 18 * DAY,
+        updatedBy: borrower.email,
+      });
+    });
+
+    it('stops at the renewal limit', async () => {
+      loan.renewals = 2;
+
+      await expect(service.renew(loan.id, borrower)).rejects.toThrow(
+        new BadRequestException('Loans can only be renewed 2 times'),
+      );
+    });
+
+    it('refuses to renew an overdue loan', async () => {
+      loan.dueAt = NOW - 1;
+
+      await expect(service.renew(loan.id, librarian)).rejects.toThrow(
+        new BadRequestException('Overdue loans cannot be renewed'),
+      );
+    });
+
+    it("hides other users' loans from non-admins", async () => {
+      loan.userId = 42;
+
+      await expect(service.renew(loan.id, borrower)).rejects.toThrow(
+        new NotFoundException('Loan not found'),
+      );
+    });
+  });
+
+  describe('checkIn', () => {
+    it('returns the copy to the location it was lent from', async () => {
+      const returned = await service.checkIn(loan.id, librarian);
+
+      expect(bookService.recordStockMovement).toHaveBeenCalledWith(
+        'book-1',
+        {
+          type: StockMovementType.CHECK_IN,
+          quantity: 1,
+          reason: 'Loan loan-1 returned',
+          locationId: 2,
+        },
+        librarian,
+        manager,
+      );
+      expect(returned).toMatchObject({
+        returnedAt: NOW,
+        fineAmount: 0,
+        updatedBy: librarian.email,
+      });
+    });
+
+    it('charges a fine for each started day overdue', async () => {
+      loan.dueAt = NOW - 2 * DAY - 60;
+
+      const returned = await service.checkIn(loan.id);
+
+      expect(returned.fineAmount).toBe(0.75);
+    });
+
+    it('closes the loan of a purged book without touching stock', async () => {
+      loan.bookId = null;
+
+      const returned = await service.checkIn(loan.id);
+
+      expect(bookService.recordStockMovement).not.toHaveBeenCalled();
+      expect(returned.returnedAt).toBe(NOW);
+    });
+
+    it('refuses to check a loan in twice', async () => {
+      loan.returnedAt = NOW - DAY;
+
+      await expect(service.checkIn(loan.id)).rejects.toThrow(
+        new BadRequestException('Loan has already been returned'),
+      );
+      expect(bookService.recordStockMovement).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('payFine', () => {
+    it('records the fine of a returned loan as paid', async () => {
+      Object.assign(loan, { returnedAt: NOW - DAY, fineAmount: 1.25 });
+
+      const paid = await service.payFine(loan.id, librarian);
+
+      expect(paid).toMatchObject({
+        finePaidAt: NOW,
+        updatedBy: librarian.email,
+      });
+    });
+
+    it.each([
+      [
+        'the book is still out',
+        {},
+        'The fine is settled once the book is checked in',
+      ],
+      ['there is no fine', { returnedAt: NOW }, 'Loan has no fine'],
+      [
+        'the fine is already paid',
+        { returnedAt: NOW, fineAmount: 1, finePaidAt: NOW },
+        'Fine has already been paid',
+      ],
+    ])('refuses when %s', async (_, state, message) => {
+      Object.assign(loan, state);
+
+      await expect(service.payFine(loan.id)).rejects.toThrow(
+        new BadRequestException(message),
+      );
+    });
+  });
+});
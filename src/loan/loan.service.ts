@@ -0,0 +1,377 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, IsNull, Repository } from 'typeorm';
+import { LoanEntity } from './entities/loan.entity';
+import { LoanDto } from './dto/loan.dto';
+import { LoanQueryDto } from './dto/loan-query.dto';
+import { OverdueLoan } from './interfaces/overdue-loan.interface';
+import {
+  addDays,
+  daysOverdue,
+  fineFor,
+  loanSettings,
+} from './helpers/loan-settings';
+import { StockMovementType } from '../enum/book-enum';
+import { RoleTypes } from '../enum/user-enum';
+import { BookService } from '../book/book.service';
+import { UserEntity } from '../user/entities/user.entity';
+import { PaginationQueryDto } from '../utility/dto/pagination-query.dto';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+import { paginate } from '../utility/helpers/paginate';
+import { actorName } from '../utility/helpers/actor';
+
+@Injectable()
+export class LoanService {
+  constructor(
+    @InjectRepository(LoanEntity)
+    private loanEntityRepository: Repository<LoanEntity>,
+    private readonly bookService: BookService,
+  ) {}
+
+  /**
+   * Checks a copy of a book out to a user.
+   *
+   * The copy is taken out of stock as a check-out in the same transaction that creates the loan, from
+   * the given location or the default location; the location is kept on the loan.
+   *
+   * @param loanDto - The book, the borrowing user, an optional due date and an optional location.
+   * @param currentUser - (Optional) The authenticated admin checking the book out.
+   * @returns A promise that resolves to the created loan.
+   * @throws NotFoundException - If the book, the user or the location is not found.
+   * @throws BadRequestException - If the user has unpaid fines or already has the book, the due date is in the past, or no copy is in stock at the location.
+   */
+  async checkOut(
+    loanDto: LoanDto,
+    currentUser?: UserEntity,
+  ): Promise<LoanEntity> {
+    const now = Math.floor(Date.now() / 1000);
+    const dueAt = loanDto.dueDate
+      ? Math.floor(loanDto.dueDate.getTime() / 1000)
+      : addDays(now, loanSettings().periodDays);
+    if (dueAt <= now) {
+      throw new BadRequestException('Due date must be in the future');
+    }
+
+    return await this.loanEntityRepository.manager.transaction(
+      async (manager) => {
+        const user = await manager.findOne(UserEntity, {
+          where: { id: loanDto.userId },
+        });
+        if (!user) {
+          throw new NotFoundException('User not found');
+        }
+        if ((await this.outstandingFines(manager, user.id)) > 0) {
+          throw new BadRequestException(
+            'User has unpaid fines and cannot borrow books',
+          );
+        }
+        if (
+          await manager.exists(LoanEntity, {
+            where: {
+              userId: user.id,
+              bookId: loanDto.bookId,
+              returnedAt: IsNull(),
+            },
+          })
+        ) {
+          throw new BadRequestException('User already has this book on loan');
+        }
+
+        const movement = await this.bookService.recordStockMovement(
+          loanDto.bookId,
+          {
+            type: StockMovementType.CHECK_OUT,
+            quantity: 1,
+            reason: `Loan to ${user.email}`,
+            locationId: loanDto.locationId,
+          },
+          currentUser,
+          manager,
+        );
+        const loan = manager.create(LoanEntity, {
+          bookId: loanDto.bookId,
+          userId: user.id,
+          locationId: movement.locationId,
+          checkedOutAt: now,
+          dueAt,
+          createdBy: actorName(currentUser),
+          updatedBy: actorName(currentUser),
+        });
+        return await manager.save(loan);
+      },
+    );
+  }
+
+  /**
+   * Retrieves the current user's open loans, soonest due first, with the fines accrued so far.
+   *
+   * @param currentUser - The authenticated user.
+   * @returns A promise that resolves to the open loans, with their books.
+   */
+  async findMine(currentUser: UserEntity): Promise<LoanEntity[]> {
+    const loans = await this.loanEntityRepository.find({
+      where: { userId: currentUser.id, returnedAt: IsNull() },
+      relations: { book: true },
+      order: { dueAt: 'ASC' },
+    });
+    return this.withAccruedFines(loans);
+  }
+
+  /**
+   * Retrieves a page of all of the current user's loans, open and returned, most recent first.
+   *
+   * @param currentUser - The authenticated user.
+   * @param paginationQueryDto - (Optional) Page and page size.
+   * @returns A promise that resolves to a page of loans.
+   */
+  async findMyHistory(
+    currentUser: UserEntity,
+    paginationQueryDto?: PaginationQueryDto,
+  ): Promise<PaginatedResult<LoanEntity>> {
+    return await this.findAll({
+      ...paginationQueryDto,
+      userId: currentUser.id,
+    });
+  }
+
+  /**
+   * Retrieves a page of loans, most recent first.
+   *
+   * @param loanQueryDto - (Optional) Page, page size, and filters by user and by whether the loan is still open.
+   * @returns A promise that resolves to a page of loans, with their books.
+   */
+  async findAll(
+    loanQueryDto?: LoanQueryDto,
+  ): Promise<PaginatedResult<LoanEntity>> {
+    const query = this.loanEntityRepository
+      .createQueryBuilder('loan')
+      .leftJoinAndSelect('loan.book', 'book')
+      .withDeleted()
+      .orderBy('loan.checkedOutAt', 'DESC')
+      .addOrderBy('loan.id', 'ASC');
+    if (loanQueryDto?.userId) {
+      query.andWhere('loan.userId = :userId', {
+        userId: loanQueryDto.userId,
+      });
+    }
+    if (loanQueryDto?.active === 'true') {
+      query.andWhere('loan.returnedAt IS NULL');
+    } else if (loanQueryDto?.active === 'false') {
+      query.andWhere('loan.returnedAt IS NOT NULL');
+    }
+
+    const page = await paginate(query, loanQueryDto);
+    return { ...page, items: this.withAccruedFines(page.items) };
+  }
+
+  /**
+   * Lists every open loan past its due date, most overdue first, with the fine accrued so far.
+   *
+   * @returns A promise that resolves to the overdue report.
+   */
+  async getOverdueReport(): Promise<OverdueLoan[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const loans = await this.loanEntityRepository
+      .createQueryBuilder('loan')
+      .leftJoinAndSelect('loan.book', 'book')
+      .innerJoinAndSelect('loan.user', 'user')
+      .withDeleted()
+      .where('loan.returnedAt IS NULL')
+      .andWhere('loan.dueAt < :now', { now })
+      .orderBy('loan.dueAt', 'ASC')
+      .getMany();
+
+    return loans.map((loan) => ({
+      loanId: loan.id,
+      bookId: loan.bookId,
+      title: loan.book?.title,
+      userId: loan.userId,
+      email: loan.user.email,
+      dueAt: Number(loan.dueAt),
+      daysOverdue: daysOverdue(Number(loan.dueAt), now),
+      accruedFine: fineFor(Number(loan.dueAt), now),
+    }));
+  }
+
+  /**
+   * Extends an open loan by one loan period, up to the configured number of renewals.
+   *
+   * Users can renew their own loans; admins can renew any loan.
+   *
+   * @param id - The unique identifier of the loan.
+   * @param currentUser - The authenticated user renewing the loan.
+   * @returns A promise that resolves to the renewed loan.
+   * @throws NotFoundException - If no loan is found with the given ID, or it belongs to another user.
+   * @throws BadRequestException - If the loan is returned, overdue, or has reached the renewal limit.
+   */
+  async renew(id: string, currentUser: UserEntity): Promise<LoanEntity> {
+    return await this.loanEntityRepository.manager.transaction(
+      async (manager) => {
+        const loan = await this.findOneForUpdate(manager, id);
+        if (
+          loan.userId !== currentUser.id &&
+          !currentUser.role.includes(RoleTypes.ADMIN)
+        ) {
+          throw new NotFoundException('Loan not found');
+        }
+        if (loan.returnedAt) {
+          throw new BadRequestException('Loan has already been returned');
+        }
+        const { maxRenewals, periodDays } = loanSettings();
+        if (Number(loan.dueAt) < Math.floor(Date.now() / 1000)) {
+          throw new BadRequestException('Overdue loans cannot be renewed');
+        }
+        if (loan.renewals >= maxRenewals) {
+          throw new BadRequestException(
+            `Loans can only be renewed ${maxRenewals} times`,
+          );
+        }
+
+        loan.renewals += 1;
+        loan.dueAt = addDays(Number(loan.dueAt), periodDays);
+        loan.updatedBy = actorName(currentUser);
+        return await manager.save(loan);
+      },
+    );
+  }
+
+  /**
+   * Checks a loaned copy back in, returning it to stock and assessing any overdue fine.
+   *
+   * The copy goes back to the location it was checked out from, or to the default location if that
+   * location was deleted or the loan predates recorded locations.
+   *
+   * @param id - The unique identifier of the loan.
+   * @param currentUser - (Optional) The authenticated admin checking the book in.
+   * @returns A promise that resolves to the returned loan, with its fine.
+   * @throws NotFoundException - If no loan is found with the given ID.
+   * @throws BadRequestException - If the loan has already been returned.
+   */
+  async checkIn(id: string, currentUser?: UserEntity): Promise<LoanEntity> {
+    return await this.loanEntityRepository.manager.transaction(
+      async (manager) => {
+        const loan = await this.findOneForUpdate(manager, id);
+        if (loan.returnedAt) {
+          throw new BadRequestException('Loan has already been returned');
+        }
+
+        if (loan.bookId) {
+          await this.bookService.recordStockMovement(
+            loan.bookId,
+            {
+              type: StockMovementType.CHECK_IN,
+              quantity: 1,
+              reason: `Loan ${loan.id} returned`,
+              locationId: loan.locationId,
+            },
+            currentUser,
+            manager,
+          );
+        }
+        loan.returnedAt = Math.floor(Date.now() / 1000);
+        loan.fineAmount = fineFor(Number(loan.dueAt), loan.returnedAt);
+        loan.updatedBy = actorName(currentUser);
+        return await manager.save(loan);
+      },
+    );
+  }
+
+  /**
+   * Records the fine of a returned loan as paid.
+   *
+   * @param id - The unique identifier of the loan.
+   * @param currentUser - (Optional) The authenticated admin recording the payment.
+   * @returns A promise that resolves to the updated loan.
+   * @throws NotFoundException - If no loan is found with the given ID.
+   * @throws BadRequestException - If the loan is still open, has no fine, or its fine is already paid.
+   */
+  async payFine(id: string, currentUser?: UserEntity): Promise<LoanEntity> {
+    return await this.loanEntityRepository.manager.transaction(
+      async (manager) => {
+        const loan = await this.findOneForUpdate(manager, id);
+        if (!loan.returnedAt) {
+          throw new BadRequestException(
+            'The fine is settled once the book is checked in',
+          );
+        }
+        if (!(Number(loan.fineAmount) > 0)) {
+          throw new BadRequestException('Loan has no fine');
+        }
+        if (loan.finePaidAt) {
+          throw new BadRequestException('Fine has already been paid');
+        }
+
+        loan.finePaidAt = Math.floor(Date.now() / 1000);
+        loan.updatedBy = actorName(currentUser);
+        return await manager.save(loan);
+      },
+    );
+  }
+
+  /**
+   * Adds up a user's unpaid fines: assessed fines of returned loans plus fines accruing on overdue open loans.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param userId - The unique identifier of the user.
+   * @returns A promise that resolves to the total unpaid amount.
+   */
+  private async outstandingFines(
+    manager: EntityManager,
+    userId: number,
+  ): Promise<number> {
+    const now = Math.floor(Date.now() / 1000);
+    const loans = await manager.find(LoanEntity, {
+      where: { userId, finePaidAt: IsNull() },
+    });
+    return loans.reduce(
+      (total, loan) =>
+        total +
+        (loan.returnedAt
+          ? Number(loan.fineAmount)
+          : fineFor(Number(loan.dueAt), now)),
+      0,
+    );
+  }
+
+  /**
+   * Fills in the fine accrued so far on open loans.
+   *
+   * @param loans - The loans to update; returned loans keep their assessed fine.
+   * @returns The same loans.
+   */
+  private withAccruedFines(loans: LoanEntity[]): LoanEntity[] {
+    const now = Math.floor(Date.now() / 1000);
+    for (const loan of loans.filter((loan) => !loan.returnedAt)) {
+      loan.fineAmount = fineFor(Number(loan.dueAt), now);
+    }
+    return loans;
+  }
+
+  /**
+   * Retrieves a loan by its ID and locks its row until the enclosing transaction ends.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param id - The unique identifier of the loan.
+   * @returns A promise that resolves to the locked loan.
+   * @throws NotFoundException - If no loan is found with the given ID.
+   */
+  private async findOneForUpdate(
+    manager: EntityManager,
+    id: string,
+  ): Promise<LoanEntity> {
+    const loan = await manager.findOne(LoanEntity, {
+      where: { id },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (!loan) {
+      throw new NotFoundException('Loan not found');
+    }
+
+    return loan;
+  }
+}
@@ -0,0 +1,15 @@
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class LocationDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Location name is Required' })
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  address?: string;
+
+  @IsBoolean({ message: 'isDefault must be a boolean' })
+  @IsOptional()
+  isDefault?: boolean;
+}
@@ -0,0 +1,41 @@
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { BookEntity } from '../../book/entities/book.entity';
+import { LocationEntity } from './location.entity';
+
+@Entity('BookStocks')
+@Unique(['bookId', 'locationId'])
+export class BookStockEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  bookId: string;
+
+  @ManyToOne(() => BookEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'bookId' })
+  book: BookEntity;
+
+  @Column()
+  locationId: number;
+
+  @ManyToOne(() => LocationEntity, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'locationId' })
+  location: LocationEntity;
+
+  @Column('int', { default: 0 })
+  quantity: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+    onUpdate: 'extract(epoch from now())::bigint',
+  })
+  updatedAt: number;
+}
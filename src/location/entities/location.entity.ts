@@ -0,0 +1,36 @@
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity('Locations')
+export class LocationEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ unique: true })
+  name: string;
+
+  @Column('text', { nullable: true })
+  address: string;
+
+  /** Stock movements that do not name a location are booked here. */
+  @Column({ default: false })
+  isDefault: boolean;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  createdAt: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+    onUpdate: 'extract(epoch from now())::bigint',
+  })
+  updatedAt: number;
+
+  @Column()
+  createdBy: string;
+
+  @Column()
+  updatedBy: string;
+}
@@ -0,0 +1,38 @@
+import { EntityManager } from 'typeorm';
+
+/** Name of the location created when stock first moves and no default location exists. */
+export const DEFAULT_LOCATION_NAME = 'Default';
+
+/**
+ * Moves the single stock figure of books that have no per-location stock yet into the default
+ * location, creating it if needed, so `Books.quantity` stays equal to the sum of its `BookStocks`.
+ *
+ * Ledger entries recorded before locations existed are attributed to the default location.
+ * Only books and entries that predate locations are touched, so it is safe to run on every start.
+ *
+ * @param manager - The entity manager to run the queries with.
+ * @returns A promise that resolves once the stock is backfilled.
+ */
+export async function backfillDefaultLocationStock(
+  manager: EntityManager,
+): Promise<void> {
+  await manager.query(
+    `INSERT INTO "Locations" ("name", "isDefault", "createdBy", "updatedBy")
+     SELECT $1::varchar, true, 'System', 'System'
+     WHERE NOT EXISTS (SELECT 1 FROM "Locations" WHERE "isDefault")
+     ON CONFLICT ("name") DO UPDATE SET "isDefault" = true`,
+    [DEFAULT_LOCATION_NAME],
+  );
+  await manager.query(
+    `INSERT INTO "BookStocks" ("bookId", "locationId", "quantity")
+     SELECT book."id", location."id", book."quantity"
+     FROM "Books" book, "Locations" location
+     WHERE location."isDefault" AND book."quantity" > 0
+       AND NOT EXISTS (SELECT 1 FROM "BookStocks" stock WHERE stock."bookId" = book."id")
+     ON CONFLICT DO NOTHING`,
+  );
+  await manager.query(
+    `UPDATE "StockMovements" SET "locationId" = (SELECT "id" FROM "Locations" WHERE "isDefault")
+     WHERE "locationId" IS NULL`,
+  );
+}
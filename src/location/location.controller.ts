@@ -0,0 +1,155 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { LocationService } from './location.service';
+import { LocationDto } from './dto/location.dto';
+import { LocationEntity } from './entities/location.entity';
+import { BookStockEntity } from './entities/book-stock.entity';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+import { Roles } from '../utility/decorators/role-decorator';
+import { RoleTypes } from '../enum/user-enum';
+import { CurrentUser } from '../utility/decorators/current-user-decorator';
+import { UserEntity } from '../user/entities/user.entity';
+import { PaginationQueryDto } from '../utility/dto/pagination-query.dto';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+
+@Controller('location')
+export class LocationController {
+  constructor(private readonly locationService: LocationService) {}
+
+  /**
+   * Creates a new location, such as a warehouse or a shop branch.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param locationDto - An object containing the name, optional address and whether the location is the default one.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the created location.
+   *
+   * @throws BadRequestException - If a location with the same name already exists.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async create(
+    @Body() locationDto: LocationDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<LocationEntity> {
+    return await this.locationService.create(locationDto, currentUser);
+  }
+
+  /**
+   * Retrieves a page of locations, sorted by name.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param paginationQueryDto - (Optional) `page` and `limit` query parameters.
+   * @returns A promise that resolves to a page of locations.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async findAll(
+    @Query() paginationQueryDto: PaginationQueryDto,
+  ): Promise<PaginatedResult<LocationEntity>> {
+    return await this.locationService.findAll(paginationQueryDto);
+  }
+
+  /**
+   * Retrieves a single location by its ID.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param id - The unique identifier of the location.
+   * @returns A promise that resolves to the location.
+   *
+   * @throws NotFoundException - If no location is found with the given ID.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async findOne(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<LocationEntity> {
+    return await this.locationService.findOne(id);
+  }
+
+  /**
+   * Retrieves a page of the books in stock at a location, sorted by title.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param id - The unique identifier of the location.
+   * @param paginationQueryDto - (Optional) `page` and `limit` query parameters.
+   * @returns A promise that resolves to a page of stock records, with their books.
+   *
+   * @throws NotFoundException - If no location is found with the given ID.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get(':id/stock')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async findStock(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() paginationQueryDto: PaginationQueryDto,
+  ): Promise<PaginatedResult<BookStockEntity>> {
+    return await this.locationService.findStock(id, paginationQueryDto);
+  }
+
+  /**
+   * Updates a location. Making it the default location unsets the previous default.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the location.
+   * @param locationDto - An object containing the new name, optional address and whether the location is the default one.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the updated location.
+   *
+   * @throws NotFoundException - If no location is found with the given ID.
+   * @throws BadRequestException - If another location already has the new name, or the default location is unset.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() locationDto: LocationDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<LocationEntity> {
+    return await this.locationService.update(id, locationDto, currentUser);
+  }
+
+  /**
+   * Deletes a location that holds no stock.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the location.
+   * @returns A promise that resolves to `true` once the location is deleted.
+   *
+   * @throws NotFoundException - If no location is found with the given ID.
+   * @throws BadRequestException - If the location is the default location or still holds stock.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async remove(@Param('id', ParseIntPipe) id: number): Promise<boolean> {
+    return await this.locationService.remove(id);
+  }
+}
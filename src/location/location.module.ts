@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import * as dotenv from 'dotenv';
+import { LocationService } from './location.service';
+import { LocationController } from './location.controller';
+import { LocationEntity } from './entities/location.entity';
+import { BookStockEntity } from './entities/book-stock.entity';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+
+dotenv.config();
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([LocationEntity, BookStockEntity]),
+    JwtModule.register({
+      secret: process.env.ACCESS_TOKEN_SECRET_KEY,
+      signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME },
+    }),
+  ],
+  controllers: [LocationController],
+  providers: [LocationService, JwtAuthGuard],
+})
+export class LocationModule {}
@@ -0,0 +1,220 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, MoreThan, Not, Repository } from 'typeorm';
+import { LocationEntity } from './entities/location.entity';
+import { BookStockEntity } from './entities/book-stock.entity';
+import { LocationDto } from './dto/location.dto';
+import { UserEntity } from '../user/entities/user.entity';
+import { PaginationQueryDto } from '../utility/dto/pagination-query.dto';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+import { paginate } from '../utility/helpers/paginate';
+import { actorName } from '../utility/helpers/actor';
+import { backfillDefaultLocationStock } from './helpers/default-location-stock';
+
+@Injectable()
+export class LocationService implements OnModuleInit {
+  constructor(
+    @InjectRepository(LocationEntity)
+    private locationEntityRepository: Repository<LocationEntity>,
+    @InjectRepository(BookStockEntity)
+    private bookStockEntityRepository: Repository<BookStockEntity>,
+  ) {}
+
+  /**
+   * Puts the stock of books created before locations existed into the default location, so the
+   * first movement on such a book finds its copies.
+   */
+  async onModuleInit(): Promise<void> {
+    await this.locationEntityRepository.manager.transaction(
+      async (manager) => await backfillDefaultLocationStock(manager),
+    );
+  }
+
+  /**
+   * Creates a new location, such as a warehouse or a shop branch.
+   *
+   * @param locationDto - The name, optional address and whether the location is the default one.
+   * @param currentUser - (Optional) The authenticated user creating the location.
+   * @returns A promise that resolves to the created location.
+   * @throws BadRequestException - If a location with the same name already exists.
+   */
+  async create(
+    locationDto: LocationDto,
+    currentUser?: UserEntity,
+  ): Promise<LocationEntity> {
+    await this.assertNameAvailable(locationDto.name);
+    return await this.locationEntityRepository.manager.transaction(
+      async (manager) => {
+        if (locationDto.isDefault) {
+          await this.clearDefault(manager);
+        }
+        const location = manager.create(LocationEntity, {
+          ...locationDto,
+          createdBy: actorName(currentUser),
+          updatedBy: actorName(currentUser),
+        });
+        return await manager.save(location);
+      },
+    );
+  }
+
+  /**
+   * Retrieves a page of locations, sorted by name.
+   *
+   * @param paginationQueryDto - (Optional) Page and page size.
+   * @returns A promise that resolves to a page of locations.
+   */
+  async findAll(
+    paginationQueryDto?: PaginationQueryDto,
+  ): Promise<PaginatedResult<LocationEntity>> {
+    const query = this.locationEntityRepository
+      .createQueryBuilder('location')
+      .orderBy('location.name', 'ASC')
+      .addOrderBy('location.id', 'ASC');
+    return await paginate(query, paginationQueryDto);
+  }
+
+  /**
+   * Retrieves a single location by its ID.
+   *
+   * @param id - The unique identifier of the location.
+   * @returns A promise that resolves to the location.
+   * @throws NotFoundException - If no location is found with the given ID.
+   */
+  async findOne(id: number): Promise<LocationEntity> {
+    const location = await this.locationEntityRepository.findOne({
+      where: { id },
+    });
+
+    if (!location) {
+      throw new NotFoundException('Location not found');
+    }
+
+    return location;
+  }
+
+  /**
+   * Retrieves a page of the books in stock at a location, sorted by title.
+   *
+   * @param id - The unique identifier of the location.
+   * @param paginationQueryDto - (Optional) Page and page size.
+   * @returns A promise that resolves to a page of stock records, with their books.
+   * @throws NotFoundException - If no location is found with the given ID.
+   */
+  async findStock(
+    id: number,
+    paginationQueryDto?: PaginationQueryDto,
+  ): Promise<PaginatedResult<BookStockEntity>> {
+    await this.findOne(id);
+    const query = this.bookStockEntityRepository
+      .createQueryBuilder('stock')
+      .innerJoinAndSelect('stock.book', 'book')
+      .where('stock.locationId = :id', { id })
+      .andWhere('stock.quantity > 0')
+      .orderBy('book.title', 'ASC')
+      .addOrderBy('stock.id', 'ASC');
+    return await paginate(query, paginationQueryDto);
+  }
+
+  /**
+   * Updates a location. Making it the default location unsets the previous default.
+   *
+   * @param id - The unique identifier of the location.
+   * @param locationDto - The new name, optional address and whether the location is the default one.
+   * @param currentUser - (Optional) The authenticated user updating the location.
+   * @returns A promise that resolves to the updated location.
+   * @throws NotFoundException - If no location is found with the given ID.
+   * @throws BadRequestException - If another location already has the new name, or the default location is unset without choosing another.
+   */
+  async update(
+    id: number,
+    locationDto: LocationDto,
+    currentUser?: UserEntity,
+  ): Promise<LocationEntity> {
+    const location = await this.findOne(id);
+    await this.assertNameAvailable(locationDto.name, id);
+    if (location.isDefault && locationDto.isDefault === false) {
+      throw new BadRequestException(
+        'Make another location the default location instead',
+      );
+    }
+
+    return await this.locationEntityRepository.manager.transaction(
+      async (manager) => {
+        if (locationDto.isDefault && !location.isDefault) {
+          await this.clearDefault(manager);
+        }
+        Object.assign(location, locationDto, {
+          updatedBy: actorName(currentUser),
+        });
+        return await manager.save(location);
+      },
+    );
+  }
+
+  /**
+   * Deletes a location that holds no stock.
+   *
+   * Stock movements at the location are kept in the ledger without their location.
+   *
+   * @param id - The unique identifier of the location.
+   * @returns A promise that resolves to `true` once the location is deleted.
+   * @throws NotFoundException - If no location is found with the given ID.
+   * @throws BadRequestException - If the location is the default location or still holds stock.
+   */
+  async remove(id: number): Promise<boolean> {
+    const location = await this.findOne(id);
+    if (location.isDefault) {
+      throw new BadRequestException('The default location cannot be deleted');
+    }
+    if (
+      await this.bookStockEntityRepository.exists({
+        where: { locationId: id, quantity: MoreThan(0) },
+      })
+    ) {
+      throw new BadRequestException(
+        'Location still holds stock; transfer it to another location first',
+      );
+    }
+
+    await this.locationEntityRepository.manager.transaction(async (manager) => {
+      await manager.delete(BookStockEntity, { locationId: id });
+      await manager.delete(LocationEntity, id);
+    });
+    return true;
+  }
+
+  /**
+   * Unsets the current default location.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   */
+  private async clearDefault(manager: EntityManager): Promise<void> {
+    await manager.update(
+      LocationEntity,
+      { isDefault: true },
+      { isDefault: false },
+    );
+  }
+
+  /**
+   * Makes sure no other location has the given name.
+   *
+   * @param name - The name to check.
+   * @param id - (Optional) The location being renamed, which may keep its own name.
+   * @throws BadRequestException - If another location already has the name.
+   */
+  private async assertNameAvailable(name: string, id?: number): Promise<void> {
+    const existing = await this.locationEntityRepository.findOne({
+      where: { name, ...(id && { id: Not(id) }) },
+    });
+    if (existing) {
+      throw new BadRequestException('A location with this name already exists');
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { IsEnum, IsInt, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationQueryDto } from '../../utility/dto/pagination-query.dto';
+import { OrderStatus } from '../../enum/order-enum';
+
+export class OrderQueryDto extends PaginationQueryDto {
+  @IsEnum(OrderStatus, { message: 'Order status is invalid' })
+  @IsOptional()
+  status?: OrderStatus;
+
+  @Type(() => Number)
+  @IsInt({ message: 'User ID must be an integer' })
+  @IsOptional()
+  userId?: number;
+}
@@ -0,0 +1,8 @@
+import { IsEnum, IsNotEmpty } from 'class-validator';
+import { OrderStatus } from '../../enum/order-enum';
+
+export class OrderStatusDto {
+  @IsEnum(OrderStatus, { message: 'Order status is invalid' })
+  @IsNotEmpty({ message: 'Order status is Required' })
+  status: OrderStatus;
+}
@@ -0,0 +1,34 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class OrderLineDto {
+  @IsUUID('all', { message: 'Book ID is invalid' })
+  @IsNotEmpty({ message: 'Book ID is Required' })
+  bookId: string;
+
+  @IsInt({ message: 'Quantity must be an integer' })
+  @Min(1, { message: 'Quantity must be at least 1' })
+  quantity: number;
+
+  /** Location the copies are taken from; the default location when omitted. */
+  @IsInt({ message: 'Location ID must be an integer' })
+  @IsOptional()
+  locationId?: number;
+}
+
+export class OrderDto {
+  @IsArray({ message: 'Lines must be an Array' })
+  @ArrayNotEmpty({ message: 'An order needs at least one book' })
+  @ValidateNested({ each: true })
+  @Type(() => OrderLineDto)
+  lines: OrderLineDto[];
+}
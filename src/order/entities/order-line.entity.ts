@@ -0,0 +1,49 @@
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { BookEntity } from '../../book/entities/book.entity';
+import { OrderEntity } from './order.entity';
+import { LocationEntity } from '../../location/entities/location.entity';
+
+@Entity('OrderLines')
+export class OrderLineEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  orderId: string;
+
+  @ManyToOne(() => OrderEntity, (order) => order.lines, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'orderId' })
+  order: OrderEntity;
+
+  @Column({ nullable: true })
+  bookId: string;
+
+  @ManyToOne(() => BookEntity, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'bookId' })
+  book: BookEntity;
+
+  /** Location the copies were taken from, and are returned to on cancellation or refund. */
+  @Column({ nullable: true })
+  locationId: number;
+
+  @ManyToOne(() => LocationEntity, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'locationId' })
+  location: LocationEntity;
+
+  /** Title of the book when the order was placed. */
+  @Column()
+  title: string;
+
+  @Column('int')
+  quantity: number;
+
+  /** Price of the book when the order was placed, after any promotion. */
+  @Column('decimal')
+  unitPrice: number;
+}
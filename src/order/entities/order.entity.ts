@@ -0,0 +1,71 @@
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { OrderStatus } from '../../enum/order-enum';
+import { UserEntity } from '../../user/entities/user.entity';
+import { OrderLineEntity } from './order-line.entity';
+
+@Entity('Orders')
+export class OrderEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity;
+
+  @Column({
+    type: 'enum',
+    enum: OrderStatus,
+    default: OrderStatus.PENDING,
+  })
+  status: OrderStatus;
+
+  @Column('decimal')
+  total: number;
+
+  @OneToMany(() => OrderLineEntity, (line) => line.order, { cascade: true })
+  lines: OrderLineEntity[];
+
+  @Column({ type: 'bigint', nullable: true })
+  paidAt: number;
+
+  @Column({ type: 'bigint', nullable: true })
+  shippedAt: number;
+
+  @Column({ type: 'bigint', nullable: true })
+  deliveredAt: number;
+
+  @Column({ type: 'bigint', nullable: true })
+  cancelledAt: number;
+
+  @Column({ type: 'bigint', nullable: true })
+  refundedAt: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  createdAt: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+    onUpdate: 'extract(epoch from now())::bigint',
+  })
+  updatedAt: number;
+
+  @Column()
+  createdBy: string;
+
+  @Column()
+  updatedBy: string;
+}
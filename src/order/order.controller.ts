@@ -0,0 +1,165 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { OrderService } from './order.service';
+import { OrderDto } from './dto/order.dto';
+import { OrderQueryDto } from './dto/order-query.dto';
+import { OrderStatusDto } from './dto/order-status.dto';
+import { OrderEntity } from './entities/order.entity';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+import { Roles } from '../utility/decorators/role-decorator';
+import { RoleTypes } from '../enum/user-enum';
+import { CurrentUser } from '../utility/decorators/current-user-decorator';
+import { UserEntity } from '../user/entities/user.entity';
+import { PaginationQueryDto } from '../utility/dto/pagination-query.dto';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+
+@Controller('order')
+export class OrderController {
+  constructor(private readonly orderService: OrderService) {}
+
+  /**
+   * Places an order for one or more books, reserving the copies from stock.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param orderDto - An object containing the ordered books, their quantities and optional locations.
+   * @param currentUser - The currently authenticated user, who places the order.
+   * @returns A promise that resolves to the pending order.
+   *
+   * @throws NotFoundException - If one of the books or locations is not found.
+   * @throws BadRequestException - If a book appears more than once or there are not enough copies in stock at the location.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async place(
+    @Body() orderDto: OrderDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<OrderEntity> {
+    return await this.orderService.place(orderDto, currentUser);
+  }
+
+  /**
+   * Retrieves a page of the current user's orders, most recent first.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param currentUser - The currently authenticated user.
+   * @param paginationQueryDto - (Optional) `page` and `limit` query parameters.
+   * @returns A promise that resolves to a page of the user's orders.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('mine')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async findMine(
+    @CurrentUser() currentUser: UserEntity,
+    @Query() paginationQueryDto: PaginationQueryDto,
+  ): Promise<PaginatedResult<OrderEntity>> {
+    return await this.orderService.findMine(currentUser, paginationQueryDto);
+  }
+
+  /**
+   * Retrieves a page of all orders, most recent first.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param orderQueryDto - (Optional) `page`, `limit`, `status` and `userId` query parameters.
+   * @returns A promise that resolves to a page of orders.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findAll(
+    @Query() orderQueryDto: OrderQueryDto,
+  ): Promise<PaginatedResult<OrderEntity>> {
+    return await this.orderService.findAll(orderQueryDto);
+  }
+
+  /**
+   * Retrieves a single order. Users can only retrieve their own orders.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param id - The unique identifier of the order.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the order.
+   *
+   * @throws NotFoundException - If no order is found with the given ID, or it belongs to another user.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<OrderEntity> {
+    return await this.orderService.findOne(id, currentUser);
+  }
+
+  /**
+   * Moves an order to a new status: pending → paid → shipped → delivered, or cancelled/refunded.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   * Cancelling or refunding an order returns its copies to stock.
+   *
+   * @param id - The unique identifier of the order.
+   * @param orderStatusDto - An object containing the new status.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the updated order.
+   *
+   * @throws NotFoundException - If no order is found with the given ID.
+   * @throws BadRequestException - If the order cannot move from its current status to the new one.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Patch(':id/status')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async changeStatus(
+    @Param('id') id: string,
+    @Body() orderStatusDto: OrderStatusDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<OrderEntity> {
+    return await this.orderService.changeStatus(
+      id,
+      orderStatusDto.status,
+      currentUser,
+    );
+  }
+
+  /**
+   * Cancels one of the current user's own orders while it is still pending.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param id - The unique identifier of the order.
+   * @param currentUser - The currently authenticated user, who placed the order.
+   * @returns A promise that resolves to the cancelled order.
+   *
+   * @throws NotFoundException - If no order is found with the given ID, or it belongs to another user.
+   * @throws BadRequestException - If the order is no longer pending.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Patch(':id/cancel')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async cancelMine(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<OrderEntity> {
+    return await this.orderService.cancelMine(id, currentUser);
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import * as dotenv from 'dotenv';
+import { OrderService } from './order.service';
+import { OrderController } from './order.controller';
+import { OrderEntity } from './entities/order.entity';
+import { OrderLineEntity } from './entities/order-line.entity';
+import { BookModule } from '../book/book.module';
+import { PromotionModule } from '../promotion/promotion.module';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+
+dotenv.config();
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([OrderEntity, OrderLineEntity]),
+    BookModule,
+    PromotionModule,
+    JwtModule.register({
+      secret: process.env.ACCESS_TOKEN_SECRET_KEY,
+      signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME },
+    }),
+  ],
+  controllers: [OrderController],
+  providers: [OrderService, JwtAuthGuard],
+})
+export class OrderModule {}
@@ -0,0 +1,254 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { OrderService } from './order.service';
+import { OrderEntity } from './entities/order.entity';
+import { OrderLineEntity } from './entities/order-line.entity';
+import { OrderStatus } from '../enum/order-enum';
+import { StockMovementType } from '../enum/book-enum';
+import { RoleTypes } from '../enum/user-enum';
+import { BookEntity } from '../book/entities/book.entity';
+import { BookService } from '../book/book.service';
+import { PromotionService } from '../promotion/promotion.service';
+import { UserEntity } from '../user/entities/user.entity';
+
+describe('OrderService', () => {
+  const customer = Object.assign(new UserEntity(), {
+    id: 11,
+    email: 'reader@example.com',
+    role: [RoleTypes.USER],
+  });
+  const books = [
+    Object.assign(new BookEntity(), { id: 'book-a', title: 'A', price: 10 }),
+    Object.assign(new BookEntity(), { id: 'book-b', title: 'B', price: 4.99 }),
+  ];
+  let order: OrderEntity;
+  let lines: OrderLineEntity[];
+  let manager: {
+    findOne: jest.Mock;
+    find: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+  let bookService: { recordStockMovement: jest.Mock };
+  let service: OrderService;
+
+  beforeEach(() => {
+    order = Object.assign(new OrderEntity(), {
+      id: 'order-1',
+      userId: customer.id,
+      status: OrderStatus.PENDING,
+    });
+    lines = [
+      Object.assign(new OrderLineEntity(), {
+        bookId: 'book-a',
+        locationId: 2,
+        quantity: 1,
+      }),
+      Object.assign(new OrderLineEntity(), {
+        bookId: null,
+        locationId: 2,
+        quantity: 1,
+      }),
+      Object.assign(new OrderLineEntity(), {
+        bookId: 'book-b',
+        locationId: null,
+        quantity: 3,
+      }),
+    ];
+    manager = {
+      findOne: jest.fn(async (entity, { where }) =>
+        entity === BookEntity
+          ? books.find((book) => book.id === where.id)
+          : order,
+      ),
+      find: jest.fn(async () => lines),
+      create: jest.fn((entity, values) => Object.assign(new entity(), values)),
+      save: jest.fn(async (entity) =>
+        Object.assign(entity, { id: entity.id ?? 'order-1' }),
+      ),
+    };
+    bookService = {
+      recordStockMovement: jest.fn(async (bookId, { locationId }) => ({
+        locationId: locationId ?? 1,
+      })),
+    };
+    service = new OrderService(
+      {
+        manager: { transaction: async (work) => await work(manager) },
+      } as unknown as Repository<OrderEntity>,
+      bookService as unknown as BookService,
+      {
+        applyEffectivePrices: async (priced: BookEntity[]) =>
+          priced.forEach((book) => (book.effectivePrice = book.price)),
+      } as PromotionService,
+    );
+  });
+
+  describe('place', () => {
+    it('sells each book in a fixed order and captures its price and location', async () => {
+      const placed = await service.place(
+        {
+          lines: [
+            { bookId: 'book-b', quantity: 2 },
+            { bookId: 'book-a', quantity: 1, locationId: 2 },
+          ],
+        },
+        customer,
+      );
+
+      expect(
+        bookService.recordStockMovement.mock.calls.map(([bookId]) => bookId),
+      ).toEqual(['book-a', 'book-b']);
+      expect(bookService.recordStockMovement).toHaveBeenCalledWith(
+        'book-a',
+        {
+          type: StockMovementType.SALE,
+          quantity: 1,
+          reason: 'Order order-1',
+          locationId: 2,
+        },
+        customer,
+        manager,
+      );
+      expect(placed).toMatchObject({
+        userId: customer.id,
+        status: OrderStatus.PENDING,
+        total: 19.98,
+        createdBy: customer.email,
+      });
+      expect(placed.lines).toEqual([
+        expect.objectContaining({
+          bookId: 'book-a',
+          locationId: 2,
+          title: 'A',
+          quantity: 1,
+          unitPrice: 10,
+        }),
+        expect.objectContaining({
+          bookId: 'book-b',
+          locationId: 1,
+          title: 'B',
+          quantity: 2,
+          unitPrice: 4.99,
+        }),
+      ]);
+    });
+
+    it('rejects an order listing a book twice', async () => {
+      await expect(
+        service.place(
+          {
+            lines: [
+              { bookId: 'book-a', quantity: 1 },
+              { bookId: 'book-a', quantity: 2 },
+            ],
+          },
+          customer,
+        ),
+      ).rejects.toThrow(
+        new BadRequestException('Each book can only appear once on an order'),
+      );
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('fails the whole order if a book is out of stock', async () => {
+      bookService.recordStockMovement.mockRejectedValueOnce(
+        new BadRequestException('Insufficient stock'),
+      );
+
+      await expect(
+        service.place({ lines: [{ bookId: 'book-a', quantity: 9 }] }, customer),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('changeStatus', () => {
+    it.each([OrderStatus.CANCELLED, OrderStatus.REFUNDED])(
+      'returns the copies of every remaining book to their location when %s',
+      async (status) => {
+        order.status = OrderStatus.PAID;
+
+        const changed = await service.changeStatus(order.id, status, customer);
+
+        expect(bookService.recordStockMovement).toHaveBeenCalledTimes(2);
+        expect(bookService.recordStockMovement).toHaveBeenCalledWith(
+          'book-a',
+          {
+            type: StockMovementType.RETURN,
+            quantity: 1,
+            reason: `Order order-1 ${status.toLowerCase()}`,
+            locationId: 2,
+          },
+          customer,
+          manager,
+        );
+        expect(bookService.recordStockMovement).toHaveBeenCalledWith(
+          'book-b',
+          expect.objectContaining({ quantity: 3, locationId: null }),
+          customer,
+          manager,
+        );
+        expect(changed.status).toBe(status);
+      },
+    );
+
+    it('records when the order moved on without touching stock', async () => {
+      order.status = OrderStatus.PAID;
+
+      const changed = await service.changeStatus(
+        order.id,
+        OrderStatus.SHIPPED,
+        customer,
+      );
+
+      expect(bookService.recordStockMovement).not.toHaveBeenCalled();
+      expect(changed).toMatchObject({
+        status: OrderStatus.SHIPPED,
+        shippedAt: expect.any(Number),
+        updatedBy: customer.email,
+      });
+    });
+
+    it('rejects a move the status does not allow', async () => {
+      order.status = OrderStatus.DELIVERED;
+
+      await expect(
+        service.changeStatus(order.id, OrderStatus.CANCELLED, customer),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'An order cannot go from delivered to cancelled',
+        ),
+      );
+      expect(bookService.recordStockMovement).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelMine', () => {
+    it("hides other users' orders", async () => {
+      order.userId = 99;
+
+      await expect(service.cancelMine(order.id, customer)).rejects.toThrow(
+        new NotFoundException('Order not found'),
+      );
+    });
+
+    it('refuses once the order is no longer pending', async () => {
+      order.status = OrderStatus.PAID;
+
+      await expect(service.cancelMine(order.id, customer)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(bookService.recordStockMovement).not.toHaveBeenCalled();
+    });
+
+    it('releases the copies of a pending order', async () => {
+      const cancelled = await service.cancelMine(order.id, customer);
+
+      expect(bookService.recordStockMovement).toHaveBeenCalledTimes(2);
+      expect(cancelled).toMatchObject({
+        status: OrderStatus.CANCELLED,
+        cancelledAt: expect.any(Number),
+      });
+    });
+  });
+});
@@ -0,0 +1,341 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { OrderEntity } from './entities/order.entity';
+import { OrderLineEntity } from './entities/order-line.entity';
+import { OrderDto } from './dto/order.dto';
+import { OrderQueryDto } from './dto/order-query.dto';
+import { OrderStatus } from '../enum/order-enum';
+import { StockMovementType } from '../enum/book-enum';
+import { RoleTypes } from '../enum/user-enum';
+import { BookEntity } from '../book/entities/book.entity';
+import { BookService } from '../book/book.service';
+import { PromotionService } from '../promotion/promotion.service';
+import { UserEntity } from '../user/entities/user.entity';
+import { PaginationQueryDto } from '../utility/dto/pagination-query.dto';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+import { paginate } from '../utility/helpers/paginate';
+import { actorName } from '../utility/helpers/actor';
+
+/** Statuses each order status may move to. */
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.PAID, OrderStatus.CANCELLED],
+  [OrderStatus.PAID]: [
+    OrderStatus.SHIPPED,
+    OrderStatus.CANCELLED,
+    OrderStatus.REFUNDED,
+  ],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED, OrderStatus.REFUNDED],
+  [OrderStatus.DELIVERED]: [OrderStatus.REFUNDED],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.REFUNDED]: [],
+};
+
+/** Column recording when an order entered each status. */
+const STATUS_TIMESTAMPS: Partial<Record<OrderStatus, keyof OrderEntity>> = {
+  [OrderStatus.PAID]: 'paidAt',
+  [OrderStatus.SHIPPED]: 'shippedAt',
+  [OrderStatus.DELIVERED]: 'deliveredAt',
+  [OrderStatus.CANCELLED]: 'cancelledAt',
+  [OrderStatus.REFUNDED]: 'refundedAt',
+};
+
+@Injectable()
+export class OrderService {
+  constructor(
+    @InjectRepository(OrderEntity)
+    private orderEntityRepository: Repository<OrderEntity>,
+    private readonly bookService: BookService,
+    private readonly promotionService: PromotionService,
+  ) {}
+
+  /**
+   * Places an order for one or more books on behalf of the current user.
+   *
+   * The ordered copies are taken out of stock as sales in the same transaction that creates the order,
+   * from the location given on each line or the default location; the location is kept on the line.
+   * Each book row is locked while its stock is checked, in a fixed order, so concurrent orders can
+   * never sell more copies than are in stock. Prices, with any running promotion applied, are captured
+   * at the time of the order.
+   *
+   * @param orderDto - The books to order, their quantities and optional locations.
+   * @param currentUser - The authenticated user placing the order.
+   * @returns A promise that resolves to the pending order, with its lines.
+   * @throws NotFoundException - If one of the books or locations is not found.
+   * @throws BadRequestException - If a book appears more than once or there are not enough copies in stock at the location.
+   */
+  async place(
+    orderDto: OrderDto,
+    currentUser: UserEntity,
+  ): Promise<OrderEntity> {
+    const bookIds = orderDto.lines.map((line) => line.bookId);
+    if (new Set(bookIds).size !== bookIds.length) {
+      throw new BadRequestException(
+        'Each book can only appear once on an order',
+      );
+    }
+
+    return await this.orderEntityRepository.manager.transaction(
+      async (manager) => {
+        const order = await manager.save(
+          manager.create(OrderEntity, {
+            userId: currentUser.id,
+            status: OrderStatus.PENDING,
+            total: 0,
+            createdBy: actorName(currentUser),
+            updatedBy: actorName(currentUser),
+          }),
+        );
+
+        const lines = [...orderDto.lines].sort((a, b) =>
+          a.bookId.localeCompare(b.bookId),
+        );
+        let total = 0;
+        order.lines = [];
+        for (const line of lines) {
+          const movement = await this.bookService.recordStockMovement(
+            line.bookId,
+            {
+              type: StockMovementType.SALE,
+              quantity: line.quantity,
+              reason: `Order ${order.id}`,
+              locationId: line.locationId,
+            },
+            currentUser,
+            manager,
+          );
+          const book = await manager.findOne(BookEntity, {
+            where: { id: line.bookId },
+          });
+          await this.promotionService.applyEffectivePrices([book]);
+          order.lines.push(
+            manager.create(OrderLineEntity, {
+              orderId: order.id,
+              bookId: book.id,
+              locationId: movement.locationId,
+              title: book.title,
+              quantity: line.quantity,
+              unitPrice: book.effectivePrice,
+            }),
+          );
+          total += book.effectivePrice * line.quantity;
+        }
+
+        order.total = Number(total.toFixed(2));
+        return await manager.save(order);
+      },
+    );
+  }
+
+  /**
+   * Retrieves a page of the current user's orders, most recent first.
+   *
+   * @param currentUser - The authenticated user.
+   * @param paginationQueryDto - (Optional) Page and page size.
+   * @returns A promise that resolves to a page of orders, with their lines.
+   */
+  async findMine(
+    currentUser: UserEntity,
+    paginationQueryDto?: PaginationQueryDto,
+  ): Promise<PaginatedResult<OrderEntity>> {
+    return await this.findAll({
+      ...paginationQueryDto,
+      userId: currentUser.id,
+    });
+  }
+
+  /**
+   * Retrieves a page of orders, most recent first.
+   *
+   * @param orderQueryDto - (Optional) Page, page size, and filters by status and user.
+   * @returns A promise that resolves to a page of orders, with their lines.
+   */
+  async findAll(
+    orderQueryDto?: OrderQueryDto,
+  ): Promise<PaginatedResult<OrderEntity>> {
+    const query = this.orderEntityRepository
+      .createQueryBuilder('customerOrder')
+      .leftJoinAndSelect('customerOrder.lines', 'line')
+      .orderBy('customerOrder.createdAt', 'DESC')
+      .addOrderBy('customerOrder.id', 'ASC');
+    if (orderQueryDto?.status) {
+      query.andWhere('customerOrder.status = :status', {
+        status: orderQueryDto.status,
+      });
+    }
+    if (orderQueryDto?.userId) {
+      query.andWhere('customerOrder.userId = :userId', {
+        userId: orderQueryDto.userId,
+      });
+    }
+    return await paginate(query, orderQueryDto);
+  }
+
+  /**
+   * Retrieves a single order. Users can only see their own orders; admins can see every order.
+   *
+   * @param id - The unique identifier of the order.
+   * @param currentUser - The authenticated user.
+   * @returns A promise that resolves to the order, with its lines.
+   * @throws NotFoundException - If no order is found with the given ID, or it belongs to another user.
+   */
+  async findOne(id: string, currentUser: UserEntity): Promise<OrderEntity> {
+    const order = await this.orderEntityRepository.findOne({
+      where: { id },
+      relations: { lines: true },
+    });
+
+    if (
+      !order ||
+      (order.userId !== currentUser.id &&
+        !currentUser.role.includes(RoleTypes.ADMIN))
+    ) {
+      throw new NotFoundException('Order not found');
+    }
+
+    return order;
+  }
+
+  /**
+   * Moves an order to a new status.
+   *
+   * Cancelling releases the reserved copies and refunding restores the sold copies; both are
+   * recorded in the stock ledger as returns to the location each line was taken from, in the same
+   * transaction as the status change.
+   *
+   * @param id - The unique identifier of the order.
+   * @param status - The new status.
+   * @param currentUser - The authenticated user making the change.
+   * @returns A promise that resolves to the updated order.
+   * @throws NotFoundException - If no order is found with the given ID.
+   * @throws BadRequestException - If the order cannot move from its current status to the new one.
+   */
+  async changeStatus(
+    id: string,
+    status: OrderStatus,
+    currentUser: UserEntity,
+  ): Promise<OrderEntity> {
+    return await this.orderEntityRepository.manager.transaction(
+      async (manager) => {
+        const order = await this.findOneForUpdate(manager, id);
+        return await this.applyStatus(manager, order, status, currentUser);
+      },
+    );
+  }
+
+  /**
+   * Cancels one of the current user's own orders while it is still pending, releasing its copies.
+   *
+   * @param id - The unique identifier of the order.
+   * @param currentUser - The authenticated user who placed the order.
+   * @returns A promise that resolves to the cancelled order.
+   * @throws NotFoundException - If no order is found with the given ID, or it belongs to another user.
+   * @throws BadRequestException - If the order is no longer pending.
+   */
+  async cancelMine(id: string, currentUser: UserEntity): Promise<OrderEntity> {
+    return await this.orderEntityRepository.manager.transaction(
+      async (manager) => {
+        const order = await this.findOneForUpdate(manager, id);
+        if (order.userId !== currentUser.id) {
+          throw new NotFoundException('Order not found');
+        }
+        if (order.status !== OrderStatus.PENDING) {
+          throw new BadRequestException(
+            'Only pending orders can be cancelled; please contact us for a refund',
+          );
+        }
+        return await this.applyStatus(
+          manager,
+          order,
+          OrderStatus.CANCELLED,
+          currentUser,
+        );
+      },
+    );
+  }
+
+  /**
+   * Moves a locked order to a new status, returning its copies to stock when it is cancelled or refunded.
+   *
+   * Copies go back to the location of their line; lines whose location was deleted, or that were
+   * placed before locations were recorded, return to the default location.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param order - The order, locked for update.
+   * @param status - The new status.
+   * @param currentUser - The authenticated user making the change.
+   * @returns A promise that resolves to the saved order, with its lines.
+   * @throws BadRequestException - If the order cannot move from its current status to the new one.
+   */
+  private async applyStatus(
+    manager: EntityManager,
+    order: OrderEntity,
+    status: OrderStatus,
+    currentUser: UserEntity,
+  ): Promise<OrderEntity> {
+    if (!TRANSITIONS[order.status].includes(status)) {
+      throw new BadRequestException(
+        `An order cannot go from ${order.status.toLowerCase()} to ${status.toLowerCase()}`,
+      );
+    }
+
+    if (status === OrderStatus.CANCELLED || status === OrderStatus.REFUNDED) {
+      const lines = await manager.find(OrderLineEntity, {
+        where: { orderId: order.id },
+        order: { bookId: 'ASC' },
+      });
+      for (const line of lines.filter((line) => line.bookId)) {
+        await this.bookService.recordStockMovement(
+          line.bookId,
+          {
+            type: StockMovementType.RETURN,
+            quantity: line.quantity,
+            reason: `Order ${order.id} ${status.toLowerCase()}`,
+            locationId: line.locationId,
+          },
+          currentUser,
+          manager,
+        );
+      }
+    }
+
+    Object.assign(order, {
+      status,
+      [STATUS_TIMESTAMPS[status]]: Math.floor(Date.now() / 1000),
+      updatedBy: actorName(currentUser),
+    });
+    await manager.save(order);
+    return await manager.findOne(OrderEntity, {
+      where: { id: order.id },
+      relations: { lines: true },
+    });
+  }
+
+  /**
+   * Retrieves an order by its ID and locks its row until the enclosing transaction ends.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param id - The unique identifier of the order.
+   * @returns A promise that resolves to the locked order, without its lines.
+   * @throws NotFoundException - If no order is found with the given ID.
+   */
+  private async findOneForUpdate(
+    manager: EntityManager,
+    id: string,
+  ): Promise<OrderEntity> {
+    const order = await manager.findOne(OrderEntity, {
+      where: { id },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    return order;
+  }
+}
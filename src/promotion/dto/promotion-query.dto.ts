@@ -0,0 +1,8 @@
+import { IsBooleanString, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from '../../utility/dto/pagination-query.dto';
+
+export class PromotionQueryDto extends PaginationQueryDto {
+  @IsBooleanString({ message: 'Active must be true or false' })
+  @IsOptional()
+  active?: string;
+}
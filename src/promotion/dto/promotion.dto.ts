@@ -0,0 +1,54 @@
+import {
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DiscountType } from '../../enum/promotion-enum';
+
+export class PromotionDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Promotion name is Required' })
+  name: string;
+
+  @IsEnum(DiscountType, {
+    message: 'Discount type must be Percentage or Fixed',
+  })
+  @IsNotEmpty({ message: 'Discount type is Required' })
+  discountType: DiscountType;
+
+  @IsNumber({}, { message: 'Discount value must be a number' })
+  @IsNotEmpty({ message: 'Discount value is Required' })
+  value: number;
+
+  @IsDate({ message: 'Start date is invalid' })
+  @Type(() => Date)
+  @IsNotEmpty({ message: 'Start date is Required' })
+  startsAt: Date;
+
+  @IsDate({ message: 'End date is invalid' })
+  @Type(() => Date)
+  @IsOptional()
+  endsAt?: Date;
+
+  @IsArray({ message: 'Book IDs must be an Array' })
+  @IsUUID('all', { each: true, message: 'Book IDs must be valid UUIDs' })
+  @IsOptional()
+  bookIds?: string[];
+
+  @IsArray({ message: 'Genre IDs must be an Array of Numbers' })
+  @IsInt({ each: true, message: 'Genre IDs must be integers' })
+  @IsOptional()
+  genreIds?: number[];
+
+  @IsArray({ message: 'Author IDs must be an Array of Numbers' })
+  @IsInt({ each: true, message: 'Author IDs must be integers' })
+  @IsOptional()
+  authorIds?: number[];
+}
@@ -0,0 +1,90 @@
+import {
+  Column,
+  Entity,
+  JoinTable,
+  ManyToMany,
+  PrimaryGeneratedColumn,
+  RelationId,
+} from 'typeorm';
+import { DiscountType } from '../../enum/promotion-enum';
+import { BookEntity } from '../../book/entities/book.entity';
+import { GenreEntity } from '../../genre/entities/genre.entity';
+import { AuthorEntity } from '../../author/entities/author.entity';
+
+@Entity('Promotions')
+export class PromotionEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @Column({
+    type: 'enum',
+    enum: DiscountType,
+  })
+  discountType: DiscountType;
+
+  /** Percentage off for percentage discounts, amount off for fixed discounts. */
+  @Column('decimal')
+  value: number;
+
+  @Column('bigint')
+  startsAt: number;
+
+  /** When the promotion ends; open-ended when empty. */
+  @Column({ type: 'bigint', nullable: true })
+  endsAt: number;
+
+  @ManyToMany(() => BookEntity)
+  @JoinTable({
+    name: 'PromotionBooks',
+    joinColumn: { name: 'promotionId' },
+    inverseJoinColumn: { name: 'bookId' },
+  })
+  books: BookEntity[];
+
+  @RelationId((promotion: PromotionEntity) => promotion.books)
+  bookIds: string[];
+
+  @ManyToMany(() => GenreEntity)
+  @JoinTable({
+    name: 'PromotionGenres',
+    joinColumn: { name: 'promotionId' },
+    inverseJoinColumn: { name: 'genreId' },
+  })
+  genres: GenreEntity[];
+
+  @RelationId((promotion: PromotionEntity) => promotion.genres)
+  genreIds: number[];
+
+  @ManyToMany(() => AuthorEntity)
+  @JoinTable({
+    name: 'PromotionAuthors',
+    joinColumn: { name: 'promotionId' },
+    inverseJoinColumn: { name: 'authorId' },
+  })
+  authors: AuthorEntity[];
+
+  @RelationId((promotion: PromotionEntity) => promotion.authors)
+  authorIds: number[];
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  createdAt: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+    onUpdate: 'extract(epoch from now())::bigint',
+  })
+  updatedAt: number;
+
+  @Column()
+  createdBy: string;
+
+  @Column()
+  updatedBy: string;
+}
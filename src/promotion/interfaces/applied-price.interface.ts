@@ -0,0 +1,6 @@
+export interface AppliedPrice {
+  listPrice: number;
+  effectivePrice: number;
+  /** The promotion giving the lowest price, or `null` when none applies. */
+  promotion: { id: number; name: string } | null;
+}
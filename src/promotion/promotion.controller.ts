@@ -0,0 +1,132 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { PromotionService } from './promotion.service';
+import { PromotionDto } from './dto/promotion.dto';
+import { PromotionEntity } from './entities/promotion.entity';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+import { Roles } from '../utility/decorators/role-decorator';
+import { RoleTypes } from '../enum/user-enum';
+import { CurrentUser } from '../utility/decorators/current-user-decorator';
+import { UserEntity } from '../user/entities/user.entity';
+import { PromotionQueryDto } from './dto/promotion-query.dto';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+
+@Controller('promotion')
+export class PromotionController {
+  constructor(private readonly promotionService: PromotionService) {}
+
+  /**
+   * Creates a promotion: a percentage or fixed discount on books, genres or authors within a time window.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param promotionDto - An object containing the name, discount type and value, start and optional end date, and the targeted book, genre and author IDs.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the created promotion.
+   *
+   * @throws BadRequestException - If the discount or time window is invalid, or nothing is targeted.
+   * @throws NotFoundException - If a targeted book, genre or author is not found.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async create(
+    @Body() promotionDto: PromotionDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<PromotionEntity> {
+    return await this.promotionService.create(promotionDto, currentUser);
+  }
+
+  /**
+   * Retrieves a page of promotions, latest start first.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param promotionQueryDto - (Optional) `page`, `limit` and `active` query parameters.
+   * @returns A promise that resolves to a page of promotions.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findAll(
+    @Query() promotionQueryDto: PromotionQueryDto,
+  ): Promise<PaginatedResult<PromotionEntity>> {
+    return await this.promotionService.findAll(promotionQueryDto);
+  }
+
+  /**
+   * Retrieves a single promotion by its ID.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the promotion.
+   * @returns A promise that resolves to the promotion.
+   *
+   * @throws NotFoundException - If no promotion is found with the given ID.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findOne(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<PromotionEntity> {
+    return await this.promotionService.findOne(id);
+  }
+
+  /**
+   * Replaces a promotion's discount, time window and targets.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the promotion.
+   * @param promotionDto - An object containing the new name, discount, time window and targets.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the updated promotion.
+   *
+   * @throws NotFoundException - If the promotion, or a targeted book, genre or author, is not found.
+   * @throws BadRequestException - If the discount or time window is invalid, or nothing is targeted.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() promotionDto: PromotionDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<PromotionEntity> {
+    return await this.promotionService.update(id, promotionDto, currentUser);
+  }
+
+  /**
+   * Deletes a promotion.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the promotion.
+   * @returns A promise that resolves to `true` once the promotion is deleted.
+   *
+   * @throws NotFoundException - If no promotion is found with the given ID.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async remove(@Param('id', ParseIntPipe) id: number): Promise<boolean> {
+    return await this.promotionService.remove(id);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import * as dotenv from 'dotenv';
+import { PromotionService } from './promotion.service';
+import { PromotionController } from './promotion.controller';
+import { PromotionEntity } from './entities/promotion.entity';
+import { BookEntity } from '../book/entities/book.entity';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+
+dotenv.config();
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([PromotionEntity, BookEntity]),
+    JwtModule.register({
+      secret: process.env.ACCESS_TOKEN_SECRET_KEY,
+      signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME },
+    }),
+  ],
+  controllers: [PromotionController],
+  providers: [PromotionService, JwtAuthGuard],
+  exports: [PromotionService],
+})
+export class PromotionModule {}
@@ -0,0 +1,294 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { PromotionEntity } from './entities/promotion.entity';
+import { PromotionDto } from './dto/promotion.dto';
+import { PromotionQueryDto } from './dto/promotion-query.dto';
+import { AppliedPrice } from './interfaces/applied-price.interface';
+import { DiscountType } from '../enum/promotion-enum';
+import { BookEntity } from '../book/entities/book.entity';
+import { GenreEntity } from '../genre/entities/genre.entity';
+import { AuthorEntity } from '../author/entities/author.entity';
+import { UserEntity } from '../user/entities/user.entity';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+import { paginate } from '../utility/helpers/paginate';
+import { actorName } from '../utility/helpers/actor';
+
+@Injectable()
+export class PromotionService {
+  constructor(
+    @InjectRepository(PromotionEntity)
+    private promotionEntityRepository: Repository<PromotionEntity>,
+    @InjectRepository(BookEntity)
+    private bookEntityRepository: Repository<BookEntity>,
+  ) {}
+
+  /**
+   * Creates a promotion.
+   *
+   * @param promotionDto - The name, discount, time window and targeted books, genres and authors.
+   * @param currentUser - (Optional) The authenticated user creating the promotion.
+   * @returns A promise that resolves to the created promotion.
+   * @throws BadRequestException - If the discount or time window is invalid, or nothing is targeted.
+   * @throws NotFoundException - If a targeted book, genre or author is not found.
+   */
+  async create(
+    promotionDto: PromotionDto,
+    currentUser?: UserEntity,
+  ): Promise<PromotionEntity> {
+    const promotion = this.promotionEntityRepository.create({
+      createdBy: actorName(currentUser),
+    });
+    await this.applyDto(promotion, promotionDto, currentUser);
+    await this.promotionEntityRepository.save(promotion);
+    return await this.findOne(promotion.id);
+  }
+
+  /**
+   * Retrieves a page of promotions, latest start first.
+   *
+   * @param promotionQueryDto - (Optional) Page, page size, and whether to list only promotions running now.
+   * @returns A promise that resolves to a page of promotions, with the IDs of their targets.
+   */
+  async findAll(
+    promotionQueryDto?: PromotionQueryDto,
+  ): Promise<PaginatedResult<PromotionEntity>> {
+    const query = this.promotionEntityRepository
+      .createQueryBuilder('promotion')
+      .orderBy('promotion.startsAt', 'DESC')
+      .addOrderBy('promotion.id', 'ASC');
+    if (promotionQueryDto?.active === 'true') {
+      query
+        .andWhere('promotion.startsAt <= :now')
+        .andWhere('(promotion.endsAt IS NULL OR promotion.endsAt > :now)')
+        .setParameter('now', Math.floor(Date.now() / 1000));
+    }
+    return await paginate(query, promotionQueryDto);
+  }
+
+  /**
+   * Retrieves a single promotion by its ID.
+   *
+   * @param id - The unique identifier of the promotion.
+   * @returns A promise that resolves to the promotion, with the IDs of its targets.
+   * @throws NotFoundException - If no promotion is found with the given ID.
+   */
+  async findOne(id: number): Promise<PromotionEntity> {
+    const promotion = await this.promotionEntityRepository.findOne({
+      where: { id },
+    });
+
+    if (!promotion) {
+      throw new NotFoundException('Promotion not found');
+    }
+
+    return promotion;
+  }
+
+  /**
+   * Replaces a promotion's discount, time window and targets.
+   *
+   * @param id - The unique identifier of the promotion.
+   * @param promotionDto - The new name, discount, time window and targets.
+   * @param currentUser - (Optional) The authenticated user updating the promotion.
+   * @returns A promise that resolves to the updated promotion.
+   * @throws NotFoundException - If the promotion, or a targeted book, genre or author, is not found.
+   * @throws BadRequestException - If the discount or time window is invalid, or nothing is targeted.
+   */
+  async update(
+    id: number,
+    promotionDto: PromotionDto,
+    currentUser?: UserEntity,
+  ): Promise<PromotionEntity> {
+    const promotion = await this.findOne(id);
+    await this.applyDto(promotion, promotionDto, currentUser);
+    await this.promotionEntityRepository.save(promotion);
+    return await this.findOne(id);
+  }
+
+  /**
+   * Deletes a promotion.
+   *
+   * @param id - The unique identifier of the promotion.
+   * @returns A promise that resolves to `true` once the promotion is deleted.
+   * @throws NotFoundException - If no promotion is found with the given ID.
+   */
+  async remove(id: number): Promise<boolean> {
+    await this.findOne(id);
+    await this.promotionEntityRepository.delete(id);
+    return true;
+  }
+
+  /**
+   * Fills in the `effectivePrice` of books: their list price with the best promotion running now applied.
+   *
+   * @param books - The books to price.
+   * @returns A promise that resolves once the books are priced.
+   */
+  async applyEffectivePrices(books: BookEntity[]): Promise<void> {
+    const prices = await this.resolvePrices(
+      books.map((book) => ({ id: book.id, listPrice: Number(book.price) })),
+      Math.floor(Date.now() / 1000),
+    );
+    for (const book of books) {
+      book.effectivePrice = prices.get(book.id).effectivePrice;
+    }
+  }
+
+  /**
+   * Works out the price of a book at a moment in time.
+   *
+   * When several promotions apply, the one giving the lowest price wins; discounts do not stack.
+   *
+   * @param bookId - The unique identifier of the book.
+   * @param listPrice - The list price of the book at that moment.
+   * @param at - The moment, in epoch seconds.
+   * @returns A promise that resolves to the list price, the effective price and the winning promotion.
+   */
+  async priceAt(
+    bookId: string,
+    listPrice: number,
+    at: number,
+  ): Promise<AppliedPrice> {
+    const prices = await this.resolvePrices([{ id: bookId, listPrice }], at);
+    return prices.get(bookId);
+  }
+
+  /**
+   * Applies the best running promotion to each of a set of list prices.
+   *
+   * @param books - The book IDs and their list prices.
+   * @param at - The moment to price at, in epoch seconds.
+   * @returns A promise that resolves to the applied price of each book, by book ID.
+   */
+  private async resolvePrices(
+    books: { id: string; listPrice: number }[],
+    at: number,
+  ): Promise<Map<string, AppliedPrice>> {
+    const promotions = books.length
+      ? await this.promotionEntityRepository
+          .createQueryBuilder('promotion')
+          .where('promotion.startsAt <= :at', { at })
+          .andWhere('(promotion.endsAt IS NULL OR promotion.endsAt > :at)')
+          .getMany()
+      : [];
+    const credits = promotions.some(
+      (promotion) => promotion.genreIds.length || promotion.authorIds.length,
+    )
+      ? await this.bookEntityRepository.find({
+          where: { id: In(books.map((book) => book.id)) },
+          relations: { authors: true, genres: true },
+          withDeleted: true,
+        })
+      : [];
+
+    const prices = new Map<string, AppliedPrice>();
+    for (const { id, listPrice } of books) {
+      const credited = credits.find((book) => book.id === id);
+      const authorIds = credited?.authors.map((author) => author.id) || [];
+      const genreIds = credited?.genres.map((genre) => genre.id) || [];
+      const applied: AppliedPrice = {
+        listPrice,
+        effectivePrice: listPrice,
+        promotion: null,
+      };
+      for (const promotion of promotions) {
+        const targets =
+          promotion.bookIds.includes(id) ||
+          promotion.genreIds.some((genreId) => genreIds.includes(genreId)) ||
+          promotion.authorIds.some((authorId) => authorIds.includes(authorId));
+        const price = this.discount(promotion, listPrice);
+        if (targets && price < applied.effectivePrice) {
+          applied.effectivePrice = price;
+          applied.promotion = { id: promotion.id, name: promotion.name };
+        }
+      }
+      prices.set(id, applied);
+    }
+    return prices;
+  }
+
+  /**
+   * Applies a promotion's discount to a price, never going below zero.
+   *
+   * @param promotion - The promotion.
+   * @param price - The price before the discount.
+   * @returns The discounted price, rounded to cents.
+   */
+  private discount(promotion: PromotionEntity, price: number): number {
+    const value = Number(promotion.value);
+    const discounted =
+      promotion.discountType === DiscountType.PERCENTAGE
+        ? price * (1 - value / 100)
+        : price - value;
+    return Math.max(0, Number(discounted.toFixed(2)));
+  }
+
+  /**
+   * Validates a promotion DTO and copies it onto a promotion, resolving its targets.
+   *
+   * @param promotion - The promotion to update; it is not saved.
+   * @param promotionDto - The promotion data.
+   * @param currentUser - (Optional) The authenticated user making the change.
+   * @throws BadRequestException - If the discount or time window is invalid, or nothing is targeted.
+   * @throws NotFoundException - If a targeted book, genre or author is not found.
+   */
+  private async applyDto(
+    promotion: PromotionEntity,
+    promotionDto: PromotionDto,
+    currentUser?: UserEntity,
+  ): Promise<void> {
+    const { discountType, value, startsAt, endsAt } = promotionDto;
+    if (
+      value <= 0 ||
+      (discountType === DiscountType.PERCENTAGE && value > 100)
+    ) {
+      throw new BadRequestException(
+        discountType === DiscountType.PERCENTAGE
+          ? 'Percentage must be greater than 0 and at most 100'
+          : 'Discount amount must be greater than 0',
+      );
+    }
+    if (endsAt && endsAt <= startsAt) {
+      throw new BadRequestException('End date must be after the start date');
+    }
+    const bookIds = [...new Set(promotionDto.bookIds || [])];
+    const genreIds = [...new Set(promotionDto.genreIds || [])];
+    const authorIds = [...new Set(promotionDto.authorIds || [])];
+    if (!bookIds.length && !genreIds.length && !authorIds.length) {
+      throw new BadRequestException(
+        'A promotion must target at least one book, genre or author',
+      );
+    }
+
+    const manager = this.promotionEntityRepository.manager;
+    const books = await manager.findBy(BookEntity, { id: In(bookIds) });
+    const genres = await manager.findBy(GenreEntity, { id: In(genreIds) });
+    const authors = await manager.findBy(AuthorEntity, { id: In(authorIds) });
+    if (books.length !== bookIds.length) {
+      throw new NotFoundException('Book not found');
+    }
+    if (genres.length !== genreIds.length) {
+      throw new NotFoundException('Genre not found');
+    }
+    if (authors.length !== authorIds.length) {
+      throw new NotFoundException('Author not found');
+    }
+
+    Object.assign(promotion, {
+      name: promotionDto.name,
+      discountType,
+      value,
+      startsAt: Math.floor(startsAt.getTime() / 1000),
+      endsAt: endsAt ? Math.floor(endsAt.getTime() / 1000) : null,
+      books,
+      genres,
+      authors,
+      updatedBy: actorName(currentUser),
+    });
+  }
+}
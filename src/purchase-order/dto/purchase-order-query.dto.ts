@@ -0,0 +1,19 @@
+import { IsEnum, IsInt, IsOptional, IsUUID } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationQueryDto } from '../../utility/dto/pagination-query.dto';
+import { PurchaseOrderStatus } from '../../enum/purchase-order-enum';
+
+export class PurchaseOrderQueryDto extends PaginationQueryDto {
+  @IsEnum(PurchaseOrderStatus, { message: 'Purchase order status is invalid' })
+  @IsOptional()
+  status?: PurchaseOrderStatus;
+
+  @Type(() => Number)
+  @IsInt({ message: 'Supplier ID must be an integer' })
+  @IsOptional()
+  supplierId?: number;
+
+  @IsUUID('all', { message: 'Book ID is invalid' })
+  @IsOptional()
+  bookId?: string;
+}
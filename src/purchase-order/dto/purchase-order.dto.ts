@@ -0,0 +1,43 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class PurchaseOrderLineDto {
+  @IsUUID('all', { message: 'Book ID is invalid' })
+  @IsNotEmpty({ message: 'Book ID is Required' })
+  bookId: string;
+
+  @IsInt({ message: 'Quantity must be an integer' })
+  @Min(1, { message: 'Quantity must be at least 1' })
+  quantity: number;
+
+  @IsNumber({}, { message: 'Unit cost must be a number' })
+  @Min(0, { message: 'Unit cost cannot be negative' })
+  unitCost: number;
+}
+
+export class PurchaseOrderDto {
+  @IsInt({ message: 'Supplier ID must be an integer' })
+  @IsNotEmpty({ message: 'Supplier ID is Required' })
+  supplierId: number;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @IsArray({ message: 'Lines must be an Array' })
+  @ArrayNotEmpty({ message: 'A purchase order needs at least one line' })
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderLineDto)
+  lines: PurchaseOrderLineDto[];
+}
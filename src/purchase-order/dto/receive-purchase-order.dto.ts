@@ -0,0 +1,34 @@
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ReceivePurchaseOrderLineDto {
+  @IsUUID('all', { message: 'Line ID is invalid' })
+  @IsNotEmpty({ message: 'Line ID is Required' })
+  lineId: string;
+
+  @IsInt({ message: 'Quantity must be an integer' })
+  @Min(1, { message: 'Quantity must be at least 1' })
+  quantity: number;
+}
+
+export class ReceivePurchaseOrderDto {
+  /** Lines received in this delivery; every outstanding copy is received when omitted. */
+  @IsArray({ message: 'Lines must be an Array' })
+  @ValidateNested({ each: true })
+  @Type(() => ReceivePurchaseOrderLineDto)
+  @IsOptional()
+  lines?: ReceivePurchaseOrderLineDto[];
+
+  /** Location the delivery is received into; the default location when omitted. */
+  @IsInt({ message: 'Location ID must be an integer' })
+  @IsOptional()
+  locationId?: number;
+}
@@ -0,0 +1,42 @@
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { BookEntity } from '../../book/entities/book.entity';
+import { PurchaseOrderEntity } from './purchase-order.entity';
+
+@Entity('PurchaseOrderLines')
+@Unique(['purchaseOrderId', 'bookId'])
+export class PurchaseOrderLineEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  purchaseOrderId: string;
+
+  @ManyToOne(() => PurchaseOrderEntity, (order) => order.lines, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'purchaseOrderId' })
+  purchaseOrder: PurchaseOrderEntity;
+
+  @Column({ nullable: true })
+  bookId: string;
+
+  @ManyToOne(() => BookEntity, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'bookId' })
+  book: BookEntity;
+
+  @Column('int')
+  quantityOrdered: number;
+
+  @Column('int', { default: 0 })
+  quantityReceived: number;
+
+  @Column('decimal')
+  unitCost: number;
+}
@@ -0,0 +1,67 @@
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { PurchaseOrderStatus } from '../../enum/purchase-order-enum';
+import { SupplierEntity } from '../../supplier/entities/supplier.entity';
+import { PurchaseOrderLineEntity } from './purchase-order-line.entity';
+
+@Entity('PurchaseOrders')
+export class PurchaseOrderEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  supplierId: number;
+
+  @ManyToOne(() => SupplierEntity, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'supplierId' })
+  supplier: SupplierEntity;
+
+  @Column({
+    type: 'enum',
+    enum: PurchaseOrderStatus,
+    default: PurchaseOrderStatus.DRAFT,
+  })
+  status: PurchaseOrderStatus;
+
+  @Column('text', { nullable: true })
+  notes: string;
+
+  @OneToMany(() => PurchaseOrderLineEntity, (line) => line.purchaseOrder, {
+    cascade: true,
+  })
+  lines: PurchaseOrderLineEntity[];
+
+  @Column({ type: 'bigint', nullable: true })
+  sentAt: number;
+
+  @Column({ type: 'bigint', nullable: true })
+  receivedAt: number;
+
+  @Column({ type: 'bigint', nullable: true })
+  cancelledAt: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  createdAt: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+    onUpdate: 'extract(epoch from now())::bigint',
+  })
+  updatedAt: number;
+
+  @Column()
+  createdBy: string;
+
+  @Column()
+  updatedBy: string;
+}
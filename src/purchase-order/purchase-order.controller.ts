@@ -0,0 +1,164 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { PurchaseOrderService } from './purchase-order.service';
+import { PurchaseOrderDto } from './dto/purchase-order.dto';
+import { PurchaseOrderQueryDto } from './dto/purchase-order-query.dto';
+import { ReceivePurchaseOrderDto } from './dto/receive-purchase-order.dto';
+import { PurchaseOrderEntity } from './entities/purchase-order.entity';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+import { Roles } from '../utility/decorators/role-decorator';
+import { RoleTypes } from '../enum/user-enum';
+import { CurrentUser } from '../utility/decorators/current-user-decorator';
+import { UserEntity } from '../user/entities/user.entity';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+
+@Controller('purchase-order')
+export class PurchaseOrderController {
+  constructor(private readonly purchaseOrderService: PurchaseOrderService) {}
+
+  /**
+   * Creates a draft purchase order.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param purchaseOrderDto - An object containing the supplier ID, optional notes and the order lines (book ID, quantity and unit cost).
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the created purchase order.
+   *
+   * @throws NotFoundException - If the supplier or one of the books is not found.
+   * @throws BadRequestException - If a book appears on more than one line.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async create(
+    @Body() purchaseOrderDto: PurchaseOrderDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<PurchaseOrderEntity> {
+    return await this.purchaseOrderService.create(
+      purchaseOrderDto,
+      currentUser,
+    );
+  }
+
+  /**
+   * Retrieves a page of purchase orders, most recent first.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param purchaseOrderQueryDto - (Optional) `page`, `limit`, `status`, `supplierId` and `bookId` query parameters.
+   * @returns A promise that resolves to a page of purchase orders.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findAll(
+    @Query() purchaseOrderQueryDto: PurchaseOrderQueryDto,
+  ): Promise<PaginatedResult<PurchaseOrderEntity>> {
+    return await this.purchaseOrderService.findAll(purchaseOrderQueryDto);
+  }
+
+  /**
+   * Retrieves a single purchase order by its ID.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the purchase order.
+   * @returns A promise that resolves to the purchase order, with its supplier and lines.
+   *
+   * @throws NotFoundException - If no purchase order is found with the given ID.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findOne(@Param('id') id: string): Promise<PurchaseOrderEntity> {
+    return await this.purchaseOrderService.findOne(id);
+  }
+
+  /**
+   * Marks a draft purchase order as sent to the supplier.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the purchase order.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the sent purchase order.
+   *
+   * @throws NotFoundException - If no purchase order is found with the given ID.
+   * @throws BadRequestException - If the purchase order is not a draft.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Patch(':id/send')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async send(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<PurchaseOrderEntity> {
+    return await this.purchaseOrderService.send(id, currentUser);
+  }
+
+  /**
+   * Receives a full or partial delivery against a purchase order, adding the copies to stock.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the purchase order.
+   * @param receivePurchaseOrderDto - An object containing the received quantity per line (all outstanding copies when omitted) and an optional location ID.
+   * @param currentUser - The currently authenticated user, recorded as the actor of the stock receipts.
+   * @returns A promise that resolves to the updated purchase order.
+   *
+   * @throws NotFoundException - If no purchase order, line or location is found with the given ID.
+   * @throws BadRequestException - If the order has not been sent, is already complete or cancelled, or a line would receive more than was ordered.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post(':id/receive')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async receive(
+    @Param('id') id: string,
+    @Body() receivePurchaseOrderDto: ReceivePurchaseOrderDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<PurchaseOrderEntity> {
+    return await this.purchaseOrderService.receive(
+      id,
+      receivePurchaseOrderDto,
+      currentUser,
+    );
+  }
+
+  /**
+   * Cancels a purchase order. Copies already received stay in stock.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the purchase order.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the cancelled purchase order.
+   *
+   * @throws NotFoundException - If no purchase order is found with the given ID.
+   * @throws BadRequestException - If the purchase order is already received or cancelled.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Patch(':id/cancel')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async cancel(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<PurchaseOrderEntity> {
+    return await this.purchaseOrderService.cancel(id, currentUser);
+  }
+}
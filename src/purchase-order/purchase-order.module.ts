@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import * as dotenv from 'dotenv';
+import { PurchaseOrderService } from './purchase-order.service';
+import { PurchaseOrderController } from './purchase-order.controller';
+import { PurchaseOrderEntity } from './entities/purchase-order.entity';
+import { PurchaseOrderLineEntity } from './entities/purchase-order-line.entity';
+import { BookModule } from '../book/book.module';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+
+dotenv.config();
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([PurchaseOrderEntity, PurchaseOrderLineEntity]),
+    BookModule,
+    JwtModule.register({
+      secret: process.env.ACCESS_TOKEN_SECRET_KEY,
+      signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME },
+    }),
+  ],
+  controllers: [PurchaseOrderController],
+  providers: [PurchaseOrderService, JwtAuthGuard],
+})
+export class PurchaseOrderModule {}
@@ -0,0 +1,171 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { PurchaseOrderService } from './purchase-order.service';
+import { PurchaseOrderEntity } from './entities/purchase-order.entity';
+import { PurchaseOrderLineEntity } from './entities/purchase-order-line.entity';
+import { PurchaseOrderStatus } from '../enum/purchase-order-enum';
+import { StockMovementType } from '../enum/book-enum';
+import { BookService } from '../book/book.service';
+import { UserEntity } from '../user/entities/user.entity';
+
+describe('PurchaseOrderService', () => {
+  const currentUser = Object.assign(new UserEntity(), {
+    id: 3,
+    email: 'buyer@example.com',
+  });
+  let purchaseOrder: PurchaseOrderEntity;
+  let lines: PurchaseOrderLineEntity[];
+  let manager: { findOne: jest.Mock; find: jest.Mock; save: jest.Mock };
+  let bookService: { recordStockMovement: jest.Mock };
+  let service: PurchaseOrderService;
+
+  beforeEach(() => {
+    purchaseOrder = Object.assign(new PurchaseOrderEntity(), {
+      id: 'po-1',
+      status: PurchaseOrderStatus.SENT,
+    });
+    lines = [
+      Object.assign(new PurchaseOrderLineEntity(), {
+        id: 'line-1',
+        bookId: 'book-1',
+        quantityOrdered: 5,
+        quantityReceived: 0,
+      }),
+      Object.assign(new PurchaseOrderLineEntity(), {
+        id: 'line-2',
+        bookId: 'book-2',
+        quantityOrdered: 2,
+        quantityReceived: 1,
+      }),
+    ];
+    manager = {
+      findOne: jest.fn(async () => purchaseOrder),
+      find: jest.fn(async () => lines),
+      save: jest.fn(async (entity) => entity),
+    };
+    bookService = { recordStockMovement: jest.fn() };
+    service = new PurchaseOrderService(
+      {
+        manager: { transaction: async (work) => await work(manager) },
+      } as unknown as Repository<PurchaseOrderEntity>,
+      bookService as unknown as BookService,
+    );
+  });
+
+  describe('receive', () => {
+    it('receives every outstanding copy into stock when no lines are given', async () => {
+      const received = await service.receive(
+        purchaseOrder.id,
+        { locationId: 2 },
+        currentUser,
+      );
+
+      expect(bookService.recordStockMovement).toHaveBeenCalledTimes(2);
+      expect(bookService.recordStockMovement).toHaveBeenCalledWith(
+        'book-1',
+        {
+          type: StockMovementType.RECEIPT,
+          quantity: 5,
+          reason: 'Purchase order po-1',
+          locationId: 2,
+        },
+        currentUser,
+        manager,
+      );
+      expect(bookService.recordStockMovement).toHaveBeenCalledWith(
+        'book-2',
+        expect.objectContaining({ quantity: 1 }),
+        currentUser,
+        manager,
+      );
+      expect(lines.map((line) => line.quantityReceived)).toEqual([5, 2]);
+      expect(received).toMatchObject({
+        status: PurchaseOrderStatus.RECEIVED,
+        receivedAt: expect.any(Number),
+        updatedBy: currentUser.email,
+      });
+    });
+
+    it('stays partially received until every line is complete', async () => {
+      await service.receive(purchaseOrder.id, {
+        lines: [{ lineId: 'line-1', quantity: 3 }],
+      });
+
+      expect(purchaseOrder.status).toBe(PurchaseOrderStatus.PARTIALLY_RECEIVED);
+      expect(purchaseOrder.receivedAt).toBeUndefined();
+      expect(lines[0].quantityReceived).toBe(3);
+
+      await service.receive(purchaseOrder.id, {});
+
+      expect(bookService.recordStockMovement).toHaveBeenLastCalledWith(
+        'book-2',
+        expect.objectContaining({ quantity: 1 }),
+        undefined,
+        manager,
+      );
+      expect(bookService.recordStockMovement).toHaveBeenCalledWith(
+        'book-1',
+        expect.objectContaining({ quantity: 2 }),
+        undefined,
+        manager,
+      );
+      expect(purchaseOrder.status).toBe(PurchaseOrderStatus.RECEIVED);
+    });
+
+    it('refuses to receive more copies than are outstanding', async () => {
+      await expect(
+        service.receive(purchaseOrder.id, {
+          lines: [{ lineId: 'line-2', quantity: 2 }],
+        }),
+      ).rejects.toThrow(
+        new BadRequestException('Only 1 copies are outstanding on line line-2'),
+      );
+      expect(bookService.recordStockMovement).not.toHaveBeenCalled();
+    });
+
+    it('throws if a line is not on the purchase order', async () => {
+      await expect(
+        service.receive(purchaseOrder.id, {
+          lines: [{ lineId: 'line-9', quantity: 1 }],
+        }),
+      ).rejects.toThrow(new NotFoundException('Purchase order line not found'));
+    });
+
+    it('refuses a line whose book has been purged', async () => {
+      lines[0].bookId = null;
+
+      await expect(
+        service.receive(purchaseOrder.id, {
+          lines: [{ lineId: 'line-1', quantity: 1 }],
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'The book on line line-1 has been deleted permanently',
+        ),
+      );
+    });
+
+    it.each([
+      PurchaseOrderStatus.DRAFT,
+      PurchaseOrderStatus.RECEIVED,
+      PurchaseOrderStatus.CANCELLED,
+    ])('refuses to receive a purchase order that is %s', async (status) => {
+      purchaseOrder.status = status;
+
+      await expect(service.receive(purchaseOrder.id, {})).rejects.toThrow(
+        new BadRequestException(
+          `A purchase order that is ${status.toLowerCase()} cannot be received`,
+        ),
+      );
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('throws if the purchase order does not exist', async () => {
+      manager.findOne.mockResolvedValue(null);
+
+      await expect(service.receive('missing', {})).rejects.toThrow(
+        new NotFoundException('Purchase order not found'),
+      );
+    });
+  });
+});
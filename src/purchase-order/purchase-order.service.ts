@@ -0,0 +1,370 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { PurchaseOrderEntity } from './entities/purchase-order.entity';
+import { PurchaseOrderLineEntity } from './entities/purchase-order-line.entity';
+import { PurchaseOrderDto } from './dto/purchase-order.dto';
+import { PurchaseOrderQueryDto } from './dto/purchase-order-query.dto';
+import { ReceivePurchaseOrderDto } from './dto/receive-purchase-order.dto';
+import { PurchaseOrderStatus } from '../enum/purchase-order-enum';
+import { StockMovementType } from '../enum/book-enum';
+import { SupplierEntity } from '../supplier/entities/supplier.entity';
+import { BookService } from '../book/book.service';
+import { UserEntity } from '../user/entities/user.entity';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+import { paginate } from '../utility/helpers/paginate';
+import { actorName } from '../utility/helpers/actor';
+
+/** Statuses each purchase order status may move to. */
+const TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  [PurchaseOrderStatus.DRAFT]: [
+    PurchaseOrderStatus.SENT,
+    PurchaseOrderStatus.CANCELLED,
+  ],
+  [PurchaseOrderStatus.SENT]: [
+    PurchaseOrderStatus.PARTIALLY_RECEIVED,
+    PurchaseOrderStatus.RECEIVED,
+    PurchaseOrderStatus.CANCELLED,
+  ],
+  [PurchaseOrderStatus.PARTIALLY_RECEIVED]: [
+    PurchaseOrderStatus.PARTIALLY_RECEIVED,
+    PurchaseOrderStatus.RECEIVED,
+    PurchaseOrderStatus.CANCELLED,
+  ],
+  [PurchaseOrderStatus.RECEIVED]: [],
+  [PurchaseOrderStatus.CANCELLED]: [],
+};
+
+@Injectable()
+export class PurchaseOrderService {
+  constructor(
+    @InjectRepository(PurchaseOrderEntity)
+    private purchaseOrderEntityRepository: Repository<PurchaseOrderEntity>,
+    private readonly bookService: BookService,
+  ) {}
+
+  /**
+   * Creates a draft purchase order.
+   *
+   * @param purchaseOrderDto - The supplier, optional notes and the ordered books with quantities and unit costs.
+   * @param currentUser - (Optional) The authenticated user creating the purchase order.
+   * @returns A promise that resolves to the created purchase order, with its lines.
+   * @throws NotFoundException - If the supplier or one of the books is not found.
+   * @throws BadRequestException - If a book appears on more than one line.
+   */
+  async create(
+    purchaseOrderDto: PurchaseOrderDto,
+    currentUser?: UserEntity,
+  ): Promise<PurchaseOrderEntity> {
+    const { supplierId, notes, lines } = purchaseOrderDto;
+    const supplier = await this.purchaseOrderEntityRepository.manager.findOne(
+      SupplierEntity,
+      { where: { id: supplierId } },
+    );
+    if (!supplier) {
+      throw new NotFoundException('Supplier not found');
+    }
+    const bookIds = lines.map((line) => line.bookId);
+    if (new Set(bookIds).size !== bookIds.length) {
+      throw new BadRequestException(
+        'Each book can only appear once on a purchase order',
+      );
+    }
+    for (const bookId of bookIds) {
+      await this.bookService.findOne(bookId);
+    }
+
+    const purchaseOrder = this.purchaseOrderEntityRepository.create({
+      supplierId,
+      notes,
+      status: PurchaseOrderStatus.DRAFT,
+      lines: lines.map((line) => ({
+        bookId: line.bookId,
+        quantityOrdered: line.quantity,
+        quantityReceived: 0,
+        unitCost: line.unitCost,
+      })),
+      createdBy: actorName(currentUser),
+      updatedBy: actorName(currentUser),
+    });
+    return await this.purchaseOrderEntityRepository.save(purchaseOrder);
+  }
+
+  /**
+   * Retrieves a page of purchase orders, most recent first.
+   *
+   * @param purchaseOrderQueryDto - (Optional) Page, page size, and filters by status, supplier and ordered book.
+   * @returns A promise that resolves to a page of purchase orders, with their suppliers and lines.
+   */
+  async findAll(
+    purchaseOrderQueryDto?: PurchaseOrderQueryDto,
+  ): Promise<PaginatedResult<PurchaseOrderEntity>> {
+    const query = this.purchaseOrderEntityRepository
+      .createQueryBuilder('purchaseOrder')
+      .leftJoinAndSelect('purchaseOrder.supplier', 'supplier')
+      .leftJoinAndSelect('purchaseOrder.lines', 'line')
+      .orderBy('purchaseOrder.createdAt', 'DESC')
+      .addOrderBy('purchaseOrder.id', 'ASC');
+    if (purchaseOrderQueryDto?.status) {
+      query.andWhere('purchaseOrder.status = :status', {
+        status: purchaseOrderQueryDto.status,
+      });
+    }
+    if (purchaseOrderQueryDto?.supplierId) {
+      query.andWhere('purchaseOrder.supplierId = :supplierId', {
+        supplierId: purchaseOrderQueryDto.supplierId,
+      });
+    }
+    if (purchaseOrderQueryDto?.bookId) {
+      query.andWhere(
+        `EXISTS (${query
+          .subQuery()
+          .select('1')
+          .from(PurchaseOrderLineEntity, 'orderedLine')
+          .where('orderedLine.purchaseOrderId = purchaseOrder.id')
+          .andWhere('orderedLine.bookId = :bookId')
+          .getQuery()})`,
+        { bookId: purchaseOrderQueryDto.bookId },
+      );
+    }
+    return await paginate(query, purchaseOrderQueryDto);
+  }
+
+  /**
+   * Retrieves a single purchase order by its ID.
+   *
+   * @param id - The unique identifier of the purchase order.
+   * @returns A promise that resolves to the purchase order, with its supplier and lines.
+   * @throws NotFoundException - If no purchase order is found with the given ID.
+   */
+  async findOne(id: string): Promise<PurchaseOrderEntity> {
+    const purchaseOrder = await this.purchaseOrderEntityRepository.findOne({
+      where: { id },
+      relations: { supplier: true, lines: true },
+    });
+
+    if (!purchaseOrder) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    return purchaseOrder;
+  }
+
+  /**
+   * Marks a draft purchase order as sent to the supplier.
+   *
+   * @param id - The unique identifier of the purchase order.
+   * @param currentUser - (Optional) The authenticated user sending the purchase order.
+   * @returns A promise that resolves to the sent purchase order.
+   * @throws NotFoundException - If no purchase order is found with the given ID.
+   * @throws BadRequestException - If the purchase order is not a draft.
+   */
+  async send(
+    id: string,
+    currentUser?: UserEntity,
+  ): Promise<PurchaseOrderEntity> {
+    return await this.purchaseOrderEntityRepository.manager.transaction(
+      async (manager) => {
+        const purchaseOrder = await this.findOneForUpdate(manager, id);
+        this.transition(purchaseOrder, PurchaseOrderStatus.SENT, currentUser);
+        purchaseOrder.sentAt = Math.floor(Date.now() / 1000);
+        await manager.save(purchaseOrder);
+        return await this.reload(manager, id);
+      },
+    );
+  }
+
+  /**
+   * Cancels a purchase order. Copies already received stay in stock.
+   *
+   * @param id - The unique identifier of the purchase order.
+   * @param currentUser - (Optional) The authenticated user cancelling the purchase order.
+   * @returns A promise that resolves to the cancelled purchase order.
+   * @throws NotFoundException - If no purchase order is found with the given ID.
+   * @throws BadRequestException - If the purchase order is already received or cancelled.
+   */
+  async cancel(
+    id: string,
+    currentUser?: UserEntity,
+  ): Promise<PurchaseOrderEntity> {
+    return await this.purchaseOrderEntityRepository.manager.transaction(
+      async (manager) => {
+        const purchaseOrder = await this.findOneForUpdate(manager, id);
+        this.transition(
+          purchaseOrder,
+          PurchaseOrderStatus.CANCELLED,
+          currentUser,
+        );
+        purchaseOrder.cancelledAt = Math.floor(Date.now() / 1000);
+        await manager.save(purchaseOrder);
+        return await this.reload(manager, id);
+      },
+    );
+  }
+
+  /**
+   * Receives a delivery against a sent purchase order.
+   *
+   * Each received quantity is recorded as a receipt in the stock ledger, which increases the book's
+   * quantity and puts it back in stock. The order becomes partially received, or received once every
+   * line is complete. Without lines, every outstanding copy is received.
+   *
+   * @param id - The unique identifier of the purchase order.
+   * @param receivePurchaseOrderDto - The received quantity per line, and the location receiving the delivery.
+   * @param currentUser - (Optional) The authenticated user receiving the delivery.
+   * @returns A promise that resolves to the updated purchase order.
+   * @throws NotFoundException - If no purchase order, line or location is found with the given ID.
+   * @throws BadRequestException - If the order is not sent or partially received, or a line would receive more than was ordered.
+   */
+  async receive(
+    id: string,
+    receivePurchaseOrderDto: ReceivePurchaseOrderDto,
+    currentUser?: UserEntity,
+  ): Promise<PurchaseOrderEntity> {
+    return await this.purchaseOrderEntityRepository.manager.transaction(
+      async (manager) => {
+        const purchaseOrder = await this.findOneForUpdate(manager, id);
+        if (
+          purchaseOrder.status !== PurchaseOrderStatus.SENT &&
+          purchaseOrder.status !== PurchaseOrderStatus.PARTIALLY_RECEIVED
+        ) {
+          throw new BadRequestException(
+            `A purchase order that is ${purchaseOrder.status.toLowerCase()} cannot be received`,
+          );
+        }
+
+        const lines = await manager.find(PurchaseOrderLineEntity, {
+          where: { purchaseOrderId: id },
+        });
+        const deliveries =
+          receivePurchaseOrderDto.lines ||
+          lines
+            .filter((line) => line.quantityReceived < line.quantityOrdered)
+            .map((line) => ({
+              lineId: line.id,
+              quantity: line.quantityOrdered - line.quantityReceived,
+            }));
+        if (!deliveries.length) {
+          throw new BadRequestException('Nothing to receive');
+        }
+
+        for (const delivery of deliveries) {
+          const line = lines.find(
+            (candidate) => candidate.id === delivery.lineId,
+          );
+          if (!line) {
+            throw new NotFoundException('Purchase order line not found');
+          }
+          if (!line.bookId) {
+            throw new BadRequestException(
+              `The book on line ${line.id} has been deleted permanently`,
+            );
+          }
+          const outstanding = line.quantityOrdered - line.quantityReceived;
+          if (delivery.quantity > outstanding) {
+            throw new BadRequestException(
+              `Only ${outstanding} copies are outstanding on line ${line.id}`,
+            );
+          }
+
+          await this.bookService.recordStockMovement(
+            line.bookId,
+            {
+              type: StockMovementType.RECEIPT,
+              quantity: delivery.quantity,
+              reason: `Purchase order ${purchaseOrder.id}`,
+              locationId: receivePurchaseOrderDto.locationId,
+            },
+            currentUser,
+            manager,
+          );
+          line.quantityReceived += delivery.quantity;
+          await manager.save(line);
+        }
+
+        const complete = lines.every(
+          (line) => line.quantityReceived >= line.quantityOrdered,
+        );
+        this.transition(
+          purchaseOrder,
+          complete
+            ? PurchaseOrderStatus.RECEIVED
+            : PurchaseOrderStatus.PARTIALLY_RECEIVED,
+          currentUser,
+        );
+        if (complete) {
+          purchaseOrder.receivedAt = Math.floor(Date.now() / 1000);
+        }
+        await manager.save(purchaseOrder);
+        return await this.reload(manager, id);
+      },
+    );
+  }
+
+  /**
+   * Moves a purchase order to a new status, if its current status allows it.
+   *
+   * @param purchaseOrder - The purchase order, locked for update; it is not saved.
+   * @param status - The new status.
+   * @param currentUser - (Optional) The authenticated user making the change.
+   * @throws BadRequestException - If the transition is not allowed.
+   */
+  private transition(
+    purchaseOrder: PurchaseOrderEntity,
+    status: PurchaseOrderStatus,
+    currentUser?: UserEntity,
+  ): void {
+    if (!TRANSITIONS[purchaseOrder.status].includes(status)) {
+      throw new BadRequestException(
+        `A purchase order cannot go from ${purchaseOrder.status.toLowerCase()} to ${status.toLowerCase()}`,
+      );
+    }
+    purchaseOrder.status = status;
+    purchaseOrder.updatedBy = actorName(currentUser);
+  }
+
+  /**
+   * Retrieves a purchase order by its ID and locks its row until the enclosing transaction ends.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param id - The unique identifier of the purchase order.
+   * @returns A promise that resolves to the locked purchase order, without relations.
+   * @throws NotFoundException - If no purchase order is found with the given ID.
+   */
+  private async findOneForUpdate(
+    manager: EntityManager,
+    id: string,
+  ): Promise<PurchaseOrderEntity> {
+    const purchaseOrder = await manager.findOne(PurchaseOrderEntity, {
+      where: { id },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (!purchaseOrder) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    return purchaseOrder;
+  }
+
+  /**
+   * Reloads a purchase order with its supplier and lines inside a transaction.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param id - The unique identifier of the purchase order.
+   * @returns A promise that resolves to the purchase order.
+   */
+  private async reload(
+    manager: EntityManager,
+    id: string,
+  ): Promise<PurchaseOrderEntity> {
+    return await manager.findOne(PurchaseOrderEntity, {
+      where: { id },
+      relations: { supplier: true, lines: true },
+    });
+  }
+}
@@ -0,0 +1,17 @@
+import { IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator';
+
+export class GenreReorderDefaultDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Genre is Required' })
+  genre: string;
+
+  @IsInt({ message: 'Reorder point must be an integer' })
+  @Min(0, { message: 'Reorder point cannot be negative' })
+  @IsNotEmpty({ message: 'Reorder point is Required' })
+  reorderPoint: number;
+
+  @IsInt({ message: 'Reorder quantity must be an integer' })
+  @Min(1, { message: 'Reorder quantity must be at least 1' })
+  @IsOptional()
+  reorderQuantity?: number;
+}
@@ -0,0 +1,8 @@
+import { IsBooleanString, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from '../../utility/dto/pagination-query.dto';
+
+export class LowStockAlertQueryDto extends PaginationQueryDto {
+  @IsBooleanString({ message: 'Acknowledged must be true or false' })
+  @IsOptional()
+  acknowledged?: string;
+}
@@ -0,0 +1,26 @@
+import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity('GenreReorderDefaults')
+export class GenreReorderDefaultEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ unique: true })
+  genre: string;
+
+  @Column('int')
+  reorderPoint: number;
+
+  @Column('int', { nullable: true })
+  reorderQuantity: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+    onUpdate: 'extract(epoch from now())::bigint',
+  })
+  updatedAt: number;
+
+  @Column()
+  updatedBy: string;
+}
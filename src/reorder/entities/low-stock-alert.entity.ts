@@ -0,0 +1,39 @@
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { BookEntity } from '../../book/entities/book.entity';
+
+@Entity('LowStockAlerts')
+export class LowStockAlertEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  bookId: string;
+
+  @ManyToOne(() => BookEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'bookId' })
+  book: BookEntity;
+
+  @Column('int')
+  quantity: number;
+
+  @Column('int')
+  reorderPoint: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  createdAt: number;
+
+  @Column({ type: 'bigint', nullable: true })
+  acknowledgedAt: number;
+
+  @Column({ nullable: true })
+  acknowledgedBy: string;
+}
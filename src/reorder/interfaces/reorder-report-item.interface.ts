@@ -0,0 +1,8 @@
+import { BookEntity } from '../../book/entities/book.entity';
+
+export interface ReorderReportItem {
+  book: BookEntity;
+  reorderPoint: number;
+  reorderQuantity: number | null;
+  suggestedOrderQuantity: number;
+}
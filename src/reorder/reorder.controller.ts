@@ -0,0 +1,144 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ReorderService } from './reorder.service';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+import { Roles } from '../utility/decorators/role-decorator';
+import { RoleTypes } from '../enum/user-enum';
+import { CurrentUser } from '../utility/decorators/current-user-decorator';
+import { UserEntity } from '../user/entities/user.entity';
+import { ReorderReportItem } from './interfaces/reorder-report-item.interface';
+import { LowStockAlertEntity } from './entities/low-stock-alert.entity';
+import { LowStockAlertQueryDto } from './dto/low-stock-alert-query.dto';
+import { GenreReorderDefaultEntity } from './entities/genre-reorder-default.entity';
+import { GenreReorderDefaultDto } from './dto/genre-reorder-default.dto';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+
+@Controller('reorder')
+export class ReorderController {
+  constructor(private readonly reorderService: ReorderService) {}
+
+  /**
+   * Lists every book at or below its reorder point, with a suggested order quantity.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @returns A promise that resolves to the reorder report, largest shortfall first.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('report')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async getReorderReport(): Promise<ReorderReportItem[]> {
+    return await this.reorderService.getReorderReport();
+  }
+
+  /**
+   * Retrieves low-stock alerts, most recent first.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param lowStockAlertQueryDto - (Optional) `page`, `limit` and `acknowledged` query parameters.
+   * @returns A promise that resolves to a page of low-stock alerts.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('alerts')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findAlerts(
+    @Query() lowStockAlertQueryDto: LowStockAlertQueryDto,
+  ): Promise<PaginatedResult<LowStockAlertEntity>> {
+    return await this.reorderService.findAlerts(lowStockAlertQueryDto);
+  }
+
+  /**
+   * Acknowledges a low-stock alert.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the alert.
+   * @param currentUser - The currently authenticated user, recorded as the one who acknowledged the alert.
+   * @returns A promise that resolves to the acknowledged alert.
+   *
+   * @throws NotFoundException - If no alert is found with the given ID.
+   * @throws BadRequestException - If the alert has already been acknowledged.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Patch('alerts/:id/acknowledge')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async acknowledgeAlert(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<LowStockAlertEntity> {
+    return await this.reorderService.acknowledgeAlert(id, currentUser);
+  }
+
+  /**
+   * Retrieves the reorder defaults of every genre that has one.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @returns A promise that resolves to an array of genre reorder defaults.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('genre-defaults')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findGenreDefaults(): Promise<GenreReorderDefaultEntity[]> {
+    return await this.reorderService.findGenreDefaults();
+  }
+
+  /**
+   * Creates or replaces the reorder default of a genre.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   * The default applies to every book of the genre that has no reorder point of its own.
+   *
+   * @param genreReorderDefaultDto - An object containing the genre, its reorder point and optional reorder quantity.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the saved genre reorder default.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Put('genre-defaults')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async setGenreDefault(
+    @Body() genreReorderDefaultDto: GenreReorderDefaultDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<GenreReorderDefaultEntity> {
+    return await this.reorderService.setGenreDefault(
+      genreReorderDefaultDto,
+      currentUser,
+    );
+  }
+
+  /**
+   * Deletes the reorder default of a genre.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param genre - The genre whose default should be removed.
+   * @returns A promise that resolves to `true` if a default was deleted, otherwise `false`.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Delete('genre-defaults/:genre')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async removeGenreDefault(@Param('genre') genre: string): Promise<boolean> {
+    return await this.reorderService.removeGenreDefault(genre);
+  }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import * as dotenv from 'dotenv';
+import { ReorderService } from './reorder.service';
+import { ReorderController } from './reorder.controller';
+import { BookEntity } from '../book/entities/book.entity';
+import { GenreReorderDefaultEntity } from './entities/genre-reorder-default.entity';
+import { LowStockAlertEntity } from './entities/low-stock-alert.entity';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+
+dotenv.config();
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      BookEntity,
+      GenreReorderDefaultEntity,
+      LowStockAlertEntity,
+    ]),
+    JwtModule.register({
+      secret: process.env.ACCESS_TOKEN_SECRET_KEY,
+      signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME },
+    }),
+  ],
+  controllers: [ReorderController],
+  providers: [ReorderService, JwtAuthGuard],
+  exports: [ReorderService],
+})
+export class ReorderModule {}
@@ -0,0 +1,225 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, IsNull, Repository } from 'typeorm';
+import { BookEntity } from '../book/entities/book.entity';
+import { GenreReorderDefaultEntity } from './entities/genre-reorder-default.entity';
+import { LowStockAlertEntity } from './entities/low-stock-alert.entity';
+import { GenreReorderDefaultDto } from './dto/genre-reorder-default.dto';
+import { LowStockAlertQueryDto } from './dto/low-stock-alert-query.dto';
+import { ReorderReportItem } from './interfaces/reorder-report-item.interface';
+import { UserEntity } from '../user/entities/user.entity';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+import { paginate } from '../utility/helpers/paginate';
+
+@Injectable()
+export class ReorderService {
+  constructor(
+    @InjectRepository(BookEntity)
+    private bookEntityRepository: Repository<BookEntity>,
+    @InjectRepository(GenreReorderDefaultEntity)
+    private genreReorderDefaultRepository: Repository<GenreReorderDefaultEntity>,
+    @InjectRepository(LowStockAlertEntity)
+    private lowStockAlertRepository: Repository<LowStockAlertEntity>,
+  ) {}
+
+  /**
+   * Lists every book whose quantity is at or below its reorder point, with a suggested order quantity.
+   *
+   * A book's own reorder point and quantity take precedence over the default for its genre.
+   * The suggested order quantity is the reorder quantity, raised if needed so the stock ends up above the reorder point.
+   * Books with the largest shortfall come first.
+   *
+   * @returns A promise that resolves to the reorder report.
+   */
+  async getReorderReport(): Promise<ReorderReportItem[]> {
+    const { entities, raw } = await this.bookEntityRepository
+      .createQueryBuilder('book')
+      .leftJoin(
+        GenreReorderDefaultEntity,
+        'genreDefault',
+        'genreDefault.genre = book.genre',
+      )
+      .addSelect(
+        'COALESCE(book.reorderPoint, genreDefault.reorderPoint)',
+        'effectiveReorderPoint',
+      )
+      .addSelect(
+        'COALESCE(book.reorderQuantity, genreDefault.reorderQuantity)',
+        'effectiveReorderQuantity',
+      )
+      .where(
+        'book.quantity <= COALESCE(book.reorderPoint, genreDefault.reorderPoint)',
+      )
+      .orderBy(
+        'book.quantity - COALESCE(book.reorderPoint, genreDefault.reorderPoint)',
+        'ASC',
+      )
+      .addOrderBy('book.title', 'ASC')
+      .getRawAndEntities();
+
+    return entities.map((book, index) => {
+      const reorderPoint = Number(raw[index].effectiveReorderPoint);
+      const reorderQuantity =
+        raw[index].effectiveReorderQuantity === null
+          ? null
+          : Number(raw[index].effectiveReorderQuantity);
+      return {
+        book,
+        reorderPoint,
+        reorderQuantity,
+        suggestedOrderQuantity: Math.max(
+          reorderQuantity ?? 0,
+          reorderPoint - book.quantity + 1,
+        ),
+      };
+    });
+  }
+
+  /**
+   * Records a low-stock alert when a stock change takes a book from above its reorder point to at or below it.
+   *
+   * No new alert is recorded while the book still has an unacknowledged one.
+   * Intended to be called from inside the transaction that changed the quantity.
+   *
+   * @param manager - The entity manager of the enclosing transaction.
+   * @param book - The book after its quantity has changed.
+   * @param previousQuantity - The quantity of the book before the change.
+   * @returns A promise that resolves to the recorded alert, or `null` if no alert was needed.
+   */
+  async raiseAlertIfNeeded(
+    manager: EntityManager,
+    book: BookEntity,
+    previousQuantity: number,
+  ): Promise<LowStockAlertEntity | null> {
+    let reorderPoint = book.reorderPoint;
+    if (reorderPoint === null || reorderPoint === undefined) {
+      const genreDefault = await manager.findOne(GenreReorderDefaultEntity, {
+        where: { genre: book.genre },
+      });
+      reorderPoint = genreDefault?.reorderPoint;
+    }
+    if (reorderPoint === null || reorderPoint === undefined) {
+      return null;
+    }
+    if (previousQuantity <= reorderPoint || book.quantity > reorderPoint) {
+      return null;
+    }
+
+    const openAlert = await manager.findOne(LowStockAlertEntity, {
+      where: { bookId: book.id, acknowledgedAt: IsNull() },
+    });
+    if (openAlert) {
+      return null;
+    }
+
+    const alert = manager.create(LowStockAlertEntity, {
+      bookId: book.id,
+      quantity: book.quantity,
+      reorderPoint,
+    });
+    return await manager.save(alert);
+  }
+
+  /**
+   * Retrieves low-stock alerts, most recent first.
+   *
+   * @param lowStockAlertQueryDto - (Optional) Page, page size and whether to list acknowledged or open alerts.
+   * @returns A promise that resolves to a page of alerts, each with its book.
+   */
+  async findAlerts(
+    lowStockAlertQueryDto?: LowStockAlertQueryDto,
+  ): Promise<PaginatedResult<LowStockAlertEntity>> {
+    const query = this.lowStockAlertRepository
+      .createQueryBuilder('alert')
+      .leftJoinAndSelect('alert.book', 'book')
+      .orderBy('alert.createdAt', 'DESC')
+      .addOrderBy('alert.id', 'ASC');
+    if (lowStockAlertQueryDto?.acknowledged === 'true') {
+      query.andWhere('alert.acknowledgedAt IS NOT NULL');
+    }
+    if (lowStockAlertQueryDto?.acknowledged === 'false') {
+      query.andWhere('alert.acknowledgedAt IS NULL');
+    }
+
+    return await paginate(query, lowStockAlertQueryDto);
+  }
+
+  /**
+   * Acknowledges a low-stock alert.
+   *
+   * @param id - The unique identifier of the alert.
+   * @param currentUser - The authenticated user acknowledging the alert.
+   * @returns A promise that resolves to the acknowledged alert.
+   * @throws NotFoundException - If no alert is found with the given ID.
+   * @throws BadRequestException - If the alert has already been acknowledged.
+   */
+  async acknowledgeAlert(
+    id: string,
+    currentUser: UserEntity,
+  ): Promise<LowStockAlertEntity> {
+    const alert = await this.lowStockAlertRepository.findOne({
+      where: { id },
+    });
+
+    if (!alert) {
+      throw new NotFoundException('Alert not found');
+    }
+    if (alert.acknowledgedAt) {
+      throw new BadRequestException('Alert is already acknowledged');
+    }
+
+    alert.acknowledgedAt = Math.floor(Date.now() / 1000);
+    alert.acknowledgedBy = currentUser.email;
+    return await this.lowStockAlertRepository.save(alert);
+  }
+
+  /**
+   * Retrieves the reorder defaults of every genre that has one.
+   *
+   * @returns A promise that resolves to an array of genre reorder defaults.
+   */
+  async findGenreDefaults(): Promise<GenreReorderDefaultEntity[]> {
+    return await this.genreReorderDefaultRepository.find({
+      order: { genre: 'ASC' },
+    });
+  }
+
+  /**
+   * Creates or replaces the reorder default of a genre.
+   *
+   * @param genreReorderDefaultDto - The genre, its reorder point and optional reorder quantity.
+   * @param currentUser - The authenticated user setting the default.
+   * @returns A promise that resolves to the saved genre reorder default.
+   */
+  async setGenreDefault(
+    genreReorderDefaultDto: GenreReorderDefaultDto,
+    currentUser: UserEntity,
+  ): Promise<GenreReorderDefaultEntity> {
+    const genreDefault =
+      (await this.genreReorderDefaultRepository.findOne({
+        where: { genre: genreReorderDefaultDto.genre },
+      })) || this.genreReorderDefaultRepository.create();
+
+    Object.assign(genreDefault, genreReorderDefaultDto, {
+      reorderQuantity: genreReorderDefaultDto.reorderQuantity ?? null,
+      updatedBy: currentUser.email,
+    });
+    return await this.genreReorderDefaultRepository.save(genreDefault);
+  }
+
+  /**
+   * Deletes the reorder default of a genre.
+   *
+   * @param genre - The genre whose default should be removed.
+   * @returns A promise that resolves to `true` if a default was deleted, otherwise `false`.
+   */
+  async removeGenreDefault(genre: string): Promise<boolean> {
+    const result = await this.genreReorderDefaultRepository.delete({ genre });
+
+    return result.affected > 0;
+  }
+}
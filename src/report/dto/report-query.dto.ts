@@ -0,0 +1,8 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { FileFormat } from '../../enum/file-format-enum';
+
+export class ReportQueryDto {
+  @IsEnum(FileFormat, { message: 'Format must be csv or json' })
+  @IsOptional()
+  format?: FileFormat;
+}
@@ -0,0 +1,11 @@
+import { IsInt, IsOptional, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ReportQueryDto } from './report-query.dto';
+
+export class StaleStockQueryDto extends ReportQueryDto {
+  @Type(() => Number)
+  @IsInt({ message: 'Days must be an integer' })
+  @Min(1, { message: 'Days must be at least 1' })
+  @IsOptional()
+  days?: number;
+}
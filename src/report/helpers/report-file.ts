@@ -0,0 +1,31 @@
+import { StreamableFile } from '@nestjs/common';
+import { FileFormat } from '../../enum/file-format-enum';
+import { toCsvLine } from '../../utility/helpers/csv';
+
+/**
+ * Sends a report as JSON, or as a CSV download.
+ *
+ * @param name - The report name, used as the file name of the download.
+ * @param rows - The report rows.
+ * @param columns - The row fields to include in the CSV, in column order.
+ * @param format - (Optional) `csv` or `json`; JSON when omitted.
+ * @returns The rows themselves for JSON, or the CSV file.
+ */
+export function toReportResponse<T extends object>(
+  name: string,
+  rows: T[],
+  columns: (keyof T & string)[],
+  format?: FileFormat,
+): T[] | StreamableFile {
+  if (format !== FileFormat.CSV) {
+    return rows;
+  }
+
+  const csv =
+    toCsvLine(columns) +
+    rows.map((row) => toCsvLine(columns.map((column) => row[column]))).join('');
+  return new StreamableFile(Buffer.from(csv), {
+    type: 'text/csv',
+    disposition: `attachment; filename="${name}.csv"`,
+  });
+}
@@ -0,0 +1,6 @@
+export interface CatalogAgeBucket {
+  bucket: string;
+  titles: number;
+  copies: number;
+  value: number;
+}
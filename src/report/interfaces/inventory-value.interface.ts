@@ -0,0 +1,10 @@
+export interface InventoryValue {
+  titles: number;
+  copies: number;
+  value: number;
+}
+
+export interface InventoryValueBreakdown extends InventoryValue {
+  id: number | null;
+  name: string;
+}
@@ -0,0 +1,9 @@
+export interface StaleStockItem {
+  bookId: string;
+  title: string;
+  author: string;
+  quantity: number;
+  value: number;
+  lastMovementAt: number | null;
+  daysSinceMovement: number | null;
+}
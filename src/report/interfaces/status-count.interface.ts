@@ -0,0 +1,7 @@
+import { Status } from '../../enum/book-enum';
+
+export interface StatusCount {
+  status: Status;
+  titles: number;
+  copies: number;
+}
@@ -0,0 +1,189 @@
+import {
+  Controller,
+  Get,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { ReportService } from './report.service';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+import { Roles } from '../utility/decorators/role-decorator';
+import { RoleTypes } from '../enum/user-enum';
+import { ReportQueryDto } from './dto/report-query.dto';
+import { StaleStockQueryDto } from './dto/stale-stock-query.dto';
+import { toReportResponse } from './helpers/report-file';
+import {
+  InventoryValue,
+  InventoryValueBreakdown,
+} from './interfaces/inventory-value.interface';
+import { StatusCount } from './interfaces/status-count.interface';
+import { CatalogAgeBucket } from './interfaces/catalog-age-bucket.interface';
+import { StaleStockItem } from './interfaces/stale-stock-item.interface';
+
+const BREAKDOWN_COLUMNS: (keyof InventoryValueBreakdown)[] = [
+  'id',
+  'name',
+  'titles',
+  'copies',
+  'value',
+];
+
+@Controller('report')
+export class ReportController {
+  constructor(private readonly reportService: ReportService) {}
+
+  /**
+   * Reports the total value of the inventory at list price (price × quantity).
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param reportQueryDto - (Optional) `format` (`csv` or `json`) query parameter; JSON by default.
+   * @returns A promise that resolves to the number of titles, the number of copies and their value,
+   * as a single row.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('inventory-value')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async getInventoryValue(
+    @Query() reportQueryDto: ReportQueryDto,
+  ): Promise<InventoryValue[] | StreamableFile> {
+    return toReportResponse(
+      'inventory-value',
+      [await this.reportService.getInventoryValue()],
+      ['titles', 'copies', 'value'],
+      reportQueryDto.format,
+    );
+  }
+
+  /**
+   * Reports the inventory value per genre, most valuable first.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   * A book with several genres counts towards each of them.
+   *
+   * @param reportQueryDto - (Optional) `format` (`csv` or `json`) query parameter; JSON by default.
+   * @returns A promise that resolves to the titles, copies and value of each genre.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('inventory-value/genres')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async getInventoryValueByGenre(
+    @Query() reportQueryDto: ReportQueryDto,
+  ): Promise<InventoryValueBreakdown[] | StreamableFile> {
+    return toReportResponse(
+      'inventory-value-by-genre',
+      await this.reportService.getInventoryValueBy('genres'),
+      BREAKDOWN_COLUMNS,
+      reportQueryDto.format,
+    );
+  }
+
+  /**
+   * Reports the inventory value per author, most valuable first.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   * A book with several authors counts towards each of them.
+   *
+   * @param reportQueryDto - (Optional) `format` (`csv` or `json`) query parameter; JSON by default.
+   * @returns A promise that resolves to the titles, copies and value of each author.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('inventory-value/authors')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async getInventoryValueByAuthor(
+    @Query() reportQueryDto: ReportQueryDto,
+  ): Promise<InventoryValueBreakdown[] | StreamableFile> {
+    return toReportResponse(
+      'inventory-value-by-author',
+      await this.reportService.getInventoryValueBy('authors'),
+      BREAKDOWN_COLUMNS,
+      reportQueryDto.format,
+    );
+  }
+
+  /**
+   * Reports the number of titles and copies in each status.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param reportQueryDto - (Optional) `format` (`csv` or `json`) query parameter; JSON by default.
+   * @returns A promise that resolves to the counts per status.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('status-counts')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async getStatusCounts(
+    @Query() reportQueryDto: ReportQueryDto,
+  ): Promise<StatusCount[] | StreamableFile> {
+    return toReportResponse(
+      'status-counts',
+      await this.reportService.getStatusCounts(),
+      ['status', 'titles', 'copies'],
+      reportQueryDto.format,
+    );
+  }
+
+  /**
+   * Reports the age of the catalog, grouping books into buckets by publish date.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param reportQueryDto - (Optional) `format` (`csv` or `json`) query parameter; JSON by default.
+   * @returns A promise that resolves to the titles, copies and value in each age bucket, youngest first.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('catalog-age')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async getCatalogAge(
+    @Query() reportQueryDto: ReportQueryDto,
+  ): Promise<CatalogAgeBucket[] | StreamableFile> {
+    return toReportResponse(
+      'catalog-age',
+      await this.reportService.getCatalogAge(),
+      ['bucket', 'titles', 'copies', 'value'],
+      reportQueryDto.format,
+    );
+  }
+
+  /**
+   * Reports the books holding stock that have had no stock movement in the last N days.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param staleStockQueryDto - (Optional) `days` (90 by default) and `format` (`csv` or `json`) query parameters.
+   * @returns A promise that resolves to the stale books, longest idle first.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get('stale-stock')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async getStaleStock(
+    @Query() staleStockQueryDto: StaleStockQueryDto,
+  ): Promise<StaleStockItem[] | StreamableFile> {
+    return toReportResponse(
+      'stale-stock',
+      await this.reportService.getStaleStock(staleStockQueryDto.days),
+      [
+        'bookId',
+        'title',
+        'author',
+        'quantity',
+        'value',
+        'lastMovementAt',
+        'daysSinceMovement',
+      ],
+      staleStockQueryDto.format,
+    );
+  }
+}
@@ -0,0 +1,210 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { BookEntity } from '../book/entities/book.entity';
+import { StockMovementEntity } from '../book/entities/stock-movement.entity';
+import { Status } from '../enum/book-enum';
+import {
+  InventoryValue,
+  InventoryValueBreakdown,
+} from './interfaces/inventory-value.interface';
+import { StatusCount } from './interfaces/status-count.interface';
+import { CatalogAgeBucket } from './interfaces/catalog-age-bucket.interface';
+import { StaleStockItem } from './interfaces/stale-stock-item.interface';
+
+/** Catalog age buckets by publish date, youngest first; the last one is open-ended. */
+const AGE_BUCKETS: { label: string; maxYears: number | null }[] = [
+  { label: 'Under 1 year', maxYears: 1 },
+  { label: '1-5 years', maxYears: 5 },
+  { label: '5-10 years', maxYears: 10 },
+  { label: '10-25 years', maxYears: 25 },
+  { label: '25 years or more', maxYears: null },
+];
+
+const DEFAULT_STALE_DAYS = 90;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+@Injectable()
+export class ReportService {
+  constructor(
+    @InjectRepository(BookEntity)
+    private bookEntityRepository: Repository<BookEntity>,
+  ) {}
+
+  /**
+   * Works out the total value of the inventory at list price.
+   *
+   * @returns A promise that resolves to the number of titles, the number of copies in stock and their value.
+   */
+  async getInventoryValue(): Promise<InventoryValue> {
+    const raw = await this.selectTotals(
+      this.bookEntityRepository.createQueryBuilder('book'),
+    ).getRawOne();
+    return this.toInventoryValue(raw);
+  }
+
+  /**
+   * Breaks the inventory value down by genre or by author, most valuable first.
+   *
+   * A book with several genres or authors counts towards each of them, so the breakdown can add up
+   * to more than the total. Books without any are grouped under `Unassigned`.
+   *
+   * @param relation - Whether to group by `genres` or `authors`.
+   * @returns A promise that resolves to the inventory value of each genre or author.
+   */
+  async getInventoryValueBy(
+    relation: 'genres' | 'authors',
+  ): Promise<InventoryValueBreakdown[]> {
+    const rows = await this.selectTotals(
+      this.bookEntityRepository
+        .createQueryBuilder('book')
+        .leftJoin(`book.${relation}`, 'credit'),
+    )
+      .addSelect('credit.id', 'id')
+      .addSelect("COALESCE(credit.name, 'Unassigned')", 'name')
+      .groupBy('credit.id')
+      .addGroupBy('credit.name')
+      .orderBy('value', 'DESC')
+      .addOrderBy('name', 'ASC')
+      .getRawMany();
+
+    return rows.map((row) => ({
+      id: row.id === null ? null : Number(row.id),
+      name: row.name,
+      ...this.toInventoryValue(row),
+    }));
+  }
+
+  /**
+   * Counts the titles and copies in each status. Every status is listed, even when no book has it.
+   *
+   * @returns A promise that resolves to the counts per status.
+   */
+  async getStatusCounts(): Promise<StatusCount[]> {
+    const rows = await this.selectTotals(
+      this.bookEntityRepository.createQueryBuilder('book'),
+    )
+      .addSelect('book.status', 'status')
+      .groupBy('book.status')
+      .getRawMany();
+
+    return Object.values(Status).map((status) => {
+      const { titles, copies } = this.toInventoryValue(
+        rows.find((row) => row.status === status),
+      );
+      return { status, titles, copies };
+    });
+  }
+
+  /**
+   * Groups the catalog by how long ago each book was published. Every bucket is listed, even when empty.
+   *
+   * Books with a publish date in the future fall in the youngest bucket.
+   *
+   * @returns A promise that resolves to the titles, copies and inventory value in each age bucket.
+   */
+  async getCatalogAge(): Promise<CatalogAgeBucket[]> {
+    const bucket = `CASE ${AGE_BUCKETS.map(({ maxYears }, index) =>
+      maxYears === null
+        ? `ELSE ${index}`
+        : `WHEN book.publish_date > CURRENT_DATE - INTERVAL '${maxYears} years' THEN ${index}`,
+    ).join(' ')} END`;
+    const rows = await this.selectTotals(
+      this.bookEntityRepository.createQueryBuilder('book'),
+    )
+      .addSelect(bucket, 'bucket')
+      .groupBy('bucket')
+      .getRawMany();
+
+    return AGE_BUCKETS.map(({ label }, index) => ({
+      bucket: label,
+      ...this.toInventoryValue(
+        rows.find((row) => Number(row.bucket) === index),
+      ),
+    }));
+  }
+
+  /**
+   * Lists the books holding stock that have had no stock movement in the given number of days,
+   * longest idle first.
+   *
+   * @param days - (Optional) How many days without a movement make stock stale; 90 when omitted.
+   * @returns A promise that resolves to the stale books, with their stock value and last movement.
+   */
+  async getStaleStock(days = DEFAULT_STALE_DAYS): Promise<StaleStockItem[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const query = this.bookEntityRepository.createQueryBuilder('book');
+    const { entities, raw } = await query
+      .addSelect(
+        (subQuery) =>
+          subQuery
+            .select('MAX(movement.createdAt)')
+            .from(StockMovementEntity, 'movement')
+            .where('movement.bookId = book.id'),
+        'lastMovementAt',
+      )
+      .where('book.quantity > 0')
+      .andWhere(
+        `NOT EXISTS (${query
+          .subQuery()
+          .select('1')
+          .from(StockMovementEntity, 'recent')
+          .where('recent.bookId = book.id')
+          .andWhere('recent.createdAt >= :since')
+          .getQuery()})`,
+        { since: now - days * SECONDS_PER_DAY },
+      )
+      .orderBy('"lastMovementAt"', 'ASC', 'NULLS FIRST')
+      .addOrderBy('book.title', 'ASC')
+      .getRawAndEntities();
+
+    return entities.map((book, index) => {
+      const lastMovementAt =
+        raw[index].lastMovementAt === null
+          ? null
+          : Number(raw[index].lastMovementAt);
+      return {
+        bookId: book.id,
+        title: book.title,
+        author: book.author,
+        quantity: book.quantity,
+        value: Number((Number(book.price) * book.quantity).toFixed(2)),
+        lastMovementAt,
+        daysSinceMovement:
+          lastMovementAt === null
+            ? null
+            : Math.floor((now - lastMovementAt) / SECONDS_PER_DAY),
+      };
+    });
+  }
+
+  /**
+   * Selects the title count, copy count and list-price value of the books matched by a query.
+   *
+   * @param query - The query over books, aliased `book`.
+   * @returns The query, with the totals selected.
+   */
+  private selectTotals(
+    query: SelectQueryBuilder<BookEntity>,
+  ): SelectQueryBuilder<BookEntity> {
+    return query
+      .select('COUNT(book.id)', 'titles')
+      .addSelect('COALESCE(SUM(book.quantity), 0)', 'copies')
+      .addSelect('COALESCE(SUM(book.price * book.quantity), 0)', 'value');
+  }
+
+  /**
+   * Converts the raw totals selected by `selectTotals` to numbers.
+   *
+   * @param raw - (Optional) The raw row; zero totals when missing.
+   * @returns The title count, copy count and value.
+   */
+  private toInventoryValue(raw?: Record<string, string>): InventoryValue {
+    return {
+      titles: Number(raw?.titles ?? 0),
+      copies: Number(raw?.copies ?? 0),
+      value: Number(Number(raw?.value ?? 0).toFixed(2)),
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { IsEmail, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class SupplierDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Supplier name is Required' })
+  name: string;
+
+  @IsEmail({}, { message: 'Please provide a valid email' })
+  @IsOptional()
+  email?: string;
+
+  @IsString()
+  @IsOptional()
+  phone?: string;
+
+  @IsString()
+  @IsOptional()
+  address?: string;
+}
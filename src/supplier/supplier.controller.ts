@@ -0,0 +1,134 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { SupplierService } from './supplier.service';
+import { SupplierDto } from './dto/supplier.dto';
+import { SupplierEntity } from './entities/supplier.entity';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+import { Roles } from '../utility/decorators/role-decorator';
+import { RoleTypes } from '../enum/user-enum';
+import { CurrentUser } from '../utility/decorators/current-user-decorator';
+import { UserEntity } from '../user/entities/user.entity';
+import { PaginationQueryDto } from '../utility/dto/pagination-query.dto';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+
+@Controller('supplier')
+export class SupplierController {
+  constructor(private readonly supplierService: SupplierService) {}
+
+  /**
+   * Creates a new supplier.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param supplierDto - An object containing the name and optional contact details of the supplier.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the created supplier.
+   *
+   * @throws BadRequestException - If a supplier with the same name already exists.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async create(
+    @Body() supplierDto: SupplierDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<SupplierEntity> {
+    return await this.supplierService.create(supplierDto, currentUser);
+  }
+
+  /**
+   * Retrieves a page of suppliers, sorted by name.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param name - (Optional) Filter suppliers by name. Supports partial matches.
+   * @param paginationQueryDto - (Optional) `page` and `limit` query parameters.
+   * @returns A promise that resolves to a page of suppliers.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findAll(
+    @Query('name') name: string,
+    @Query() paginationQueryDto: PaginationQueryDto,
+  ): Promise<PaginatedResult<SupplierEntity>> {
+    return await this.supplierService.findAll(name, paginationQueryDto);
+  }
+
+  /**
+   * Retrieves a single supplier by its ID.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the supplier.
+   * @returns A promise that resolves to the supplier.
+   *
+   * @throws NotFoundException - If no supplier is found with the given ID.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findOne(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<SupplierEntity> {
+    return await this.supplierService.findOne(id);
+  }
+
+  /**
+   * Updates a supplier.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the supplier.
+   * @param supplierDto - An object containing the new name and contact details.
+   * @param currentUser - The currently authenticated user.
+   * @returns A promise that resolves to the updated supplier.
+   *
+   * @throws NotFoundException - If no supplier is found with the given ID.
+   * @throws BadRequestException - If another supplier already has the new name.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() supplierDto: SupplierDto,
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<SupplierEntity> {
+    return await this.supplierService.update(id, supplierDto, currentUser);
+  }
+
+  /**
+   * Deletes a supplier that has no purchase orders.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the supplier.
+   * @returns A promise that resolves to `true` once the supplier is deleted.
+   *
+   * @throws NotFoundException - If no supplier is found with the given ID.
+   * @throws BadRequestException - If the supplier has purchase orders.
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async remove(@Param('id', ParseIntPipe) id: number): Promise<boolean> {
+    return await this.supplierService.remove(id);
+  }
+}
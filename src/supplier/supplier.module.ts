@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import * as dotenv from 'dotenv';
+import { SupplierService } from './supplier.service';
+import { SupplierController } from './supplier.controller';
+import { SupplierEntity } from './entities/supplier.entity';
+import { PurchaseOrderEntity } from '../purchase-order/entities/purchase-order.entity';
+import { JwtAuthGuard } from '../utility/guards/authentication-guard';
+
+dotenv.config();
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([SupplierEntity, PurchaseOrderEntity]),
+    JwtModule.register({
+      secret: process.env.ACCESS_TOKEN_SECRET_KEY,
+      signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME },
+    }),
+  ],
+  controllers: [SupplierController],
+  providers: [SupplierService, JwtAuthGuard],
+})
+export class SupplierModule {}
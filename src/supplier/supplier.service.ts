@@ -0,0 +1,146 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Not, Repository } from 'typeorm';
+import { SupplierEntity } from './entities/supplier.entity';
+import { SupplierDto } from './dto/supplier.dto';
+import { PurchaseOrderEntity } from '../purchase-order/entities/purchase-order.entity';
+import { UserEntity } from '../user/entities/user.entity';
+import { PaginationQueryDto } from '../utility/dto/pagination-query.dto';
+import { PaginatedResult } from '../utility/interfaces/paginated-result.interface';
+import { paginate } from '../utility/helpers/paginate';
+import { actorName } from '../utility/helpers/actor';
+
+@Injectable()
+export class SupplierService {
+  constructor(
+    @InjectRepository(SupplierEntity)
+    private supplierEntityRepository: Repository<SupplierEntity>,
+    @InjectRepository(PurchaseOrderEntity)
+    private purchaseOrderEntityRepository: Repository<PurchaseOrderEntity>,
+  ) {}
+
+  /**
+   * Creates a new supplier.
+   *
+   * @param supplierDto - The name and optional contact details of the supplier.
+   * @param currentUser - (Optional) The authenticated user creating the supplier.
+   * @returns A promise that resolves to the created supplier.
+   * @throws BadRequestException - If a supplier with the same name already exists.
+   */
+  async create(
+    supplierDto: SupplierDto,
+    currentUser?: UserEntity,
+  ): Promise<SupplierEntity> {
+    await this.assertNameAvailable(supplierDto.name);
+    const supplier = this.supplierEntityRepository.create({
+      ...supplierDto,
+      createdBy: actorName(currentUser),
+      updatedBy: actorName(currentUser),
+    });
+    return await this.supplierEntityRepository.save(supplier);
+  }
+
+  /**
+   * Retrieves a page of suppliers, sorted by name.
+   *
+   * @param name - (Optional) Filter suppliers by name. Supports partial, case-insensitive matches.
+   * @param paginationQueryDto - (Optional) Page and page size.
+   * @returns A promise that resolves to a page of suppliers.
+   */
+  async findAll(
+    name?: string,
+    paginationQueryDto?: PaginationQueryDto,
+  ): Promise<PaginatedResult<SupplierEntity>> {
+    const query = this.supplierEntityRepository
+      .createQueryBuilder('supplier')
+      .orderBy('supplier.name', 'ASC')
+      .addOrderBy('supplier.id', 'ASC');
+    if (name) {
+      query.where('supplier.name ILIKE :name', { name: `%${name}%` });
+    }
+    return await paginate(query, paginationQueryDto);
+  }
+
+  /**
+   * Retrieves a single supplier by its ID.
+   *
+   * @param id - The unique identifier of the supplier.
+   * @returns A promise that resolves to the supplier.
+   * @throws NotFoundException - If no supplier is found with the given ID.
+   */
+  async findOne(id: number): Promise<SupplierEntity> {
+    const supplier = await this.supplierEntityRepository.findOne({
+      where: { id },
+    });
+
+    if (!supplier) {
+      throw new NotFoundException('Supplier not found');
+    }
+
+    return supplier;
+  }
+
+  /**
+   * Updates a supplier.
+   *
+   * @param id - The unique identifier of the supplier.
+   * @param supplierDto - The new name and contact details.
+   * @param currentUser - (Optional) The authenticated user updating the supplier.
+   * @returns A promise that resolves to the updated supplier.
+   * @throws NotFoundException - If no supplier is found with the given ID.
+   * @throws BadRequestException - If another supplier already has the new name.
+   */
+  async update(
+    id: number,
+    supplierDto: SupplierDto,
+    currentUser?: UserEntity,
+  ): Promise<SupplierEntity> {
+    const supplier = await this.findOne(id);
+    await this.assertNameAvailable(supplierDto.name, id);
+    Object.assign(supplier, supplierDto, { updatedBy: actorName(currentUser) });
+    return await this.supplierEntityRepository.save(supplier);
+  }
+
+  /**
+   * Deletes a supplier that has no purchase orders.
+   *
+   * @param id - The unique identifier of the supplier.
+   * @returns A promise that resolves to `true` once the supplier is deleted.
+   * @throws NotFoundException - If no supplier is found with the given ID.
+   * @throws BadRequestException - If the supplier has purchase orders.
+   */
+  async remove(id: number): Promise<boolean> {
+    await this.findOne(id);
+    if (
+      await this.purchaseOrderEntityRepository.exists({
+        where: { supplierId: id },
+      })
+    ) {
+      throw new BadRequestException(
+        'Supplier has purchase orders and cannot be deleted',
+      );
+    }
+    await this.supplierEntityRepository.delete(id);
+    return true;
+  }
+
+  /**
+   * Makes sure no other supplier has the given name.
+   *
+   * @param name - The name to check.
+   * @param id - (Optional) The supplier being renamed, which may keep its own name.
+   * @throws BadRequestException - If another supplier already has the name.
+   */
+  private async assertNameAvailable(name: string, id?: number): Promise<void> {
+    const existing = await this.supplierEntityRepository.findOne({
+      where: { name, ...(id && { id: Not(id) }) },
+    });
+    if (existing) {
+      throw new BadRequestException('A supplier with this name already exists');
+    }
+  }
+}
@@ -0,0 +1,7 @@
+import { IsEmail, IsNotEmpty } from 'class-validator';
+
+export class UserForgotPasswordDto {
+  @IsNotEmpty({ message: 'Email is Required' })
+  @IsEmail({}, { message: 'Email is invalid' })
+  email: string;
+}
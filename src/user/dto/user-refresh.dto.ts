@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class UserRefreshDto {
+  @IsNotEmpty({ message: 'Refresh token is Required' })
+  @IsString({ message: 'Refresh token must be a String' })
+  refreshToken: string;
+}
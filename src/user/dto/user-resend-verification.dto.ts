@@ -0,0 +1,7 @@
+import { IsEmail, IsNotEmpty } from 'class-validator';
+
+export class UserResendVerificationDto {
+  @IsNotEmpty({ message: 'Email is Required' })
+  @IsEmail({}, { message: 'Email is invalid' })
+  email: string;
+}
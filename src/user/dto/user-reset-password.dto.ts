@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString, Length } from 'class-validator';
+
+export class UserResetPasswordDto {
+  @IsNotEmpty({ message: 'Token is Required' })
+  @IsString({ message: 'Token must be a String' })
+  token: string;
+
+  @IsNotEmpty({ message: 'New Password is Required' })
+  @Length(8, 20, { message: 'Password must be between 8 and 20 characters' })
+  newPassword: string;
+}
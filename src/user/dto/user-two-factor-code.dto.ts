@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class UserTwoFactorCodeDto {
+  /** A TOTP code from the authenticator app, or a recovery code. */
+  @IsNotEmpty({ message: 'Code is Required' })
+  @IsString({ message: 'Code must be a String' })
+  code: string;
+}
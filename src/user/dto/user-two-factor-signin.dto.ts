@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { UserTwoFactorCodeDto } from './user-two-factor-code.dto';
+
+export class UserTwoFactorSigninDto extends UserTwoFactorCodeDto {
+  @IsNotEmpty({ message: 'Challenge token is Required' })
+  @IsString({ message: 'Challenge token must be a String' })
+  challengeToken: string;
+}
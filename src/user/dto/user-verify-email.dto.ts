@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class UserVerifyEmailDto {
+  @IsNotEmpty({ message: 'Token is Required' })
+  @IsString({ message: 'Token must be a String' })
+  token: string;
+}
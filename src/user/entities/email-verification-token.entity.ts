@@ -0,0 +1,40 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { UserEntity } from './user.entity';
+
+@Entity('EmailVerificationTokens')
+@Index(['userId', 'createdAt'])
+export class EmailVerificationTokenEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity;
+
+  /** SHA-256 of the token; the token itself is only ever sent by email. */
+  @Column({ unique: true })
+  tokenHash: string;
+
+  @Column('bigint')
+  expiresAt: number;
+
+  /** When the token was used, or superseded by a newer one. Tokens work only once. */
+  @Column('bigint', { nullable: true })
+  usedAt: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  createdAt: number;
+}
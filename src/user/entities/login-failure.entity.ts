@@ -0,0 +1,37 @@
+import { Column, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+import { LoginFailureKind } from '../../enum/user-enum';
+
+/**
+ * Failed sign-in attempts against one account (by email, registered or not) or from one IP address,
+ * and the lockout they have earned.
+ */
+@Entity('LoginFailures')
+@Index(['kind', 'identifier'], { unique: true })
+export class LoginFailureEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'enum', enum: LoginFailureKind })
+  kind: LoginFailureKind;
+
+  /** The lower-cased email or the IP address. */
+  @Column()
+  identifier: string;
+
+  /** Failures since the last lockout, forgotten after a quiet spell. */
+  @Column('int', { default: 0 })
+  failures: number;
+
+  /** Lockouts so far; each one lasts twice as long as the one before. */
+  @Column('int', { default: 0 })
+  lockouts: number;
+
+  @Column('bigint', { nullable: true })
+  lockedUntil: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  lastFailureAt: number;
+}
@@ -0,0 +1,37 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { UserEntity } from './user.entity';
+
+/** A one-time code for signing in without the authenticator app, issued when two-factor authentication is enabled. */
+@Entity('RecoveryCodes')
+@Index(['userId', 'codeHash'], { unique: true })
+export class RecoveryCodeEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity;
+
+  /** SHA-256 of the normalized code; the code itself is only shown once, when issued. */
+  @Column()
+  codeHash: string;
+
+  @Column('bigint', { nullable: true })
+  usedAt: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  createdAt: number;
+}
@@ -0,0 +1,38 @@
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { SessionEntity } from './session.entity';
+
+@Entity('RefreshTokens')
+export class RefreshTokenEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  sessionId: string;
+
+  @ManyToOne(() => SessionEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'sessionId' })
+  session: SessionEntity;
+
+  /** SHA-256 of the token; the token itself is only ever sent to the client. */
+  @Column({ unique: true })
+  tokenHash: string;
+
+  @Column('bigint')
+  expiresAt: number;
+
+  /** When the token was exchanged for a new one. Presenting it again means it has leaked. */
+  @Column('bigint', { nullable: true })
+  rotatedAt: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  createdAt: number;
+}
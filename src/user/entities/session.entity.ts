@@ -0,0 +1,40 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { UserEntity } from './user.entity';
+
+/**
+ * A signed-in session: one family of refresh tokens, each issued in exchange for the previous one.
+ * Access tokens carry the session ID, so revoking the session cuts them off as well.
+ */
+@Entity('Sessions')
+@Index(['userId', 'revokedAt'])
+export class SessionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: number;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: UserEntity;
+
+  /** When the latest refresh token of the session expires, in epoch seconds. */
+  @Column('bigint')
+  expiresAt: number;
+
+  @Column('bigint', { nullable: true })
+  revokedAt: number;
+
+  @Column({
+    type: 'bigint',
+    default: () => 'extract(epoch from now())::bigint',
+  })
+  createdAt: number;
+}
@@ -1,4 +1,4 @@
-import { Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, VersionColumn } from 'typeorm';
 import { RoleTypes, Status } from '../../enum/user-enum';
 
 @Entity('Users')
@@ -30,6 +30,25 @@ export class UserEntity {
   })
   status: Status;
 
+  /**
+   * Whether the owner has confirmed the email address. New signups start unverified and cannot sign in until
+   * they confirm; accounts from before verification was introduced count as verified.
+   */
+  @Column({ default: true })
+  emailVerified: boolean;
+
+  /** Base32 TOTP secret, set at enrolment; two-factor sign-in only starts once a first code confirms it. */
+  @Column({ nullable: true, select: false })
+  totpSecret: string;
+
+  /** Whether sign-in asks for a TOTP code (or a recovery code) after the password. */
+  @Column({ default: false })
+  totpEnabled: boolean;
+
+  /** Time step of the last TOTP code accepted, so a code cannot be used twice. */
+  @Column('bigint', { nullable: true, select: false })
+  totpLastUsedStep: number;
+
   @Column({
     type: 'bigint',
     default: () => 'extract(epoch from now())::bigint',
@@ -49,4 +68,8 @@ export class UserEntity {
 
   @Column()
   updatedBy: string;
+
+  /** Incremented on every write; exposed as the `ETag` for optimistic concurrency. */
+  @VersionColumn({ default: 1 })
+  version: number;
 }
@@ -0,0 +1,45 @@
+import { tokenLink } from './token';
+
+/** The response to every request to resend a verification email, so it does not reveal which emails are registered. */
+export const EMAIL_VERIFICATION_REQUESTED =
+  'If the email belongs to an unverified account, a verification link has been sent to it';
+
+/** Least time between two verification emails to the same account, in seconds. */
+export const EMAIL_VERIFICATION_COOLDOWN = 60;
+
+/** Most verification emails sent to the same account in a day. */
+export const EMAIL_VERIFICATION_DAILY_LIMIT = 5;
+
+/**
+ * Works out how long an email verification token stays valid, from the `EMAIL_VERIFICATION_EXPIRE_HOURS` environment variable.
+ *
+ * @returns The lifetime in seconds; 24 hours by default.
+ */
+export function emailVerificationTtl(): number {
+  return (Number(process.env.EMAIL_VERIFICATION_EXPIRE_HOURS) || 24) * 60 * 60;
+}
+
+/**
+ * Writes the body of the verification email.
+ *
+ * When `EMAIL_VERIFICATION_URL` is set (the page of the client app that confirms emails), the email links to it
+ * with the token as the `token` query parameter; otherwise it gives the token on its own.
+ *
+ * @param name - The name of the user.
+ * @param token - The verification token.
+ * @returns The plain-text body.
+ */
+export function emailVerificationText(name: string, token: string): string {
+  const url = process.env.EMAIL_VERIFICATION_URL;
+  return [
+    `Hello ${name},`,
+    '',
+    'Please confirm your email address to finish setting up your account.',
+    url
+      ? `To confirm it, open this link:\n${tokenLink(url, token)}`
+      : `To confirm it, use this verification token:\n${token}`,
+    '',
+    `The ${url ? 'link' : 'token'} expires in ${emailVerificationTtl() / 60 / 60} hours and works only once.`,
+    'If you did not sign up, you can ignore this email.',
+  ].join('\n');
+}
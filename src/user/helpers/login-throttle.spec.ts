@@ -0,0 +1,85 @@
+import { compare } from 'bcrypt';
+import {
+  DUMMY_PASSWORD_HASH,
+  lockoutDuration,
+  loginThrottleConfig,
+} from './login-throttle';
+
+describe('login-throttle', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    for (const name of Object.keys(process.env)) {
+      if (name.startsWith('LOGIN_')) {
+        delete process.env[name];
+      }
+    }
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('loginThrottleConfig', () => {
+    it('uses the defaults when nothing is configured', () => {
+      expect(loginThrottleConfig()).toEqual({
+        maxAccountFailures: 5,
+        maxIpFailures: 20,
+        lockoutSeconds: 60,
+        maxLockoutSeconds: 3600,
+        failureWindowSeconds: 900,
+      });
+    });
+
+    it('reads the thresholds from the environment', () => {
+      process.env.LOGIN_MAX_FAILURES = '3';
+      process.env.LOGIN_IP_MAX_FAILURES = '50';
+      process.env.LOGIN_LOCKOUT_SECONDS = '30';
+      process.env.LOGIN_LOCKOUT_MAX_SECONDS = '600';
+      process.env.LOGIN_FAILURE_WINDOW_SECONDS = '120';
+      expect(loginThrottleConfig()).toEqual({
+        maxAccountFailures: 3,
+        maxIpFailures: 50,
+        lockoutSeconds: 30,
+        maxLockoutSeconds: 600,
+        failureWindowSeconds: 120,
+      });
+    });
+
+    it('falls back to the defaults for invalid values', () => {
+      process.env.LOGIN_MAX_FAILURES = 'many';
+      expect(loginThrottleConfig().maxAccountFailures).toBe(5);
+    });
+  });
+
+  describe('lockoutDuration', () => {
+    const config = {
+      maxAccountFailures: 5,
+      maxIpFailures: 20,
+      lockoutSeconds: 60,
+      maxLockoutSeconds: 600,
+      failureWindowSeconds: 900,
+    };
+
+    it('doubles with each lockout', () => {
+      expect([1, 2, 3, 4].map((n) => lockoutDuration(n, config))).toEqual([
+        60, 120, 240, 480,
+      ]);
+    });
+
+    it('is capped at the longest lockout', () => {
+      expect(lockoutDuration(5, config)).toBe(600);
+      expect(lockoutDuration(30, config)).toBe(600);
+    });
+
+    it('treats no lockouts so far as the first', () => {
+      expect(lockoutDuration(0, config)).toBe(60);
+    });
+  });
+
+  it('has a dummy hash that matches no empty password', async () => {
+    expect(DUMMY_PASSWORD_HASH).toMatch(/^\$2[aby]\$10\$/);
+    expect(await compare('', DUMMY_PASSWORD_HASH)).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { randomBytes } from 'crypto';
+import { hashSync } from 'bcrypt';
+
+export interface LoginThrottleConfig {
+  /** Failures that lock an account. */
+  maxAccountFailures: number;
+  /** Failures that lock an IP address, across all accounts. */
+  maxIpFailures: number;
+  /** Length of the first lockout, in seconds. */
+  lockoutSeconds: number;
+  /** Longest lockout, in seconds. */
+  maxLockoutSeconds: number;
+  /** Quiet time after which failures are forgotten, in seconds. Lockouts are forgotten after a day. */
+  failureWindowSeconds: number;
+}
+
+/**
+ * Reads the sign-in throttling thresholds from the environment:
+ * `LOGIN_MAX_FAILURES` (5), `LOGIN_IP_MAX_FAILURES` (20), `LOGIN_LOCKOUT_SECONDS` (60),
+ * `LOGIN_LOCKOUT_MAX_SECONDS` (3600) and `LOGIN_FAILURE_WINDOW_SECONDS` (900).
+ *
+ * @returns The thresholds, with the defaults above for unset values.
+ */
+export function loginThrottleConfig(): LoginThrottleConfig {
+  return {
+    maxAccountFailures: Number(process.env.LOGIN_MAX_FAILURES) || 5,
+    maxIpFailures: Number(process.env.LOGIN_IP_MAX_FAILURES) || 20,
+    lockoutSeconds: Number(process.env.LOGIN_LOCKOUT_SECONDS) || 60,
+    maxLockoutSeconds: Number(process.env.LOGIN_LOCKOUT_MAX_SECONDS) || 3600,
+    failureWindowSeconds:
+      Number(process.env.LOGIN_FAILURE_WINDOW_SECONDS) || 15 * 60,
+  };
+}
+
+/**
+ * Works out how long a lockout lasts: the first lasts `lockoutSeconds`, and each further one twice as long
+ * as the one before, up to `maxLockoutSeconds`.
+ *
+ * @param lockouts - The number of lockouts so far, including this one.
+ * @param config - The throttling thresholds.
+ * @returns The length of the lockout, in seconds.
+ */
+export function lockoutDuration(
+  lockouts: number,
+  config: LoginThrottleConfig,
+): number {
+  return Math.min(
+    config.lockoutSeconds * 2 ** Math.max(lockouts - 1, 0),
+    config.maxLockoutSeconds,
+  );
+}
+
+/** A hash of no one's password, compared against for unknown emails so they take as long as known ones. */
+export const DUMMY_PASSWORD_HASH = hashSync(
+  randomBytes(16).toString('hex'),
+  10,
+);
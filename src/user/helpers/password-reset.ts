@@ -0,0 +1,39 @@
+import { tokenLink } from './token';
+
+/** The response to every password reset request, so it does not reveal which emails are registered. */
+export const PASSWORD_RESET_REQUESTED =
+  'If the email is registered, a password reset link has been sent to it';
+
+/**
+ * Works out how long a password reset token stays valid, from the `PASSWORD_RESET_EXPIRE_MINUTES` environment variable.
+ *
+ * @returns The lifetime in seconds; 60 minutes by default.
+ */
+export function passwordResetTtl(): number {
+  return (Number(process.env.PASSWORD_RESET_EXPIRE_MINUTES) || 60) * 60;
+}
+
+/**
+ * Writes the body of the password reset email.
+ *
+ * When `PASSWORD_RESET_URL` is set (the page of the client app that resets passwords), the email links to it
+ * with the token as the `token` query parameter; otherwise it gives the token on its own.
+ *
+ * @param name - The name of the user.
+ * @param token - The reset token.
+ * @returns The plain-text body.
+ */
+export function passwordResetText(name: string, token: string): string {
+  const url = process.env.PASSWORD_RESET_URL;
+  return [
+    `Hello ${name},`,
+    '',
+    'We received a request to reset the password of your account.',
+    url
+      ? `To choose a new password, open this link:\n${tokenLink(url, token)}`
+      : `To choose a new password, use this reset token:\n${token}`,
+    '',
+    `The ${url ? 'link' : 'token'} expires in ${passwordResetTtl() / 60} minutes and works only once.`,
+    'If you did not ask for a reset, you can ignore this email; your password stays the same.',
+  ].join('\n');
+}
@@ -0,0 +1,27 @@
+import { FindOptionsWhere, IsNull, MoreThan } from 'typeorm';
+import { SessionEntity } from '../entities/session.entity';
+
+/**
+ * Works out how long a refresh token stays valid, from the `REFRESH_TOKEN_EXPIRE_DAYS` environment variable.
+ *
+ * @returns The lifetime in seconds; 30 days by default.
+ */
+export function refreshTokenTtl(): number {
+  return (Number(process.env.REFRESH_TOKEN_EXPIRE_DAYS) || 30) * 24 * 60 * 60;
+}
+
+/**
+ * Builds the condition matching a session that is neither revoked nor expired.
+ *
+ * @param id - The unique identifier of the session.
+ * @returns The `where` condition.
+ */
+export function activeSessionWhere(
+  id: string,
+): FindOptionsWhere<SessionEntity> {
+  return {
+    id,
+    revokedAt: IsNull(),
+    expiresAt: MoreThan(Math.floor(Date.now() / 1000)),
+  };
+}
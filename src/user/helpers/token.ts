@@ -0,0 +1,31 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Generates a new opaque token, such as a refresh token or a password reset token.
+ *
+ * @returns The token, 48 random bytes in base64url.
+ */
+export function generateToken(): string {
+  return randomBytes(48).toString('base64url');
+}
+
+/**
+ * Hashes a token for storage and lookup, so a leaked table holds no usable tokens.
+ *
+ * @param token - The token.
+ * @returns The SHA-256 hash, in hex.
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Builds a link to a page of the client app that takes a token, such as the password reset page.
+ *
+ * @param url - The URL of the page.
+ * @param token - The token, passed as the `token` query parameter.
+ * @returns The link.
+ */
+export function tokenLink(url: string, token: string): string {
+  return `${url}${url.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}`;
+}
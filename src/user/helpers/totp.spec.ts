@@ -0,0 +1,100 @@
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  RECOVERY_CODE_COUNT,
+  totpUri,
+  verifyTotp,
+} from './totp';
+
+/** The RFC 6238 test secret `12345678901234567890`, in base32. */
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  const at = (seconds: number) =>
+    jest.spyOn(Date, 'now').mockReturnValue(seconds * 1000);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('verifyTotp', () => {
+    // RFC 6238 appendix B (SHA-1), truncated to the last six digits.
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+      [20000000000, '353130'],
+    ])('accepts the RFC 6238 code at T=%i', (seconds, code) => {
+      at(seconds);
+      expect(verifyTotp(RFC_SECRET, code)).toBe(Math.floor(seconds / 30));
+    });
+
+    it('allows one time step of clock drift either way', () => {
+      at(1111111109 + 30);
+      expect(verifyTotp(RFC_SECRET, '081804')).toBe(37037036);
+      at(1111111109 - 30);
+      expect(verifyTotp(RFC_SECRET, '081804')).toBe(37037036);
+      at(1111111109 + 60);
+      expect(verifyTotp(RFC_SECRET, '081804')).toBeNull();
+    });
+
+    it('ignores spaces in the code', () => {
+      at(59);
+      expect(verifyTotp(RFC_SECRET, '287 082')).toBe(1);
+    });
+
+    it('rejects a code for a step that was already used', () => {
+      at(59);
+      expect(verifyTotp(RFC_SECRET, '287082', 1)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '287082', 0)).toBe(1);
+    });
+
+    it('rejects wrong and malformed codes', () => {
+      at(59);
+      expect(verifyTotp(RFC_SECRET, '287083')).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '28708')).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+    });
+  });
+
+  it('generates random 160-bit base32 secrets', () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+
+  it('builds a provisioning URI with the issuer and account', () => {
+    const uri = new URL(totpUri(RFC_SECRET, 'reader@example.com'));
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe(
+      '/Book Inventory:reader@example.com',
+    );
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'Book Inventory',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('generates distinct xxxxx-xxxxx codes', () => {
+      const codes = generateRecoveryCodes();
+      expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+      expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+      for (const code of codes) {
+        expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+      }
+    });
+
+    it('normalizes case and separators', () => {
+      expect(normalizeRecoveryCode(' ABCDE-fghij ')).toBe('abcdefghij');
+      expect(normalizeRecoveryCode('abcde fghij')).toBe('abcdefghij');
+    });
+  });
+});
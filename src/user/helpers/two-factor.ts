@@ -0,0 +1,22 @@
+import { RoleTypes } from '../../enum/user-enum';
+import { UserEntity } from '../entities/user.entity';
+
+/** The `purpose` claim of the short-lived token that carries a sign-in from the password step to the code step. */
+export const TWO_FACTOR_CHALLENGE = '2fa-challenge';
+
+/** How long the code step of a sign-in may take. */
+export const TWO_FACTOR_CHALLENGE_EXPIRE_TIME = '5m';
+
+/**
+ * Tells whether a user must use two-factor authentication, which is the case for admins when
+ * `ADMIN_2FA_REQUIRED` is `true`. Until they enroll, they are kept out of admin-only endpoints.
+ *
+ * @param user - The user.
+ * @returns `true` if the user must enroll in two-factor authentication.
+ */
+export function isTwoFactorRequired(user: UserEntity): boolean {
+  return (
+    process.env.ADMIN_2FA_REQUIRED === 'true' &&
+    !!user.role?.includes(RoleTypes.ADMIN)
+  );
+}
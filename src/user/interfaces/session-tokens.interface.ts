@@ -0,0 +1,5 @@
+export interface SessionTokens {
+  accessToken: string;
+  /** Exchanged at `POST /user/refresh` for a new pair of tokens; each refresh token works only once. */
+  refreshToken: string;
+}
@@ -0,0 +1,14 @@
+export interface TwoFactorEnrolment {
+  /** The base32 secret, for entering into an authenticator app by hand. */
+  secret: string;
+  /** The `otpauth://` provisioning URI. */
+  otpauthUri: string;
+  /** The provisioning URI as a QR code, a PNG data URL. */
+  qrCode: string;
+}
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  /** Sent with a TOTP code or a recovery code to `POST /user/signin/2fa` to finish signing in. */
+  challengeToken: string;
+}
@@ -3,10 +3,15 @@ import {
   Controller,
   Delete,
   Get,
+  Headers,
+  Ip,
   Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
   Patch,
   Post,
   Req,
+  Res,
   UnauthorizedException,
   UseGuards,
 } from '@nestjs/common';
@@ -21,6 +26,24 @@ import { Roles } from '../utility/decorators/role-decorator';
 import { RoleTypes } from '../enum/user-enum';
 import { UserEditDto } from './dto/user-edit.dto';
 import { UserChangePasswordDto } from './dto/user-change-password.dto';
+import { Response } from 'express';
+import { parseIfMatch, toEtag } from '../utility/helpers/etag';
+import { CurrentSession } from '../utility/decorators/current-session-decorator';
+import { UserRefreshDto } from './dto/user-refresh.dto';
+import { SessionTokens } from './interfaces/session-tokens.interface';
+import { UserForgotPasswordDto } from './dto/user-forgot-password.dto';
+import { UserResetPasswordDto } from './dto/user-reset-password.dto';
+import { PASSWORD_RESET_REQUESTED } from './helpers/password-reset';
+import { UserVerifyEmailDto } from './dto/user-verify-email.dto';
+import { UserResendVerificationDto } from './dto/user-resend-verification.dto';
+import { EMAIL_VERIFICATION_REQUESTED } from './helpers/email-verification';
+import { LoginFailureEntity } from './entities/login-failure.entity';
+import {
+  TwoFactorChallenge,
+  TwoFactorEnrolment,
+} from './interfaces/two-factor.interface';
+import { UserTwoFactorSigninDto } from './dto/user-two-factor-signin.dto';
+import { UserTwoFactorCodeDto } from './dto/user-two-factor-code.dto';
 
 @Controller('user')
 export class UserController {
@@ -30,7 +53,8 @@ export class UserController {
    * Registers a new user in the system.
    *
    * This endpoint allows users with the `USER` or `ADMIN` roles to create a new account by providing the required details in `userSignupDto`.
-   * It delegates the user creation to the `userService.signup` method.
+   * It delegates the user creation to the `userService.signup` method. The account starts unverified, and a verification
+   * email is sent; it can sign in once the email is confirmed at `POST /user/verify-email`.
    *
    * @param userSignupDto - An object containing the user's signup information, such as email, password, and other details.
    * @returns A promise that resolves to the newly created user entity.
@@ -44,25 +68,305 @@ export class UserController {
   }
 
   /**
-   * Authenticates a user during sign-in and generates an access token.
+   * Confirms the email address of a new account.
+   *
+   * This endpoint does not require an access token. The token comes from the verification email and works only once.
+   *
+   * @param userVerifyEmailDto - An object containing the verification token.
+   * @returns A promise that resolves to an object containing the verified user entity.
+   *
+   * @throws BadRequestException - If the token is invalid, expired or already used.
+   */
+  @Post('verify-email')
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async verifyEmail(
+    @Body() userVerifyEmailDto: UserVerifyEmailDto,
+  ): Promise<{ user: UserEntity }> {
+    const user = await this.userService.verifyEmail(userVerifyEmailDto.token);
+    return { user };
+  }
+
+  /**
+   * Sends a new verification email to an unverified account.
+   *
+   * This endpoint does not require an access token. The response is the same whether or not the email belongs to
+   * an unverified account, unless the account has asked too recently or too often.
+   *
+   * @param userResendVerificationDto - An object containing the email address of the account.
+   * @returns A promise that resolves to a confirmation message.
+   *
+   * @throws HttpException - 429 Too Many Requests, if the last verification email was sent less than a minute ago,
+   * or 5 were sent in the last day.
+   */
+  @Post('resend-verification')
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async resendVerification(
+    @Body() userResendVerificationDto: UserResendVerificationDto,
+  ): Promise<{ message: string }> {
+    await this.userService.resendVerification(userResendVerificationDto.email);
+    return { message: EMAIL_VERIFICATION_REQUESTED };
+  }
+
+  /**
+   * Marks a user's email address as verified, letting them sign in without confirming it themselves.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the user.
+   * @returns A promise that resolves to an object containing the verified user entity.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role (`ADMIN`).
+   * @throws NotFoundException - If no user is found with the given ID.
+   */
+  @Post(':id/verify-email')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async markEmailVerified(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<{ user: UserEntity }> {
+    const user = await this.userService.markEmailVerified(id);
+    return { user };
+  }
+
+  /**
+   * Authenticates a user during sign-in and starts a session.
    *
    * This endpoint allows users with the `USER` or `ADMIN` roles to sign in by providing their credentials in `userSigninDto`.
-   * It delegates the sign-in process to the `userService.signin` method, and if successful, generates an access token using `userService.accessToken`.
+   * It delegates the sign-in process to the `userService.signin` method, and if successful, starts a session using `userService.createSession`,
+   * which issues a short-lived access token and a long-lived refresh token.
+   *
+   * Failed attempts are counted per email and per IP address; too many lock them out for a growing period.
+   * For users with two-factor authentication enabled, no session is started yet: the response carries a challenge token
+   * instead, to be sent with a code to `POST /user/signin/2fa`.
    *
    * @param userSigninDto - An object containing the user's sign-in credentials, such as email and password.
-   * @returns A promise that resolves to an object containing the authenticated user and the generated access token.
+   * @param ip - The IP address of the client.
+   * @returns A promise that resolves to an object containing the authenticated user, the access token and the refresh token,
+   * or to a two-factor challenge.
    *
    * @throws UnauthorizedException - If the user does not have the required role (`USER` or `ADMIN`).
-   * @throws BadRequestException - If the credentials are invalid or the user account is deactivated.
+   * @throws BadRequestException - If the credentials are invalid, the user account is deactivated, or its email is not verified yet.
+   * @throws HttpException - 429 Too Many Requests, if the email or IP address is locked out after failed attempts.
    */
   @Post('signin')
   @Roles(RoleTypes.USER, RoleTypes.ADMIN)
   async signin(
     @Body() userSigninDto: UserSigninDto,
-  ): Promise<{ user: UserEntity; accessToken: string }> {
-    const user = await this.userService.signin(userSigninDto);
-    const accessToken = await this.userService.accessToken(user);
-    return { accessToken, user };
+    @Ip() ip: string,
+  ): Promise<(SessionTokens & { user: UserEntity }) | TwoFactorChallenge> {
+    const user = await this.userService.signin(userSigninDto, ip);
+    if (user.totpEnabled) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: await this.userService.twoFactorChallenge(user),
+      };
+    }
+    const tokens = await this.userService.createSession(user);
+    return { ...tokens, user };
+  }
+
+  /**
+   * Finishes signing in a user with two-factor authentication and starts a session.
+   *
+   * This endpoint does not require an access token. It takes the challenge token returned by `POST /user/signin`
+   * and a code from the authenticator app, or one of the recovery codes, each of which works only once.
+   *
+   * @param userTwoFactorSigninDto - An object containing the challenge token and the code.
+   * @param ip - The IP address of the client.
+   * @returns A promise that resolves to an object containing the authenticated user, the access token and the refresh token.
+   *
+   * @throws UnauthorizedException - If the challenge token is invalid or expired.
+   * @throws BadRequestException - If the code is invalid or the user account is deactivated.
+   * @throws HttpException - 429 Too Many Requests, if the email or IP address is locked out after failed attempts.
+   */
+  @Post('signin/2fa')
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async signinTwoFactor(
+    @Body() userTwoFactorSigninDto: UserTwoFactorSigninDto,
+    @Ip() ip: string,
+  ): Promise<SessionTokens & { user: UserEntity }> {
+    const user = await this.userService.signinTwoFactor(
+      userTwoFactorSigninDto,
+      ip,
+    );
+    const tokens = await this.userService.createSession(user);
+    return { ...tokens, user };
+  }
+
+  /**
+   * Starts enrolling the current user in two-factor authentication (TOTP, RFC 6238).
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   * The secret is returned as text, as an `otpauth://` URI and as a QR code for authenticator apps. Two-factor
+   * authentication is only enabled once a first code is confirmed at `POST /user/2fa/confirm`.
+   *
+   * @param currentUser - The currently authenticated user entity, injected via a custom decorator.
+   * @returns A promise that resolves to the secret, the provisioning URI and the QR code.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   * @throws BadRequestException - If two-factor authentication is already enabled.
+   */
+  @Post('2fa/enroll')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async enrollTwoFactor(
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<TwoFactorEnrolment> {
+    return await this.userService.enrollTwoFactor(currentUser);
+  }
+
+  /**
+   * Confirms two-factor enrolment with a first code from the authenticator app, enabling it.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param currentUser - The currently authenticated user entity, injected via a custom decorator.
+   * @param userTwoFactorCodeDto - An object containing the code.
+   * @returns A promise that resolves to the one-time recovery codes, which are not shown again.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   * @throws BadRequestException - If two-factor authentication is already enabled, enrolment has not been started, or the code is invalid.
+   */
+  @Post('2fa/confirm')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async confirmTwoFactor(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() userTwoFactorCodeDto: UserTwoFactorCodeDto,
+  ): Promise<{ recoveryCodes: string[] }> {
+    return await this.userService.confirmTwoFactor(
+      currentUser,
+      userTwoFactorCodeDto.code,
+    );
+  }
+
+  /**
+   * Replaces the current user's recovery codes with a new set.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param currentUser - The currently authenticated user entity, injected via a custom decorator.
+   * @param userTwoFactorCodeDto - An object containing a code from the authenticator app or an unused recovery code.
+   * @returns A promise that resolves to the new recovery codes; the old ones stop working.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   * @throws BadRequestException - If two-factor authentication is not enabled, or the code is invalid.
+   */
+  @Post('2fa/recovery-codes')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async regenerateRecoveryCodes(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() userTwoFactorCodeDto: UserTwoFactorCodeDto,
+  ): Promise<{ recoveryCodes: string[] }> {
+    return await this.userService.regenerateRecoveryCodes(
+      currentUser,
+      userTwoFactorCodeDto.code,
+    );
+  }
+
+  /**
+   * Turns two-factor authentication off for the current user.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   * Admins cannot turn it off while `ADMIN_2FA_REQUIRED` is set.
+   *
+   * @param currentUser - The currently authenticated user entity, injected via a custom decorator.
+   * @param userTwoFactorCodeDto - An object containing a code from the authenticator app or an unused recovery code.
+   * @returns A promise that resolves to `true` once two-factor authentication is off.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   * @throws BadRequestException - If two-factor authentication is not enabled, is required for the user, or the code is invalid.
+   */
+  @Post('2fa/disable')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async disableTwoFactor(
+    @CurrentUser() currentUser: UserEntity,
+    @Body() userTwoFactorCodeDto: UserTwoFactorCodeDto,
+  ): Promise<boolean> {
+    return await this.userService.disableTwoFactor(
+      currentUser,
+      userTwoFactorCodeDto.code,
+    );
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token and refresh token.
+   *
+   * This endpoint does not require an access token, so it can be called once the access token has expired.
+   * The refresh token is rotated: the one sent stops working, and sending it again revokes the whole session.
+   *
+   * @param userRefreshDto - An object containing the refresh token.
+   * @returns A promise that resolves to the new access token and refresh token.
+   *
+   * @throws UnauthorizedException - If the refresh token is invalid, expired or reused, the session is revoked, or the user is deactivated.
+   */
+  @Post('refresh')
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async refresh(
+    @Body() userRefreshDto: UserRefreshDto,
+  ): Promise<SessionTokens> {
+    return await this.userService.refresh(userRefreshDto.refreshToken);
+  }
+
+  /**
+   * Logs out of the current session.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   * The session's access tokens and refresh tokens stop working immediately.
+   *
+   * @param sessionId - The session of the access token, injected via a custom decorator.
+   * @returns A promise that resolves to `true` if the session was logged out.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post('logout')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async logout(@CurrentSession() sessionId: string): Promise<boolean> {
+    return await this.userService.revokeSession(sessionId);
+  }
+
+  /**
+   * Logs the current user out everywhere, revoking all of their sessions, including this one.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
+   *
+   * @param currentUser - The currently authenticated user entity, injected via a custom decorator.
+   * @returns A promise that resolves to the number of sessions revoked.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+   */
+  @Post('logout-all')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async logoutAll(
+    @CurrentUser() currentUser: UserEntity,
+  ): Promise<{ revoked: number }> {
+    return {
+      revoked: await this.userService.revokeAllSessions(currentUser.id),
+    };
+  }
+
+  /**
+   * Logs a user out everywhere, revoking all of their sessions, e.g. when their access must end at once.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   * Deactivating a user revokes their sessions as well.
+   *
+   * @param id - The unique identifier of the user.
+   * @returns A promise that resolves to the number of sessions revoked.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role (`ADMIN`).
+   */
+  @Post(':id/logout-all')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async logoutUser(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<{ revoked: number }> {
+    return { revoked: await this.userService.revokeAllSessions(id) };
   }
 
   /**
@@ -86,6 +390,78 @@ export class UserController {
     return { user };
   }
 
+  /**
+   * Requests a password reset for a forgotten password.
+   *
+   * This endpoint does not require an access token. If the email belongs to an active account, a single-use
+   * reset token is emailed to it. The response is the same whether or not the email is registered.
+   *
+   * @param userForgotPasswordDto - An object containing the email address of the account.
+   * @returns A promise that resolves to a confirmation message.
+   */
+  @Post('forgot-password')
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async forgotPassword(
+    @Body() userForgotPasswordDto: UserForgotPasswordDto,
+  ): Promise<{ message: string }> {
+    await this.userService.requestPasswordReset(userForgotPasswordDto.email);
+    return { message: PASSWORD_RESET_REQUESTED };
+  }
+
+  /**
+   * Sets a new password with an emailed reset token.
+   *
+   * This endpoint does not require an access token. The token works only once, and every session of the user
+   * is logged out, so they must sign in again with the new password.
+   *
+   * @param userResetPasswordDto - An object containing the reset token and the new password.
+   * @returns A promise that resolves to an object containing the updated user entity.
+   *
+   * @throws BadRequestException - If the token is invalid, expired or already used, or the account is deactivated.
+   */
+  @Post('reset-password')
+  @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+  async resetPassword(
+    @Body() userResetPasswordDto: UserResetPasswordDto,
+  ): Promise<{ user: UserEntity }> {
+    const user = await this.userService.resetPassword(userResetPasswordDto);
+    return { user };
+  }
+
+  /**
+   * Lists the emails and IP addresses currently locked out of signing in.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @returns A promise that resolves to the active lockouts, with their failure counts and end times.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role (`ADMIN`).
+   */
+  @Get('lockouts')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async findLockouts(): Promise<LoginFailureEntity[]> {
+    return await this.userService.findLockouts();
+  }
+
+  /**
+   * Clears a lockout, letting the email or IP address sign in again at once.
+   *
+   * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+   *
+   * @param id - The unique identifier of the lockout record.
+   * @returns A promise that resolves to `true` if the lockout was cleared.
+   *
+   * @throws UnauthorizedException - If the user is not authenticated or does not have the required role (`ADMIN`).
+   * @throws NotFoundException - If no lockout record is found with the given ID.
+   */
+  @Delete('lockouts/:id')
+  @UseGuards(JwtAuthGuard)
+  @Roles(RoleTypes.ADMIN)
+  async clearLockout(@Param('id', ParseUUIDPipe) id: string): Promise<boolean> {
+    return await this.userService.clearLockout(id);
+  }
+
   /**
    * Retrieves all users from the system.
    *
@@ -109,10 +485,11 @@ export class UserController {
    * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `USER` or `ADMIN` roles.
    * It checks the user ID from the request (extracted from the JWT token in middleware) and ensures it's available.
    * If the user ID is not found in the request, an `UnauthorizedException` is thrown.
-   * It delegates the retrieval of the user to the `userService.findOne` method.
+   * It delegates the retrieval of the user to the `userService.findOne` method, and returns the user's version as the `ETag` header.
    *
    * @param id - The unique identifier of the user to retrieve (although this is not used in the method, the user ID from the token is used).
    * @param req - The request object containing the user ID extracted from the JWT token.
+   * @param response - The outgoing response, used to set the `ETag` header.
    * @returns A promise that resolves to the user entity.
    *
    * @throws UnauthorizedException - If the user ID is not found in the request.
@@ -120,12 +497,20 @@ export class UserController {
   @Get(':id')
   @UseGuards(JwtAuthGuard)
   @Roles(RoleTypes.USER, RoleTypes.ADMIN)
-  findOne(@Param('id') id: number, @Req() req: Request) {
+  async findOne(
+    @Param('id') id: number,
+    @Req() req: Request,
+    @Res({ passthrough: true }) response: Response,
+  ) {
     const userIdFromMiddleware = req['user']?.id;
     if (!userIdFromMiddleware) {
       throw new UnauthorizedException('User ID not found in request');
     }
-    return this.userService.findOne(userIdFromMiddleware);
+    const user = await this.userService.findOne(userIdFromMiddleware);
+    if (user) {
+      response.set('ETag', toEtag(user.version));
+    }
+    return user;
   }
 
   /**
@@ -134,13 +519,19 @@ export class UserController {
    * This endpoint is protected by the `JwtAuthGuard` and can be accessed by users with `ADMIN` or `USER` roles.
    * It allows updating the user entity based on the provided `userEditDto`.
    * If the user has the appropriate role (`ADMIN` or `USER`), the user entity will be updated accordingly.
+   * When an `If-Match` header carries the `ETag` of an earlier read, the update only goes through if the user
+   * has not changed since. The response carries the new `ETag`.
    *
    * @param id - The unique identifier of the user to update.
    * @param userEditDto - An object containing the fields to update in the user entity.
+   * @param ifMatch - (Optional) The `If-Match` header.
+   * @param response - The outgoing response, used to set the `ETag` header.
    * @returns A promise that resolves to the updated user entity.
    *
    * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
    * @throws NotFoundException - If no user is found with the provided ID.
+   * @throws BadRequestException - If the `If-Match` header is not an `ETag` of the user.
+   * @throws PreconditionFailedException - If the user has changed since the `If-Match` version; the response carries the current version.
    */
   @Patch(':id')
   @UseGuards(JwtAuthGuard)
@@ -148,8 +539,16 @@ export class UserController {
   async update(
     @Param('id') id: number,
     @Body() userEditDto: UserEditDto,
+    @Headers('if-match') ifMatch: string,
+    @Res({ passthrough: true }) response: Response,
   ): Promise<UserEntity> {
-    return await this.userService.update(id, userEditDto);
+    const user = await this.userService.update(
+      id,
+      userEditDto,
+      parseIfMatch(ifMatch),
+    );
+    response.set('ETag', toEtag(user.version));
+    return user;
   }
 
   /**
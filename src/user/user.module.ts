@@ -3,6 +3,14 @@ import { UserService } from './user.service';
 import { UserController } from './user.controller';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { UserEntity } from './entities/user.entity';
+import { SessionEntity } from './entities/session.entity';
+import { RefreshTokenEntity } from './entities/refresh-token.entity';
+import { PasswordResetTokenEntity } from './entities/password-reset-token.entity';
+import { EmailVerificationTokenEntity } from './entities/email-verification-token.entity';
+import { LoginFailureEntity } from './entities/login-failure.entity';
+import { RecoveryCodeEntity } from './entities/recovery-code.entity';
+import { MAILER } from '../utility/mailer/mailer.interface';
+import { OutboxMailer } from '../utility/mailer/outbox-mailer';
 import { JwtAuthGuard } from '../utility/guards/authentication-guard';
 import { JwtModule } from '@nestjs/jwt';
 import * as dotenv from 'dotenv';
@@ -10,14 +18,29 @@ import * as dotenv from 'dotenv';
 dotenv.config();
 @Module({
   imports: [
-    TypeOrmModule.forFeature([UserEntity]),
+    TypeOrmModule.forFeature([
+      UserEntity,
+      SessionEntity,
+      RefreshTokenEntity,
+      PasswordResetTokenEntity,
+      EmailVerificationTokenEntity,
+      LoginFailureEntity,
+      RecoveryCodeEntity,
+    ]),
     JwtModule.register({
       secret: process.env.ACCESS_TOKEN_SECRET_KEY,
       signOptions: { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME},
     }),
   ],
   controllers: [UserController],
-  providers: [UserService, JwtAuthGuard],
+  providers: [
+    UserService,
+    JwtAuthGuard,
+    {
+      provide: MAILER,
+      useClass: OutboxMailer,
+    },
+  ],
   exports: [UserService],
 })
 export class UserModule {}
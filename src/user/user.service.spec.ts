@@ -0,0 +1,352 @@
+import {
+  BadRequestException,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { hashSync } from 'bcrypt';
+import { decode } from 'jsonwebtoken';
+import { Repository } from 'typeorm';
+import { UserService } from './user.service';
+import { UserEntity } from './entities/user.entity';
+import { SessionEntity } from './entities/session.entity';
+import { RefreshTokenEntity } from './entities/refresh-token.entity';
+import { LoginFailureEntity } from './entities/login-failure.entity';
+import { hashToken } from './helpers/token';
+import { refreshTokenTtl } from './helpers/session';
+import { LoginFailureKind, Status } from '../enum/user-enum';
+import { Mailer } from '../utility/mailer/mailer.interface';
+
+const NOW = 1_700_000_000;
+
+describe('UserService', () => {
+  const env = process.env;
+  const password = hashSync('correct horse', 4);
+  let user: UserEntity;
+  let session: SessionEntity;
+  let refreshTokens: RefreshTokenEntity[];
+  let loginFailures: LoginFailureEntity[];
+  let manager: {
+    findOne: jest.Mock;
+    find: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let service: UserService;
+
+  /** Moves the clock to the given number of seconds after `NOW`. */
+  const setTime = (seconds: number) =>
+    jest.spyOn(Date, 'now').mockReturnValue((NOW + seconds) * 1000);
+
+  beforeEach(() => {
+    process.env = { ...env };
+    for (const name of Object.keys(process.env)) {
+      if (name.startsWith('LOGIN_')) {
+        delete process.env[name];
+      }
+    }
+    setTime(0);
+
+    user = Object.assign(new UserEntity(), {
+      id: 4,
+      email: 'reader@example.com',
+      password,
+      status: Status.ACTIVE,
+      emailVerified: true,
+    });
+    session = Object.assign(new SessionEntity(), {
+      id: 'session-1',
+      userId: user.id,
+      expiresAt: NOW + 60,
+      revokedAt: null,
+    });
+    refreshTokens = [
+      Object.assign(new RefreshTokenEntity(), {
+        sessionId: session.id,
+        tokenHash: hashToken('first-token'),
+        expiresAt: NOW + 60,
+        rotatedAt: null,
+      }),
+    ];
+    loginFailures = [];
+    const findLoginFailure = ({
+      kind,
+      identifier,
+    }: Partial<LoginFailureEntity>) =>
+      loginFailures.find(
+        (record) => record.kind === kind && record.identifier === identifier,
+      );
+    manager = {
+      findOne: jest.fn(async (entity, { where }) => {
+        if (entity === RefreshTokenEntity) {
+          return refreshTokens.find(
+            (token) => token.tokenHash === where.tokenHash,
+          );
+        }
+        if (entity === LoginFailureEntity) {
+          return findLoginFailure(where);
+        }
+        return entity === SessionEntity ? session : user;
+      }),
+      find: jest.fn(async (entity, { where }) =>
+        where
+          .map(findLoginFailure)
+          .filter(
+            (record) =>
+              record && Number(record.lockedUntil) > Date.now() / 1000,
+          ),
+      ),
+      update: jest.fn(),
+      delete: jest.fn(async (entity, where) => {
+        loginFailures = loginFailures.filter(
+          (record) => record !== findLoginFailure(where),
+        );
+      }),
+      create: jest.fn((entity, values) => Object.assign(new entity(), values)),
+      save: jest.fn(async (entity) => {
+        if (
+          entity instanceof RefreshTokenEntity &&
+          !refreshTokens.includes(entity)
+        ) {
+          refreshTokens.push(entity);
+        }
+        return entity;
+      }),
+      createQueryBuilder: jest.fn(() => {
+        const insert = {
+          into: () => insert,
+          values: (values: Partial<LoginFailureEntity>) => {
+            if (!findLoginFailure(values)) {
+              loginFailures.push(
+                Object.assign(new LoginFailureEntity(), {
+                  failures: 0,
+                  lockouts: 0,
+                  lockedUntil: null,
+                  ...values,
+                }),
+              );
+            }
+            return insert;
+          },
+          orIgnore: () => insert,
+          execute: async () => undefined,
+        };
+        return { insert: () => insert };
+      }),
+    };
+    service = new UserService(
+      {
+        findOne: async ({ where }) =>
+          where.email === user.email ? user : null,
+        manager: {
+          ...manager,
+          transaction: async (work) => await work(manager),
+        },
+      } as unknown as Repository<UserEntity>,
+      {} as Repository<SessionEntity>,
+      {} as Mailer,
+    );
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.restoreAllMocks();
+  });
+
+  describe('signin', () => {
+    const ip = '203.0.113.9';
+
+    /** Signs in, expecting the given error. */
+    const expectSigninError = async (
+      email: string,
+      attempt: string,
+      error: Error,
+      from = ip,
+    ) =>
+      await expect(
+        service.signin({ email, password: attempt }, from),
+      ).rejects.toThrow(error);
+
+    const invalid = new BadRequestException('Invalid credentials');
+
+    it('signs a user in with the right password', async () => {
+      await expect(
+        service.signin({ email: user.email, password: 'correct horse' }, ip),
+      ).resolves.toBe(user);
+      expect(loginFailures).toEqual([]);
+    });
+
+    it('treats an unknown email like a wrong password', async () => {
+      await expectSigninError('nobody@example.com', 'correct horse', invalid);
+      await expectSigninError(user.email, 'wrong', invalid);
+
+      expect(loginFailures).toEqual([
+        expect.objectContaining({
+          kind: LoginFailureKind.ACCOUNT,
+          identifier: 'nobody@example.com',
+          failures: 1,
+        }),
+        expect.objectContaining({
+          kind: LoginFailureKind.IP,
+          identifier: ip,
+          failures: 2,
+        }),
+        expect.objectContaining({
+          kind: LoginFailureKind.ACCOUNT,
+          identifier: user.email,
+          failures: 1,
+        }),
+      ]);
+    });
+
+    it('locks the account out after too many failures, even with the right password', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await expectSigninError(user.email, 'wrong', invalid);
+      }
+
+      const lockout = service.signin(
+        { email: user.email, password: 'correct horse' },
+        '198.51.100.1',
+      );
+      await expect(lockout).rejects.toThrow(
+        'Too many failed sign-in attempts; try again in 60 seconds',
+      );
+      await expect(lockout).rejects.toMatchObject({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+      });
+
+      setTime(61);
+      await expect(
+        service.signin({ email: user.email, password: 'correct horse' }, ip),
+      ).resolves.toBe(user);
+    });
+
+    it('doubles the lockout each time the account is locked again', async () => {
+      for (let attempt = 0; attempt < 10; attempt++) {
+        setTime(attempt < 5 ? 0 : 61);
+        await expectSigninError(user.email, 'wrong', invalid);
+      }
+
+      setTime(62);
+      await expectSigninError(
+        user.email,
+        'correct horse',
+        new Error('Too many failed sign-in attempts; try again in 119 seconds'),
+      );
+    });
+
+    it('forgets failures after a quiet spell', async () => {
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await expectSigninError(user.email, 'wrong', invalid);
+      }
+
+      setTime(15 * 60 + 1);
+      await expectSigninError(user.email, 'wrong', invalid);
+
+      expect(loginFailures[0]).toMatchObject({
+        failures: 1,
+        lockedUntil: null,
+      });
+    });
+
+    it('clears the failures of an account once it signs in', async () => {
+      await expectSigninError(user.email, 'wrong', invalid);
+
+      await service.signin(
+        { email: user.email, password: 'correct horse' },
+        ip,
+      );
+
+      expect(loginFailures).toEqual([
+        expect.objectContaining({ kind: LoginFailureKind.IP, failures: 1 }),
+      ]);
+    });
+
+    it('locks an IP address out after failures across many accounts', async () => {
+      process.env.LOGIN_IP_MAX_FAILURES = '3';
+      for (const email of ['a@example.com', 'b@example.com', 'c@example.com']) {
+        await expectSigninError(email, 'guess', invalid);
+      }
+
+      await expectSigninError(
+        user.email,
+        'correct horse',
+        new Error('Too many failed sign-in attempts; try again in 60 seconds'),
+      );
+      await expect(
+        service.signin(
+          { email: user.email, password: 'correct horse' },
+          '198.51.100.1',
+        ),
+      ).resolves.toBe(user);
+    });
+  });
+
+  describe('refresh', () => {
+    it('exchanges a refresh token for new tokens on the same session', async () => {
+      const tokens = await service.refresh('first-token');
+
+      expect(tokens.refreshToken).not.toBe('first-token');
+      expect(decode(tokens.accessToken)).toMatchObject({
+        id: user.id,
+        email: user.email,
+        sid: session.id,
+      });
+      expect(refreshTokens).toEqual([
+        expect.objectContaining({ rotatedAt: NOW }),
+        expect.objectContaining({
+          sessionId: session.id,
+          tokenHash: hashToken(tokens.refreshToken),
+          expiresAt: NOW + refreshTokenTtl(),
+        }),
+      ]);
+      expect(session.expiresAt).toBe(NOW + refreshTokenTtl());
+    });
+
+    it('only lets each refresh token be used once', async () => {
+      const tokens = await service.refresh('first-token');
+
+      await expect(service.refresh('first-token')).rejects.toThrow(
+        new UnauthorizedException(
+          'Refresh token reuse detected; session revoked',
+        ),
+      );
+      expect(manager.update).toHaveBeenCalledWith(
+        SessionEntity,
+        expect.objectContaining({ id: session.id }),
+        { revokedAt: NOW },
+      );
+
+      session.revokedAt = NOW;
+      await expect(service.refresh(tokens.refreshToken)).rejects.toThrow(
+        new UnauthorizedException('Session expired or revoked'),
+      );
+    });
+
+    it('rejects an unknown refresh token', async () => {
+      await expect(service.refresh('made-up-token')).rejects.toThrow(
+        new UnauthorizedException('Invalid refresh token'),
+      );
+      expect(manager.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects an expired refresh token', async () => {
+      refreshTokens[0].expiresAt = NOW;
+
+      await expect(service.refresh('first-token')).rejects.toThrow(
+        new UnauthorizedException('Session expired or revoked'),
+      );
+      expect(refreshTokens[0].rotatedAt).toBeNull();
+    });
+
+    it('rejects the refresh tokens of a deactivated user', async () => {
+      user.status = Status.DEACTIVATED;
+
+      await expect(service.refresh('first-token')).rejects.toThrow(
+        new UnauthorizedException('User is Deactivated'),
+      );
+    });
+  });
+});
@@ -1,28 +1,78 @@
 import {
   BadRequestException,
+  Inject,
+  HttpException,
+  HttpStatus,
   Injectable,
+  Logger,
   NotFoundException,
+  UnauthorizedException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager, IsNull, MoreThan, Repository } from 'typeorm';
 import { UserEntity } from './entities/user.entity';
 import { UserSignupDto } from './dto/user-signup.dto';
 import { compare, hash } from 'bcrypt';
 import { UserSigninDto } from './dto/user-signin.dto';
+import { LoginFailureEntity } from './entities/login-failure.entity';
+import {
+  DUMMY_PASSWORD_HASH,
+  lockoutDuration,
+  loginThrottleConfig,
+} from './helpers/login-throttle';
 import * as dotenv from 'dotenv';
-import { sign } from 'jsonwebtoken';
+import { sign, verify } from 'jsonwebtoken';
 import { UserEditDto } from './dto/user-edit.dto';
-import { Status } from '../enum/user-enum';
+import { LoginFailureKind, Status } from '../enum/user-enum';
+import { RecoveryCodeEntity } from './entities/recovery-code.entity';
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  renderTotpQrCode,
+  totpUri,
+  verifyTotp,
+} from './helpers/totp';
+import {
+  isTwoFactorRequired,
+  TWO_FACTOR_CHALLENGE,
+  TWO_FACTOR_CHALLENGE_EXPIRE_TIME,
+} from './helpers/two-factor';
+import { TwoFactorEnrolment } from './interfaces/two-factor.interface';
+import { UserTwoFactorSigninDto } from './dto/user-two-factor-signin.dto';
 import { UserChangePasswordDto } from './dto/user-change-password.dto';
+import { assertVersion } from '../utility/helpers/etag';
+import { SessionEntity } from './entities/session.entity';
+import { RefreshTokenEntity } from './entities/refresh-token.entity';
+import { SessionTokens } from './interfaces/session-tokens.interface';
+import { activeSessionWhere, refreshTokenTtl } from './helpers/session';
+import { generateToken, hashToken } from './helpers/token';
+import { PasswordResetTokenEntity } from './entities/password-reset-token.entity';
+import { UserResetPasswordDto } from './dto/user-reset-password.dto';
+import { passwordResetText, passwordResetTtl } from './helpers/password-reset';
+import { Mailer, MAILER } from '../utility/mailer/mailer.interface';
+import { EmailVerificationTokenEntity } from './entities/email-verification-token.entity';
+import {
+  EMAIL_VERIFICATION_COOLDOWN,
+  EMAIL_VERIFICATION_DAILY_LIMIT,
+  emailVerificationText,
+  emailVerificationTtl,
+} from './helpers/email-verification';
 
 // Load environment variables from .env file
 dotenv.config();
 
 @Injectable()
 export class UserService {
+  private readonly logger = new Logger(UserService.name);
+
   constructor(
     @InjectRepository(UserEntity)
     private usersRepository: Repository<UserEntity>,
+    @InjectRepository(SessionEntity)
+    private sessionRepository: Repository<SessionEntity>,
+    @Inject(MAILER)
+    private readonly mailer: Mailer,
   ) {}
 
   /**
@@ -30,6 +80,7 @@ export class UserService {
    *
    * This method checks if a user already exists with the provided email. If a user is found, it throws a `BadRequestException`.
    * If the email is available, it hashes the user's password, assigns default values for `createdBy` and `updatedBy`, and saves the new user in the repository.
+   * The new user starts unverified, and a verification email is sent; they can sign in once they confirm their email.
    *
    * @param userSignupDto - An object containing the user's signup details, including email, password, and other required fields.
    * @returns A promise that resolves to the newly created user entity.
@@ -45,40 +96,368 @@ export class UserService {
     userSignupDto.updatedBy = 'Admin';
     userSignupDto.password = await hash(userSignupDto.password, 10);
 
-    const user = this.usersRepository.create(userSignupDto);
-    return await this.usersRepository.save(user);
+    const user = await this.usersRepository.save(
+      this.usersRepository.create({ ...userSignupDto, emailVerified: false }),
+    );
+    await this.sendVerificationEmail(user);
+    return user;
+  }
+
+  /**
+   * Sends a new verification email to the account with the given email, if it is still unverified.
+   *
+   * Emails to an account are at least a minute apart, and at most 5 are sent a day. Nothing is sent for unknown,
+   * verified or deactivated accounts, so the caller cannot tell them apart.
+   *
+   * @param email - The email address of the account.
+   * @returns A promise that resolves once the request has been handled.
+   *
+   * @throws HttpException - 429 Too Many Requests, if the account had a verification email too recently or too often today.
+   */
+  async resendVerification(email: string): Promise<void> {
+    const user = await this.findUserByEmail(email);
+    if (!user || user.emailVerified || user.status == Status.DEACTIVATED) {
+      return;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const recent = await this.usersRepository.manager.find(
+      EmailVerificationTokenEntity,
+      {
+        where: { userId: user.id, createdAt: MoreThan(now - 24 * 60 * 60) },
+        order: { createdAt: 'DESC' },
+      },
+    );
+    const wait = recent.length
+      ? Number(recent[0].createdAt) + EMAIL_VERIFICATION_COOLDOWN - now
+      : 0;
+    if (wait > 0) {
+      throw new HttpException(
+        `Please wait ${wait} seconds before requesting another verification email`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    if (recent.length >= EMAIL_VERIFICATION_DAILY_LIMIT) {
+      throw new HttpException(
+        'Too many verification emails today; please try again tomorrow',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    await this.sendVerificationEmail(user);
+  }
+
+  /**
+   * Confirms a user's email address with a verification token.
+   *
+   * @param token - The token from the verification email.
+   * @returns A promise that resolves to the verified user entity.
+   *
+   * @throws BadRequestException - If the token is unknown, expired or already used.
+   */
+  async verifyEmail(token: string): Promise<UserEntity> {
+    const now = Math.floor(Date.now() / 1000);
+    return await this.usersRepository.manager.transaction(async (manager) => {
+      const verificationToken = await manager.findOne(
+        EmailVerificationTokenEntity,
+        {
+          where: { tokenHash: hashToken(token) },
+          lock: { mode: 'pessimistic_write' },
+        },
+      );
+      if (
+        !verificationToken ||
+        verificationToken.usedAt ||
+        verificationToken.expiresAt <= now
+      ) {
+        throw new BadRequestException('Invalid or expired verification token');
+      }
+
+      return await this.markVerified(manager, verificationToken.userId);
+    });
+  }
+
+  /**
+   * Marks a user's email address as verified without a token, e.g. when an admin has confirmed it another way.
+   *
+   * @param id - The unique identifier of the user.
+   * @returns A promise that resolves to the verified user entity.
+   *
+   * @throws NotFoundException - If no user is found with the given ID.
+   */
+  async markEmailVerified(id: number): Promise<UserEntity> {
+    return await this.usersRepository.manager.transaction(async (manager) => {
+      if (!(await manager.exists(UserEntity, { where: { id } }))) {
+        throw new NotFoundException('User not found');
+      }
+      return await this.markVerified(manager, id);
+    });
   }
 
   /**
    * Authenticates a user during sign-in.
    *
-   * This method checks if a user exists with the provided email. If no user is found, it throws a `BadRequestException`.
-   * It also checks if the user's account is deactivated. If the account is deactivated, it throws a `BadRequestException`.
-   * Then, it validates the provided password against the stored hash. If the password is invalid, it throws a `BadRequestException`.
-   * If all checks pass, the user entity is returned.
+   * This method first checks that neither the email nor the IP address is locked out; if either is, it throws
+   * without checking the password. It then validates the provided password against the stored hash. An unknown email
+   * and a wrong password get the same `BadRequestException`, take about as long, and both count as a failure against
+   * the email and the IP address; enough failures lock them for a growing backoff period.
+   * Only once the password is valid does it check whether the account is deactivated or unverified.
+   * If all checks pass, the email's failures are cleared and the user entity is returned.
    *
    * @param userSigninDto - An object containing the user's sign-in credentials, including email and password.
+   * @param ip - The IP address the attempt comes from.
    * @returns A promise that resolves to the user entity if authentication is successful.
    *
-   * @throws BadRequestException - If the user is not found, the account is deactivated, or the password is invalid.
+   * @throws HttpException - 429 Too Many Requests, if the email or the IP address is locked out.
+   * @throws BadRequestException - If the credentials are invalid, the account is deactivated, or the email is not verified yet.
    */
-  async signin(userSigninDto: UserSigninDto): Promise<UserEntity> {
-    const userExist = await this.findUserByEmail(userSigninDto.email);
-    if (!userExist) throw new BadRequestException('User not found');
-
-    if (userExist.status == Status.DEACTIVATED)
-      throw new BadRequestException('User is Deactivated');
+  async signin(userSigninDto: UserSigninDto, ip: string): Promise<UserEntity> {
+    const email = userSigninDto.email.toLowerCase();
+    await this.assertNotLockedOut(email, ip);
 
+    const userExist = await this.findUserByEmail(userSigninDto.email);
     const isPasswordValid = await compare(
       userSigninDto.password,
-      userExist.password,
+      userExist?.password ?? DUMMY_PASSWORD_HASH,
     );
-    if (!isPasswordValid) {
+    if (!userExist || !isPasswordValid) {
+      await this.recordLoginFailure(LoginFailureKind.ACCOUNT, email);
+      await this.recordLoginFailure(LoginFailureKind.IP, ip);
       throw new BadRequestException('Invalid credentials');
     }
+    await this.usersRepository.manager.delete(LoginFailureEntity, {
+      kind: LoginFailureKind.ACCOUNT,
+      identifier: email,
+    });
+
+    if (userExist.status == Status.DEACTIVATED)
+      throw new BadRequestException('User is Deactivated');
+
+    if (!userExist.emailVerified)
+      throw new BadRequestException('Email is not verified');
     return userExist;
   }
 
+  /**
+   * Issues the short-lived token that carries a sign-in from the password step to the code step, for users
+   * with two-factor authentication enabled. It is not an access token, so it opens no other endpoint.
+   *
+   * @param user - The user who has given the right password.
+   * @returns A promise that resolves to the challenge token, valid for 5 minutes.
+   */
+  async twoFactorChallenge(user: UserEntity): Promise<string> {
+    return sign(
+      { id: user.id, purpose: TWO_FACTOR_CHALLENGE },
+      this.tokenSecret(),
+      { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRE_TIME },
+    );
+  }
+
+  /**
+   * Finishes a two-factor sign-in with a TOTP code or a recovery code.
+   *
+   * Wrong codes count as failed sign-in attempts, so the email and IP address are locked out like after wrong
+   * passwords.
+   *
+   * @param userTwoFactorSigninDto - An object containing the challenge token from the password step and the code.
+   * @param ip - The IP address the attempt comes from.
+   * @returns A promise that resolves to the user entity if the code is valid.
+   *
+   * @throws UnauthorizedException - If the challenge token is invalid or expired.
+   * @throws HttpException - 429 Too Many Requests, if the email or the IP address is locked out.
+   * @throws BadRequestException - If the code is invalid, or the account has been deactivated meanwhile.
+   */
+  async signinTwoFactor(
+    userTwoFactorSigninDto: UserTwoFactorSigninDto,
+    ip: string,
+  ): Promise<UserEntity> {
+    let payload: { id: number; purpose: string };
+    try {
+      payload = verify(
+        userTwoFactorSigninDto.challengeToken,
+        this.tokenSecret(),
+      ) as { id: number; purpose: string };
+    } catch {
+      throw new UnauthorizedException('Invalid or expired sign-in challenge');
+    }
+    if (payload.purpose !== TWO_FACTOR_CHALLENGE) {
+      throw new UnauthorizedException('Invalid or expired sign-in challenge');
+    }
+
+    const user = await this.findUserWithTotp(payload.id);
+    if (!user?.totpEnabled) {
+      throw new UnauthorizedException('Invalid or expired sign-in challenge');
+    }
+    const email = user.email.toLowerCase();
+    await this.assertNotLockedOut(email, ip);
+    if (!(await this.checkSecondFactor(user, userTwoFactorSigninDto.code))) {
+      await this.recordLoginFailure(LoginFailureKind.ACCOUNT, email);
+      await this.recordLoginFailure(LoginFailureKind.IP, ip);
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    if (user.status == Status.DEACTIVATED)
+      throw new BadRequestException('User is Deactivated');
+    return await this.findOne(user.id);
+  }
+
+  /**
+   * Starts two-factor enrolment by generating a new TOTP secret for the user.
+   *
+   * Two-factor authentication only takes effect once a first code confirms the secret, so starting over
+   * simply replaces an unconfirmed secret.
+   *
+   * @param currentUser - The authenticated user.
+   * @returns A promise that resolves to the secret, its provisioning URI and the URI as a QR code.
+   *
+   * @throws BadRequestException - If two-factor authentication is already enabled.
+   */
+  async enrollTwoFactor(currentUser: UserEntity): Promise<TwoFactorEnrolment> {
+    if (currentUser.totpEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.usersRepository.update(currentUser.id, {
+      totpSecret: secret,
+      totpLastUsedStep: null,
+    });
+    const otpauthUri = totpUri(secret, currentUser.email);
+    return { secret, otpauthUri, qrCode: await renderTotpQrCode(otpauthUri) };
+  }
+
+  /**
+   * Confirms two-factor enrolment with a first code from the authenticator app, which enables it.
+   *
+   * @param currentUser - The authenticated user.
+   * @param code - A TOTP code for the secret issued at enrolment.
+   * @returns A promise that resolves to the one-time recovery codes, which are only ever shown here.
+   *
+   * @throws BadRequestException - If two-factor authentication is already enabled, enrolment has not been started,
+   * or the code is invalid.
+   */
+  async confirmTwoFactor(
+    currentUser: UserEntity,
+    code: string,
+  ): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.findUserWithTotp(currentUser.id);
+    if (user.totpEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!user.totpSecret) {
+      throw new BadRequestException('Start two-factor enrolment first');
+    }
+    const step = verifyTotp(user.totpSecret, code);
+    if (step === null) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    return await this.usersRepository.manager.transaction(async (manager) => {
+      await manager.update(UserEntity, user.id, {
+        totpEnabled: true,
+        totpLastUsedStep: step,
+      });
+      return { recoveryCodes: await this.issueRecoveryCodes(manager, user.id) };
+    });
+  }
+
+  /**
+   * Replaces the user's recovery codes with a new set, e.g. when most have been used.
+   *
+   * @param currentUser - The authenticated user.
+   * @param code - A TOTP code or an unused recovery code, to confirm it is the user asking.
+   * @returns A promise that resolves to the new recovery codes; the old ones stop working.
+   *
+   * @throws BadRequestException - If two-factor authentication is not enabled, or the code is invalid.
+   */
+  async regenerateRecoveryCodes(
+    currentUser: UserEntity,
+    code: string,
+  ): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.findUserWithTotp(currentUser.id);
+    if (!user.totpEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!(await this.checkSecondFactor(user, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    return await this.usersRepository.manager.transaction(async (manager) => ({
+      recoveryCodes: await this.issueRecoveryCodes(manager, user.id),
+    }));
+  }
+
+  /**
+   * Turns two-factor authentication off and removes the secret and recovery codes.
+   *
+   * @param currentUser - The authenticated user.
+   * @param code - A TOTP code or an unused recovery code, to confirm it is the user asking.
+   * @returns A promise that resolves to `true` once two-factor authentication is off.
+   *
+   * @throws BadRequestException - If two-factor authentication is not enabled, is required for the user, or the code is invalid.
+   */
+  async disableTwoFactor(
+    currentUser: UserEntity,
+    code: string,
+  ): Promise<boolean> {
+    const user = await this.findUserWithTotp(currentUser.id);
+    if (!user.totpEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (isTwoFactorRequired(user)) {
+      throw new BadRequestException(
+        'Two-factor authentication is required for admins',
+      );
+    }
+    if (!(await this.checkSecondFactor(user, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    await this.usersRepository.manager.transaction(async (manager) => {
+      await manager.update(UserEntity, user.id, {
+        totpEnabled: false,
+        totpSecret: null,
+        totpLastUsedStep: null,
+      });
+      await manager.delete(RecoveryCodeEntity, { userId: user.id });
+    });
+    return true;
+  }
+
+  /**
+   * Lists the emails and IP addresses currently locked out of signing in, latest lockout first.
+   *
+   * @returns A promise that resolves to the active lockouts.
+   */
+  async findLockouts(): Promise<LoginFailureEntity[]> {
+    return await this.usersRepository.manager.find(LoginFailureEntity, {
+      where: { lockedUntil: MoreThan(Math.floor(Date.now() / 1000)) },
+      order: { lockedUntil: 'DESC' },
+    });
+  }
+
+  /**
+   * Clears the failed attempts and any lockout of an email or IP address, so it can sign in again at once.
+   *
+   * @param id - The unique identifier of the lockout record.
+   * @returns A promise that resolves to `true` if the record was cleared.
+   *
+   * @throws NotFoundException - If no lockout record is found with the given ID.
+   */
+  async clearLockout(id: string): Promise<boolean> {
+    const response = await this.usersRepository.manager.delete(
+      LoginFailureEntity,
+      { id },
+    );
+    if (!response.affected) {
+      throw new NotFoundException('Lockout not found');
+    }
+    return true;
+  }
+
   /**
    * Changes the user's password.
    *
@@ -115,6 +494,98 @@ export class UserService {
     return await this.usersRepository.save(userExist);
   }
 
+  /**
+   * Starts a password reset for the account with the given email.
+   *
+   * This method issues a single-use reset token, which expires after `PASSWORD_RESET_EXPIRE_MINUTES` (60 by default),
+   * stores it hashed, and emails it to the user. Any earlier token of the user stops working.
+   * Nothing is sent for unknown or deactivated accounts, and delivery failures are only logged, so the caller
+   * cannot tell whether the email is registered.
+   *
+   * @param email - The email address of the account.
+   * @returns A promise that resolves once the request has been handled.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.findUserByEmail(email);
+    if (!user || user.status == Status.DEACTIVATED) {
+      return;
+    }
+
+    const token = generateToken();
+    const now = Math.floor(Date.now() / 1000);
+    await this.usersRepository.manager.transaction(async (manager) => {
+      await manager.update(
+        PasswordResetTokenEntity,
+        { userId: user.id, usedAt: IsNull() },
+        { usedAt: now },
+      );
+      await manager.save(
+        manager.create(PasswordResetTokenEntity, {
+          userId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt: now + passwordResetTtl(),
+        }),
+      );
+    });
+
+    try {
+      await this.mailer.send({
+        to: user.email,
+        subject: 'Reset your password',
+        text: passwordResetText(user.name, token),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send the password reset email to user ${user.id}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  /**
+   * Sets a new password using a reset token.
+   *
+   * The token is used up, and all of the user's sessions are revoked, since whoever knew the old password
+   * may still be signed in. Receiving the token proves the user owns the email, so it is marked verified too.
+   *
+   * @param userResetPasswordDto - An object containing the reset token and the new password.
+   * @returns A promise that resolves to the updated user entity.
+   *
+   * @throws BadRequestException - If the token is unknown, expired or already used, or the account is deactivated.
+   */
+  async resetPassword(
+    userResetPasswordDto: UserResetPasswordDto,
+  ): Promise<UserEntity> {
+    const now = Math.floor(Date.now() / 1000);
+    return await this.usersRepository.manager.transaction(async (manager) => {
+      const resetToken = await manager.findOne(PasswordResetTokenEntity, {
+        where: { tokenHash: hashToken(userResetPasswordDto.token) },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= now) {
+        throw new BadRequestException('Invalid or expired reset token');
+      }
+
+      const user = await manager.findOne(UserEntity, {
+        where: { id: resetToken.userId },
+      });
+      if (user.status == Status.DEACTIVATED)
+        throw new BadRequestException('User is Deactivated');
+
+      resetToken.usedAt = now;
+      await manager.save(resetToken);
+      user.password = await hash(userResetPasswordDto.newPassword, 10);
+      user.emailVerified = true;
+      await manager.save(user);
+      await manager.update(
+        SessionEntity,
+        { userId: user.id, revokedAt: IsNull() },
+        { revokedAt: now },
+      );
+      return await manager.findOne(UserEntity, { where: { id: user.id } });
+    });
+  }
+
   /**
    * Retrieves a user by their email address.
    *
@@ -134,6 +605,8 @@ export class UserService {
         'password',
         'role',
         'status',
+        'emailVerified',
+        'totpEnabled',
         'createdAt',
         'updatedAt',
         'createdBy',
@@ -143,33 +616,171 @@ export class UserService {
   }
 
   /**
-   * Generates an access token for the user.
+   * Starts a new session for a signed-in user.
    *
-   * This method creates a JWT (JSON Web Token) containing the user's `id` and `email`, signed with a secret key.
-   * If the `ACCESS_TOKEN_SECRET_KEY` is not defined in the environment variables, it throws an error.
-   * The token's expiration time is configurable via the `ACCESS_TOKEN_EXPIRE_TIME` environment variable (default is 1 hour).
+   * This method creates the session and its first refresh token, which is stored hashed, and signs an access
+   * token bound to the session.
    *
-   * @param user - The user entity for which the access token is generated.
-   * @returns A promise that resolves to the generated JWT access token.
+   * @param user - The authenticated user.
+   * @returns A promise that resolves to the access token and the refresh token.
+   */
+  async createSession(user: UserEntity): Promise<SessionTokens> {
+    const refreshToken = generateToken();
+    const expiresAt = Math.floor(Date.now() / 1000) + refreshTokenTtl();
+    const session = await this.usersRepository.manager.transaction(
+      async (manager) => {
+        const session = await manager.save(
+          manager.create(SessionEntity, { userId: user.id, expiresAt }),
+        );
+        await manager.save(
+          manager.create(RefreshTokenEntity, {
+            sessionId: session.id,
+            tokenHash: hashToken(refreshToken),
+            expiresAt,
+          }),
+        );
+        return session;
+      },
+    );
+
+    return {
+      accessToken: await this.accessToken(user, session.id),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token and refresh token.
+   *
+   * Each refresh token works only once. Presenting one that was already exchanged means it has leaked,
+   * so the whole session is revoked, cutting off whoever holds the newer tokens as well.
    *
-   * @throws Error - If the `ACCESS_TOKEN_SECRET_KEY` is not defined in the environment variables.
+   * @param refreshToken - The refresh token.
+   * @returns A promise that resolves to the new access token and refresh token.
+   *
+   * @throws UnauthorizedException - If the token is unknown, expired or already used, the session is revoked,
+   * or the user is deactivated.
    */
-  async accessToken(user: UserEntity): Promise<string> {
-    const secretKey =
-      process.env.ACCESS_TOKEN_SECRET_KEY ||
-      'likujyhtgrfedwsedrftgyhujikolplokijuhygtrfedwsedrftghyujikolpplokijuhy';
-    if (!secretKey) {
-      throw new Error(
-        'ACCESS_TOKEN_SECRET_KEY is not defined in the environment variables',
+  async refresh(refreshToken: string): Promise<SessionTokens> {
+    const now = Math.floor(Date.now() / 1000);
+    const rotated = await this.usersRepository.manager.transaction(
+      async (manager) => {
+        const token = await manager.findOne(RefreshTokenEntity, {
+          where: { tokenHash: hashToken(refreshToken) },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!token) {
+          throw new UnauthorizedException('Invalid refresh token');
+        }
+        if (token.rotatedAt) {
+          await manager.update(
+            SessionEntity,
+            { id: token.sessionId, revokedAt: IsNull() },
+            { revokedAt: now },
+          );
+          return null;
+        }
+
+        const session = await manager.findOne(SessionEntity, {
+          where: { id: token.sessionId },
+        });
+        if (session.revokedAt || token.expiresAt <= now) {
+          throw new UnauthorizedException('Session expired or revoked');
+        }
+        const user = await manager.findOne(UserEntity, {
+          where: { id: session.userId },
+        });
+        if (user.status == Status.DEACTIVATED) {
+          throw new UnauthorizedException('User is Deactivated');
+        }
+
+        const newToken = generateToken();
+        const expiresAt = now + refreshTokenTtl();
+        token.rotatedAt = now;
+        await manager.save(token);
+        await manager.save(
+          manager.create(RefreshTokenEntity, {
+            sessionId: session.id,
+            tokenHash: hashToken(newToken),
+            expiresAt,
+          }),
+        );
+        session.expiresAt = expiresAt;
+        await manager.save(session);
+        return { user, session, refreshToken: newToken };
+      },
+    );
+
+    if (!rotated) {
+      throw new UnauthorizedException(
+        'Refresh token reuse detected; session revoked',
       );
     }
+    return {
+      accessToken: await this.accessToken(rotated.user, rotated.session.id),
+      refreshToken: rotated.refreshToken,
+    };
+  }
+
+  /**
+   * Checks whether a session is still usable: neither revoked (by logout, token reuse or deactivation) nor expired.
+   *
+   * @param sessionId - The unique identifier of the session.
+   * @returns A promise that resolves to `true` if the session is active.
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    return await this.sessionRepository.exists({
+      where: activeSessionWhere(sessionId),
+    });
+  }
+
+  /**
+   * Revokes a session, logging it out. Its access tokens and refresh tokens stop working immediately.
+   *
+   * @param sessionId - The unique identifier of the session.
+   * @returns A promise that resolves to `true` if the session was active and is now revoked, otherwise `false`.
+   */
+  async revokeSession(sessionId: string): Promise<boolean> {
+    const response = await this.sessionRepository.update(
+      { id: sessionId, revokedAt: IsNull() },
+      { revokedAt: Math.floor(Date.now() / 1000) },
+    );
+    return !!response.affected;
+  }
 
+  /**
+   * Revokes every session of a user, logging them out everywhere.
+   *
+   * @param userId - The unique identifier of the user.
+   * @returns A promise that resolves to the number of sessions revoked.
+   */
+  async revokeAllSessions(userId: number): Promise<number> {
+    const response = await this.sessionRepository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: Math.floor(Date.now() / 1000) },
+    );
+    return response.affected ?? 0;
+  }
+
+  /**
+   * Generates an access token for the user.
+   *
+   * This method creates a JWT (JSON Web Token) containing the user's `id`, `email` and session ID (`sid`), signed with a secret key.
+   * If the `ACCESS_TOKEN_SECRET_KEY` is not defined in the environment variables, a development fallback key is used.
+   * The token's expiration time is configurable via the `ACCESS_TOKEN_EXPIRE_TIME` environment variable (default is 1 hour).
+   *
+   * @param user - The user entity for which the access token is generated.
+   * @param sessionId - The session the token belongs to; the token stops working once the session is revoked.
+   * @returns A promise that resolves to the generated JWT access token.
+   */
+  async accessToken(user: UserEntity, sessionId: string): Promise<string> {
     return sign(
       {
         id: user.id,
         email: user.email,
+        sid: sessionId,
       },
-      secretKey,
+      this.tokenSecret(),
       { expiresIn: process.env.ACCESS_TOKEN_EXPIRE_TIME || '1h' },
     );
   }
@@ -210,26 +821,45 @@ export class UserService {
    * This method retrieves a user by their ID and updates their details with the values from `userEditDto`.
    * If no user is found with the provided ID, a `NotFoundException` is thrown.
    * The `password` field remains unchanged unless explicitly provided, and the status is updated if specified in `userEditDto`.
+   * When an expected version is given, it is checked while the user row is locked, so concurrent edits cannot
+   * silently overwrite each other. Deactivating a user revokes all of their sessions.
    *
    * @param id - The unique identifier of the user to update.
    * @param userEditDto - An object containing the fields to update in the user entity.
+   * @param expectedVersion - (Optional) The version the client last read.
    * @returns A promise that resolves to the updated user entity.
    *
    * @throws NotFoundException - If no user is found with the given ID.
+   * @throws PreconditionFailedException - If the user is no longer at the expected version.
    */
-  async update(id: number, userEditDto: UserEditDto): Promise<UserEntity> {
-    const user = await this.usersRepository.findOne({
-      where: { id },
-    });
+  async update(
+    id: number,
+    userEditDto: UserEditDto,
+    expectedVersion?: number,
+  ): Promise<UserEntity> {
+    return await this.usersRepository.manager.transaction(async (manager) => {
+      const user = await manager.findOne(UserEntity, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
 
-    if (!user) {
-      throw new NotFoundException('User not found');
-    }
-    Object.assign(user, userEditDto, {
-      password: user.password,
-      status: userEditDto.status || user.status,
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+      assertVersion('User', user.version, expectedVersion);
+      Object.assign(user, userEditDto, {
+        password: user.password,
+        status: userEditDto.status || user.status,
+      });
+      if (user.status == Status.DEACTIVATED) {
+        await manager.update(
+          SessionEntity,
+          { userId: id, revokedAt: IsNull() },
+          { revokedAt: Math.floor(Date.now() / 1000) },
+        );
+      }
+      return await manager.save(user);
     });
-    return await this.usersRepository.save(user);
   }
 
   /**
@@ -245,4 +875,255 @@ export class UserService {
     const response = await this.usersRepository.delete({ id: id });
     return !!response;
   }
+
+  /**
+   * Issues a verification token to a user and emails it. Any earlier token of the user stops working.
+   *
+   * Delivery failures are only logged; the user can ask for another email.
+   *
+   * @param user - The unverified user.
+   * @returns A promise that resolves once the email has been handed off.
+   */
+  private async sendVerificationEmail(user: UserEntity): Promise<void> {
+    const token = generateToken();
+    const now = Math.floor(Date.now() / 1000);
+    await this.usersRepository.manager.transaction(async (manager) => {
+      await manager.update(
+        EmailVerificationTokenEntity,
+        { userId: user.id, usedAt: IsNull() },
+        { usedAt: now },
+      );
+      await manager.save(
+        manager.create(EmailVerificationTokenEntity, {
+          userId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt: now + emailVerificationTtl(),
+        }),
+      );
+    });
+
+    try {
+      await this.mailer.send({
+        to: user.email,
+        subject: 'Confirm your email address',
+        text: emailVerificationText(user.name, token),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send the verification email to user ${user.id}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  /**
+   * Marks a user's email as verified and uses up their outstanding verification tokens.
+   *
+   * @param manager - The entity manager of the surrounding transaction.
+   * @param userId - The unique identifier of the user.
+   * @returns A promise that resolves to the verified user entity.
+   */
+  private async markVerified(
+    manager: EntityManager,
+    userId: number,
+  ): Promise<UserEntity> {
+    const user = await manager.findOne(UserEntity, {
+      where: { id: userId },
+    });
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      await manager.save(user);
+    }
+    await manager.update(
+      EmailVerificationTokenEntity,
+      { userId, usedAt: IsNull() },
+      { usedAt: Math.floor(Date.now() / 1000) },
+    );
+    return user;
+  }
+
+  /**
+   * Refuses a sign-in attempt while the email or the IP address it comes from is locked out.
+   *
+   * @param email - The lower-cased email.
+   * @param ip - The IP address.
+   * @returns A promise that resolves if neither is locked out.
+   *
+   * @throws HttpException - 429 Too Many Requests, saying how long the lockout still lasts.
+   */
+  private async assertNotLockedOut(email: string, ip: string): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    const lockouts = await this.usersRepository.manager.find(
+      LoginFailureEntity,
+      {
+        where: [
+          {
+            kind: LoginFailureKind.ACCOUNT,
+            identifier: email,
+            lockedUntil: MoreThan(now),
+          },
+          {
+            kind: LoginFailureKind.IP,
+            identifier: ip,
+            lockedUntil: MoreThan(now),
+          },
+        ],
+      },
+    );
+    if (lockouts.length) {
+      const wait =
+        Math.max(...lockouts.map(({ lockedUntil }) => Number(lockedUntil))) -
+        now;
+      throw new HttpException(
+        `Too many failed sign-in attempts; try again in ${wait} seconds`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Counts a failed sign-in attempt against an email or an IP address, locking it out once it reaches its
+   * threshold. Failures are forgotten after a quiet spell, and earlier lockouts after a day.
+   *
+   * @param kind - Whether the identifier is an email or an IP address.
+   * @param identifier - The lower-cased email or the IP address.
+   * @returns A promise that resolves once the failure is recorded.
+   */
+  private async recordLoginFailure(
+    kind: LoginFailureKind,
+    identifier: string,
+  ): Promise<void> {
+    const config = loginThrottleConfig();
+    const now = Math.floor(Date.now() / 1000);
+    await this.usersRepository.manager.transaction(async (manager) => {
+      await manager
+        .createQueryBuilder()
+        .insert()
+        .into(LoginFailureEntity)
+        .values({ kind, identifier, lastFailureAt: now })
+        .orIgnore()
+        .execute();
+      const record = await manager.findOne(LoginFailureEntity, {
+        where: { kind, identifier },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const idle = now - Number(record.lastFailureAt);
+      if (idle > config.failureWindowSeconds) {
+        record.failures = 0;
+      }
+      if (idle > 24 * 60 * 60) {
+        record.lockouts = 0;
+      }
+      record.failures += 1;
+      record.lastFailureAt = now;
+      const maxFailures =
+        kind === LoginFailureKind.ACCOUNT
+          ? config.maxAccountFailures
+          : config.maxIpFailures;
+      if (record.failures >= maxFailures) {
+        record.failures = 0;
+        record.lockouts += 1;
+        record.lockedUntil = now + lockoutDuration(record.lockouts, config);
+      }
+      await manager.save(record);
+    });
+  }
+
+  /**
+   * Returns the key access tokens and sign-in challenges are signed with.
+   *
+   * @returns The `ACCESS_TOKEN_SECRET_KEY` environment variable, or a development fallback.
+   */
+  private tokenSecret(): string {
+    return (
+      process.env.ACCESS_TOKEN_SECRET_KEY ||
+      'likujyhtgrfedwsedrftgyhujikolplokijuhygtrfedwsedrftghyujikolpplokijuhy'
+    );
+  }
+
+  /**
+   * Retrieves a user together with their TOTP secret and last used time step, which are not selected by default.
+   *
+   * @param id - The unique identifier of the user.
+   * @returns A promise that resolves to the user entity, or `null` if none is found.
+   */
+  private async findUserWithTotp(id: number): Promise<UserEntity | null> {
+    return await this.usersRepository
+      .createQueryBuilder('user')
+      .addSelect(['user.totpSecret', 'user.totpLastUsedStep'])
+      .where('user.id = :id', { id })
+      .getOne();
+  }
+
+  /**
+   * Checks a second-factor code: a TOTP code, or failing that an unused recovery code, which is used up.
+   *
+   * Accepted TOTP codes are recorded by time step in the same statement that checks it, so a code cannot be
+   * used twice, even by concurrent requests.
+   *
+   * @param user - The user, with their TOTP secret and last used time step.
+   * @param code - The code entered by the user.
+   * @returns A promise that resolves to `true` if the code is valid.
+   */
+  private async checkSecondFactor(
+    user: UserEntity,
+    code: string,
+  ): Promise<boolean> {
+    const step = verifyTotp(
+      user.totpSecret,
+      code,
+      user.totpLastUsedStep === null ? null : Number(user.totpLastUsedStep),
+    );
+    if (step !== null) {
+      const response = await this.usersRepository
+        .createQueryBuilder()
+        .update(UserEntity)
+        .set({ totpLastUsedStep: step })
+        .where('id = :id', { id: user.id })
+        .andWhere(
+          '("totpLastUsedStep" IS NULL OR "totpLastUsedStep" < :step)',
+          {
+            step,
+          },
+        )
+        .execute();
+      return !!response.affected;
+    }
+
+    const response = await this.usersRepository.manager.update(
+      RecoveryCodeEntity,
+      {
+        userId: user.id,
+        codeHash: hashToken(normalizeRecoveryCode(code)),
+        usedAt: IsNull(),
+      },
+      { usedAt: Math.floor(Date.now() / 1000) },
+    );
+    return !!response.affected;
+  }
+
+  /**
+   * Replaces a user's recovery codes with a new set.
+   *
+   * @param manager - The entity manager of the surrounding transaction.
+   * @param userId - The unique identifier of the user.
+   * @returns A promise that resolves to the new codes.
+   */
+  private async issueRecoveryCodes(
+    manager: EntityManager,
+    userId: number,
+  ): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+    await manager.delete(RecoveryCodeEntity, { userId });
+    await manager.save(
+      recoveryCodes.map((code) =>
+        manager.create(RecoveryCodeEntity, {
+          userId,
+          codeHash: hashToken(normalizeRecoveryCode(code)),
+        }),
+      ),
+    );
+    return recoveryCodes;
+  }
 }
@@ -0,0 +1,22 @@
+import { AuthorEntity } from '../../author/entities/author.entity';
+import { GenreEntity } from '../../genre/entities/genre.entity';
+
+/** A name credited on books: an author or a genre. */
+export type CreditEntity = AuthorEntity | GenreEntity;
+
+/** The fields every author or genre request carries. */
+export interface CreditDto {
+  name: string;
+}
+
+/** Describes how one kind of credit is stored and named. */
+export interface CreditKind {
+  /** Query alias and book column of the credit; books link to it through the `<alias>s` relation. */
+  alias: 'author' | 'genre';
+
+  /** Join table between books and the credit, keyed by `bookId` and `<alias>Id`. */
+  joinTable: string;
+
+  /** The credit with its indefinite article, for error messages, e.g. `An author`. */
+  article: string;
+}
@@ -0,0 +1,204 @@
+import {
+  Body,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  Type,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../guards/authentication-guard';
+import { Roles } from '../decorators/role-decorator';
+import { RoleTypes } from '../../enum/user-enum';
+import { CurrentUser } from '../decorators/current-user-decorator';
+import { UserEntity } from '../../user/entities/user.entity';
+import { BookEntity } from '../../book/entities/book.entity';
+import { MergeDto } from '../dto/merge.dto';
+import { PaginationQueryDto } from '../dto/pagination-query.dto';
+import { PaginatedResult } from '../interfaces/paginated-result.interface';
+import { CreditService } from './credit.service';
+import { CreditDto, CreditEntity } from './credit-kind.interface';
+
+/**
+ * Builds the base class of the author and genre controllers, which share their endpoints.
+ *
+ * The request body type is erased from generic handlers, so the body is validated against the
+ * given DTO class explicitly.
+ *
+ * @param creditDto - The DTO class of create and update requests.
+ * @returns The controller base class; the subclass adds `@Controller()` and injects its service.
+ */
+export function CreditController<T extends CreditEntity, D extends CreditDto>(
+  creditDto: Type<D>,
+) {
+  const validateBody = new ValidationPipe({
+    whitelist: true,
+    expectedType: creditDto,
+  });
+
+  abstract class BaseCreditController {
+    constructor(readonly creditService: CreditService<T, D>) {}
+
+    /**
+     * Creates a new author or genre.
+     *
+     * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+     *
+     * @param body - An object containing the name and optional details of the author or genre.
+     * @param currentUser - The currently authenticated user.
+     * @returns A promise that resolves to the created author or genre.
+     *
+     * @throws BadRequestException - If one with the same name already exists.
+     * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+     */
+    @Post()
+    @UseGuards(JwtAuthGuard)
+    @Roles(RoleTypes.ADMIN)
+    async create(
+      @Body(validateBody) body: D,
+      @CurrentUser() currentUser: UserEntity,
+    ): Promise<T> {
+      return await this.creditService.create(body, currentUser);
+    }
+
+    /**
+     * Retrieves a page of authors or genres, sorted by name.
+     *
+     * This endpoint is protected by the `JwtAuthGuard` and requires the user to have either the `USER` or `ADMIN` role.
+     *
+     * @param name - (Optional) Filter by name. Supports partial matches.
+     * @param paginationQueryDto - (Optional) `page` and `limit` query parameters.
+     * @returns A promise that resolves to a page of authors or genres.
+     *
+     * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+     */
+    @Get()
+    @UseGuards(JwtAuthGuard)
+    @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+    async findAll(
+      @Query('name') name: string,
+      @Query() paginationQueryDto: PaginationQueryDto,
+    ): Promise<PaginatedResult<T>> {
+      return await this.creditService.findAll(name, paginationQueryDto);
+    }
+
+    /**
+     * Retrieves a single author or genre by its ID.
+     *
+     * This endpoint is protected by the `JwtAuthGuard` and requires the user to have either the `USER` or `ADMIN` role.
+     *
+     * @param id - The unique identifier of the author or genre.
+     * @returns A promise that resolves to the author or genre.
+     *
+     * @throws NotFoundException - If none is found with the given ID.
+     * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+     */
+    @Get(':id')
+    @UseGuards(JwtAuthGuard)
+    @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+    async findOne(@Param('id', ParseIntPipe) id: number): Promise<T> {
+      return await this.creditService.findOne(id);
+    }
+
+    /**
+     * Retrieves a page of the books credited to an author or tagged with a genre, sorted by title.
+     *
+     * This endpoint is protected by the `JwtAuthGuard` and requires the user to have either the `USER` or `ADMIN` role.
+     *
+     * @param id - The unique identifier of the author or genre.
+     * @param paginationQueryDto - (Optional) `page` and `limit` query parameters.
+     * @returns A promise that resolves to a page of books.
+     *
+     * @throws NotFoundException - If no author or genre is found with the given ID.
+     * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+     */
+    @Get(':id/books')
+    @UseGuards(JwtAuthGuard)
+    @Roles(RoleTypes.USER, RoleTypes.ADMIN)
+    async findBooks(
+      @Param('id', ParseIntPipe) id: number,
+      @Query() paginationQueryDto: PaginationQueryDto,
+    ): Promise<PaginatedResult<BookEntity>> {
+      return await this.creditService.findBooks(id, paginationQueryDto);
+    }
+
+    /**
+     * Updates an author or genre. Renaming it also renames it on every book it is credited on.
+     *
+     * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+     *
+     * @param id - The unique identifier of the author or genre.
+     * @param body - An object containing the new name and optional details.
+     * @param currentUser - The currently authenticated user.
+     * @returns A promise that resolves to the updated author or genre.
+     *
+     * @throws NotFoundException - If none is found with the given ID.
+     * @throws BadRequestException - If another one already has the new name.
+     * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+     */
+    @Patch(':id')
+    @UseGuards(JwtAuthGuard)
+    @Roles(RoleTypes.ADMIN)
+    async update(
+      @Param('id', ParseIntPipe) id: number,
+      @Body(validateBody) body: D,
+      @CurrentUser() currentUser: UserEntity,
+    ): Promise<T> {
+      return await this.creditService.update(id, body, currentUser);
+    }
+
+    /**
+     * Merges duplicate authors or genres into this one, moving their books over and deleting them.
+     *
+     * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+     *
+     * @param id - The unique identifier of the author or genre to keep.
+     * @param mergeDto - An object containing the IDs of the ones to merge into it.
+     * @param currentUser - The currently authenticated user.
+     * @returns A promise that resolves to the kept author or genre.
+     *
+     * @throws NotFoundException - If the kept one or one of the sources is not found.
+     * @throws BadRequestException - If the kept one is listed as one of its own sources.
+     * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+     */
+    @Post(':id/merge')
+    @UseGuards(JwtAuthGuard)
+    @Roles(RoleTypes.ADMIN)
+    async merge(
+      @Param('id', ParseIntPipe) id: number,
+      @Body() mergeDto: MergeDto,
+      @CurrentUser() currentUser: UserEntity,
+    ): Promise<T> {
+      return await this.creditService.merge(
+        id,
+        mergeDto.sourceIds,
+        currentUser,
+      );
+    }
+
+    /**
+     * Deletes an author or genre that is not credited on any book.
+     *
+     * This endpoint is protected by the `JwtAuthGuard` and requires the user to have the `ADMIN` role.
+     *
+     * @param id - The unique identifier of the author or genre.
+     * @returns A promise that resolves to `true` once it is deleted.
+     *
+     * @throws NotFoundException - If none is found with the given ID.
+     * @throws BadRequestException - If it is still credited on a book.
+     * @throws UnauthorizedException - If the user is not authenticated or does not have the required role.
+     */
+    @Delete(':id')
+    @UseGuards(JwtAuthGuard)
+    @Roles(RoleTypes.ADMIN)
+    async remove(@Param('id', ParseIntPipe) id: number): Promise<boolean> {
+      return await this.creditService.remove(id);
+    }
+  }
+
+  return BaseCreditController;
+}
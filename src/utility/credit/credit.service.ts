@@ -0,0 +1,270 @@
+import {
+  BadRequestException,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { FindOptionsWhere, In, Not, Repository } from 'typeorm';
+import { BookEntity } from '../../book/entities/book.entity';
+import { UserEntity } from '../../user/entities/user.entity';
+import { PaginationQueryDto } from '../dto/pagination-query.dto';
+import { PaginatedResult } from '../interfaces/paginated-result.interface';
+import { paginate } from '../helpers/paginate';
+import { actorName } from '../helpers/actor';
+import {
+  backfillCreditLinks,
+  syncCreditNames,
+} from '../../book/helpers/book-credits';
+import { CreditDto, CreditEntity, CreditKind } from './credit-kind.interface';
+
+/**
+ * Manages one kind of book credit: authors or genres.
+ *
+ * Both are named rows linked to books through a join table, whose names are also kept in the
+ * book's `author` or `genre` display column.
+ */
+export abstract class CreditService<T extends CreditEntity, D extends CreditDto>
+  implements OnModuleInit
+{
+  protected constructor(
+    private readonly creditEntityRepository: Repository<T>,
+    private readonly bookEntityRepository: Repository<BookEntity>,
+    private readonly kind: CreditKind,
+  ) {}
+
+  /**
+   * Links books created before authors and genres existed to the names in their display column,
+   * so credit filters, facets and book listings include them.
+   */
+  async onModuleInit(): Promise<void> {
+    await this.creditEntityRepository.manager.transaction(
+      async (manager) => await backfillCreditLinks(manager, this.kind.alias),
+    );
+  }
+
+  /**
+   * Creates a new author or genre.
+   *
+   * @param creditDto - The name and optional details of the author or genre.
+   * @param currentUser - (Optional) The authenticated user creating it.
+   * @returns A promise that resolves to the created author or genre.
+   * @throws BadRequestException - If one with the same name already exists.
+   */
+  async create(creditDto: D, currentUser?: UserEntity): Promise<T> {
+    await this.assertNameAvailable(creditDto.name);
+    const credit = Object.assign(this.creditEntityRepository.create(), {
+      ...creditDto,
+      name: creditDto.name.trim(),
+      createdBy: actorName(currentUser),
+      updatedBy: actorName(currentUser),
+    });
+    return await this.creditEntityRepository.save(credit);
+  }
+
+  /**
+   * Retrieves a page of authors or genres, sorted by name.
+   *
+   * @param name - (Optional) Filter by name. Supports partial, case-insensitive matches.
+   * @param paginationQueryDto - (Optional) Page and page size.
+   * @returns A promise that resolves to a page of authors or genres.
+   */
+  async findAll(
+    name?: string,
+    paginationQueryDto?: PaginationQueryDto,
+  ): Promise<PaginatedResult<T>> {
+    const { alias } = this.kind;
+    const query = this.creditEntityRepository
+      .createQueryBuilder(alias)
+      .orderBy(`${alias}.name`, 'ASC')
+      .addOrderBy(`${alias}.id`, 'ASC');
+    if (name) {
+      query.where(`${alias}.name ILIKE :name`, { name: `%${name}%` });
+    }
+    return await paginate(query, paginationQueryDto);
+  }
+
+  /**
+   * Retrieves a single author or genre by its ID.
+   *
+   * @param id - The unique identifier of the author or genre.
+   * @returns A promise that resolves to the author or genre.
+   * @throws NotFoundException - If none is found with the given ID.
+   */
+  async findOne(id: number): Promise<T> {
+    const credit = await this.creditEntityRepository.findOne({
+      where: { id } as FindOptionsWhere<T>,
+    });
+
+    if (!credit) {
+      throw new NotFoundException(`${this.label} not found`);
+    }
+
+    return credit;
+  }
+
+  /**
+   * Retrieves a page of the books credited to an author or tagged with a genre, sorted by title.
+   *
+   * @param id - The unique identifier of the author or genre.
+   * @param paginationQueryDto - (Optional) Page and page size.
+   * @returns A promise that resolves to a page of books.
+   * @throws NotFoundException - If no author or genre is found with the given ID.
+   */
+  async findBooks(
+    id: number,
+    paginationQueryDto?: PaginationQueryDto,
+  ): Promise<PaginatedResult<BookEntity>> {
+    await this.findOne(id);
+    const { alias } = this.kind;
+    const query = this.bookEntityRepository
+      .createQueryBuilder('book')
+      .innerJoin(`book.${alias}s`, alias, `${alias}.id = :id`, { id })
+      .orderBy('book.title', 'ASC')
+      .addOrderBy('book.id', 'ASC');
+    return await paginate(query, paginationQueryDto);
+  }
+
+  /**
+   * Updates an author or genre.
+   *
+   * Renaming it rewrites the `author` or `genre` column of every book it is credited on.
+   *
+   * @param id - The unique identifier of the author or genre.
+   * @param creditDto - The new name and optional details.
+   * @param currentUser - (Optional) The authenticated user updating it.
+   * @returns A promise that resolves to the updated author or genre.
+   * @throws NotFoundException - If none is found with the given ID.
+   * @throws BadRequestException - If another one already has the new name.
+   */
+  async update(id: number, creditDto: D, currentUser?: UserEntity): Promise<T> {
+    const credit = await this.findOne(id);
+    await this.assertNameAvailable(creditDto.name, id);
+    return await this.creditEntityRepository.manager.transaction(
+      async (manager) => {
+        Object.assign(credit, creditDto, {
+          name: creditDto.name.trim(),
+          updatedBy: actorName(currentUser),
+        });
+        await manager.save(credit);
+        await syncCreditNames(
+          manager,
+          await this.findBookIds([id]),
+          currentUser,
+        );
+        return credit;
+      },
+    );
+  }
+
+  /**
+   * Merges duplicate authors or genres into this one.
+   *
+   * Every book credited to a source is credited to this one instead, the book `author` or `genre`
+   * columns are rewritten, and the sources are deleted.
+   *
+   * @param id - The unique identifier of the author or genre to keep.
+   * @param sourceIds - The unique identifiers of the ones to merge into it.
+   * @param currentUser - (Optional) The authenticated user merging them.
+   * @returns A promise that resolves to the kept author or genre.
+   * @throws NotFoundException - If the kept one or one of the sources is not found.
+   * @throws BadRequestException - If the kept one is listed as one of its own sources.
+   */
+  async merge(
+    id: number,
+    sourceIds: number[],
+    currentUser?: UserEntity,
+  ): Promise<T> {
+    const credit = await this.findOne(id);
+    if (sourceIds.includes(id)) {
+      throw new BadRequestException(
+        `${this.kind.article} cannot be merged into itself`,
+      );
+    }
+    const uniqueSourceIds = [...new Set(sourceIds)];
+    const sources = await this.creditEntityRepository.findBy({
+      id: In(uniqueSourceIds),
+    } as FindOptionsWhere<T>);
+    if (sources.length !== uniqueSourceIds.length) {
+      throw new NotFoundException(`${this.label} not found`);
+    }
+
+    const { alias, joinTable } = this.kind;
+    await this.creditEntityRepository.manager.transaction(async (manager) => {
+      const bookIds = await this.findBookIds(uniqueSourceIds);
+      await manager.query(
+        `INSERT INTO "${joinTable}" ("bookId", "${alias}Id")
+         SELECT DISTINCT "bookId", $1::int FROM "${joinTable}" WHERE "${alias}Id" = ANY($2)
+         ON CONFLICT DO NOTHING`,
+        [id, uniqueSourceIds],
+      );
+      await manager.delete(this.creditEntityRepository.target, uniqueSourceIds);
+      await syncCreditNames(manager, bookIds, currentUser);
+    });
+    return credit;
+  }
+
+  /**
+   * Deletes an author or genre that is not credited on any book.
+   *
+   * @param id - The unique identifier of the author or genre.
+   * @returns A promise that resolves to `true` once it is deleted.
+   * @throws NotFoundException - If none is found with the given ID.
+   * @throws BadRequestException - If it is still credited on a book, including books in the trash.
+   */
+  async remove(id: number): Promise<boolean> {
+    await this.findOne(id);
+    if ((await this.findBookIds([id])).length) {
+      throw new BadRequestException(
+        `${this.label} still has books; merge it into another ${this.kind.alias} instead`,
+      );
+    }
+    await this.creditEntityRepository.delete(id);
+    return true;
+  }
+
+  /** The capitalized name of the credit, e.g. `Author`. */
+  private get label(): string {
+    const { alias } = this.kind;
+    return alias.charAt(0).toUpperCase() + alias.slice(1);
+  }
+
+  /**
+   * Finds the books credited to any of the given authors or genres, including books in the trash.
+   *
+   * @param creditIds - The unique identifiers of the authors or genres.
+   * @returns A promise that resolves to the IDs of the books.
+   */
+  private async findBookIds(creditIds: number[]): Promise<string[]> {
+    const { alias } = this.kind;
+    const books = await this.bookEntityRepository
+      .createQueryBuilder('book')
+      .withDeleted()
+      .select('book.id', 'id')
+      .innerJoin(`book.${alias}s`, alias, `${alias}.id IN (:...creditIds)`, {
+        creditIds,
+      })
+      .distinct()
+      .getRawMany<{ id: string }>();
+    return books.map((book) => book.id);
+  }
+
+  /**
+   * Makes sure no other author or genre of the same kind has the given name.
+   *
+   * @param name - The name to check.
+   * @param id - (Optional) The one being renamed, which may keep its own name.
+   * @throws BadRequestException - If another one already has the name.
+   */
+  private async assertNameAvailable(name: string, id?: number): Promise<void> {
+    const existing = await this.creditEntityRepository.findOne({
+      where: {
+        name: name.trim(),
+        ...(id && { id: Not(id) }),
+      } as FindOptionsWhere<T>,
+    });
+    if (existing) {
+      throw new BadRequestException(
+        `${this.kind.article} with this name already exists`,
+      );
+    }
+  }
+}
@@ -0,0 +1,8 @@
+import { ArrayNotEmpty, IsArray, IsInt } from 'class-validator';
+
+export class MergeDto {
+  @IsArray({ message: 'Source IDs must be an Array of Numbers' })
+  @ArrayNotEmpty({ message: 'Source IDs are Required' })
+  @IsInt({ each: true, message: 'Source IDs must be integers' })
+  sourceIds: number[];
+}
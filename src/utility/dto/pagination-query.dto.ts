@@ -0,0 +1,17 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class PaginationQueryDto {
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  @Type(() => Number)
+  @IsOptional()
+  page?: number;
+
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must not be greater than 100' })
+  @Type(() => Number)
+  @IsOptional()
+  limit?: number;
+}
@@ -5,14 +5,29 @@ import {
   UnauthorizedException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { DataSource } from 'typeorm';
+import { SessionEntity } from '../../user/entities/session.entity';
+import { activeSessionWhere } from '../../user/helpers/session';
 
 @Injectable()
 export class JwtAuthGuard implements CanActivate {
-  constructor(private readonly jwtService: JwtService) {}
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly dataSource: DataSource,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean | Promise<boolean> {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
-    const ignoredRoutes = ['/api/v1/user/signin', '/api/v1/user/signup'];
+    const ignoredRoutes = [
+      '/api/v1/user/signin',
+      '/api/v1/user/signin/2fa',
+      '/api/v1/user/signup',
+      '/api/v1/user/refresh',
+      '/api/v1/user/forgot-password',
+      '/api/v1/user/reset-password',
+      '/api/v1/user/verify-email',
+      '/api/v1/user/resend-verification',
+    ];
 
     if (ignoredRoutes.includes(request.path)) {
       return true;
@@ -23,12 +38,25 @@ export class JwtAuthGuard implements CanActivate {
       throw new UnauthorizedException('Token not provided. Please log in.');
     }
 
+    let payload: { sid?: string };
     try {
-      this.jwtService.verify(token);
-      return true;
+      payload = this.jwtService.verify(token);
     } catch (error) {
       console.log(error);
       throw new UnauthorizedException('Invalid or expired token.');
     }
+
+    // Access tokens outlive logout, so the session they belong to must still be active.
+    const sessionActive =
+      typeof payload.sid === 'string' &&
+      (await this.dataSource
+        .getRepository(SessionEntity)
+        .exists({ where: activeSessionWhere(payload.sid) }));
+    if (!sessionActive) {
+      throw new UnauthorizedException(
+        'Session has been revoked. Please log in.',
+      );
+    }
+    return true;
   }
 }
@@ -6,6 +6,8 @@ import {
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { Observable } from 'rxjs';
+import { RoleTypes } from '../../enum/user-enum';
+import { isTwoFactorRequired } from '../../user/helpers/two-factor';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
@@ -14,7 +16,16 @@ export class RolesGuard implements CanActivate {
   canActivate(
     context: ExecutionContext,
   ): boolean | Promise<boolean> | Observable<boolean> {
-    const ignoredRoutes = ['/api/v1/user/signin', '/api/v1/user/signup'];
+    const ignoredRoutes = [
+      '/api/v1/user/signin',
+      '/api/v1/user/signin/2fa',
+      '/api/v1/user/signup',
+      '/api/v1/user/refresh',
+      '/api/v1/user/forgot-password',
+      '/api/v1/user/reset-password',
+      '/api/v1/user/verify-email',
+      '/api/v1/user/resend-verification',
+    ];
 
     const request = context.switchToHttp().getRequest();
 
@@ -39,6 +50,14 @@ export class RolesGuard implements CanActivate {
       throw new ForbiddenException('You do not have the required role');
     }
 
+    // Admin-only routes stay closed to admins who must use two-factor authentication until they enroll.
+    const adminOnly = roles.every((role) => role === RoleTypes.ADMIN);
+    if (adminOnly && isTwoFactorRequired(user) && !user.totpEnabled) {
+      throw new ForbiddenException(
+        'Two-factor authentication is required for admins; enroll at /user/2fa/enroll',
+      );
+    }
+
     return true;
   }
 }
@@ -0,0 +1,11 @@
+import { UserEntity } from '../../user/entities/user.entity';
+
+/**
+ * Returns the name recorded in `createdBy`/`updatedBy` style columns for the user performing an action.
+ *
+ * @param user - (Optional) The authenticated user. Actions without a user are attributed to `System`.
+ * @returns The user's email, or `System`.
+ */
+export function actorName(user?: UserEntity): string {
+  return user?.email || 'System';
+}
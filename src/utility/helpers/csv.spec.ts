@@ -0,0 +1,54 @@
+import { parseCsv, toCsvLine } from './csv';
+
+describe('csv', () => {
+  describe('parseCsv', () => {
+    it('maps each row to the header row', () => {
+      expect(parseCsv('title,price\nDune,9.99\nEmma,4.50\n')).toEqual([
+        { title: 'Dune', price: '9.99' },
+        { title: 'Emma', price: '4.50' },
+      ]);
+    });
+
+    it('handles quoted commas, line breaks and doubled quotes', () => {
+      expect(
+        parseCsv('title,description\r\n"Dune","Spice, sand\r\nand ""worms"""'),
+      ).toEqual([{ title: 'Dune', description: 'Spice, sand\r\nand "worms"' }]);
+    });
+
+    it('strips a byte order mark, trims headers and skips blank lines', () => {
+      expect(parseCsv('\uFEFF title , price\n\nDune,9.99\n\n')).toEqual([
+        { title: 'Dune', price: '9.99' },
+      ]);
+    });
+
+    it('fills missing fields with empty strings', () => {
+      expect(parseCsv('title,price,genre\nDune,9.99')).toEqual([
+        { title: 'Dune', price: '9.99', genre: '' },
+      ]);
+    });
+
+    it('returns no rows for empty input', () => {
+      expect(parseCsv('')).toEqual([]);
+    });
+  });
+
+  describe('toCsvLine', () => {
+    it('quotes fields that need it and ends with CRLF', () => {
+      expect(toCsvLine(['Dune', 'Spice, sand', 'say "hi"', 'a\nb'])).toBe(
+        'Dune,"Spice, sand","say ""hi""","a\nb"\r\n',
+      );
+    });
+
+    it('writes empty fields for null and undefined, and ISO dates', () => {
+      expect(
+        toCsvLine([null, undefined, 0, new Date('2024-02-29T00:00:00Z')]),
+      ).toBe(',,0,2024-02-29T00:00:00.000Z\r\n');
+    });
+
+    it('round-trips through parseCsv', () => {
+      const row = { title: 'Dune, Part "One"', price: '9.99' };
+      const csv = toCsvLine(Object.keys(row)) + toCsvLine(Object.values(row));
+      expect(parseCsv(csv)).toEqual([row]);
+    });
+  });
+});
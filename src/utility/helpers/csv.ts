@@ -0,0 +1,84 @@
+/**
+ * Parses CSV text (RFC 4180) into one object per row, keyed by the header row.
+ *
+ * Quoted fields may contain commas, line breaks and doubled quotes. Blank lines are skipped.
+ *
+ * @param content - The CSV text, including a header row.
+ * @returns An array of rows, each mapping a header to the field value.
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const rows = records.filter(
+    (values) => values.length > 1 || values[0].trim() !== '',
+  );
+  if (!rows.length) {
+    return [];
+  }
+
+  const headers = rows[0].map((header) => header.trim());
+  return rows.slice(1).map((values) =>
+    headers.reduce<Record<string, string>>((row, header, index) => {
+      row[header] = values[index] ?? '';
+      return row;
+    }, {}),
+  );
+}
+
+/**
+ * Formats a single row of values as a CSV line, quoting fields where needed.
+ *
+ * @param values - The field values of the row. `null` and `undefined` become empty fields.
+ * @returns The CSV line, terminated with `\r\n`.
+ */
+export function toCsvLine(values: unknown[]): string {
+  return (
+    values
+      .map((value) => {
+        if (value === null || value === undefined) {
+          return '';
+        }
+        const text =
+          value instanceof Date ? value.toISOString() : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n'
+  );
+}
@@ -0,0 +1,49 @@
+import {
+  BadRequestException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { assertVersion, parseIfMatch, toEtag } from './etag';
+
+describe('etag', () => {
+  it('formats a version as a quoted entity tag', () => {
+    expect(toEtag(3)).toBe('"3"');
+  });
+
+  describe('parseIfMatch', () => {
+    it('reads strong and weak tags', () => {
+      expect(parseIfMatch('"3"')).toBe(3);
+      expect(parseIfMatch(' W/"12" ')).toBe(12);
+    });
+
+    it('accepts any version for a missing header or *', () => {
+      expect(parseIfMatch()).toBeUndefined();
+      expect(parseIfMatch('')).toBeUndefined();
+      expect(parseIfMatch('*')).toBeUndefined();
+    });
+
+    it('rejects a header that names no version', () => {
+      expect(() => parseIfMatch('3')).toThrow(BadRequestException);
+      expect(() => parseIfMatch('"abc"')).toThrow(BadRequestException);
+      expect(() => parseIfMatch('"3", "4"')).toThrow(BadRequestException);
+    });
+  });
+
+  describe('assertVersion', () => {
+    it('passes when the versions match or none is expected', () => {
+      expect(() => assertVersion('Book', 3, 3)).not.toThrow();
+      expect(() => assertVersion('Book', 3)).not.toThrow();
+    });
+
+    it('rejects a stale version with the current version and tag', () => {
+      expect.assertions(2);
+      try {
+        assertVersion('Book', 4, 3);
+      } catch (error) {
+        expect(error).toBeInstanceOf(PreconditionFailedException);
+        expect(
+          (error as PreconditionFailedException).getResponse(),
+        ).toMatchObject({ statusCode: 412, version: 4, etag: '"4"' });
+      }
+    });
+  });
+});
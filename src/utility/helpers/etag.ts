@@ -0,0 +1,62 @@
+import {
+  BadRequestException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+
+/**
+ * Formats an entity version as an `ETag` header value.
+ *
+ * @param version - The value of the entity's version column.
+ * @returns The quoted entity tag.
+ */
+export function toEtag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Reads the version a client expects from an `If-Match` header.
+ *
+ * Weak tags are accepted, since versions are compared rather than bytes. A missing header or `*`
+ * means the client does not care which version it overwrites.
+ *
+ * @param ifMatch - (Optional) The raw `If-Match` header.
+ * @returns The expected version, or `undefined` when any version will do.
+ * @throws BadRequestException - If the header is not a version tag, such as `"3"`.
+ */
+export function parseIfMatch(ifMatch?: string): number | undefined {
+  const tag = ifMatch?.trim();
+  if (!tag || tag === '*') {
+    return undefined;
+  }
+  const match = /^(?:W\/)?"(\d+)"$/.exec(tag);
+  if (!match) {
+    throw new BadRequestException(
+      'If-Match must be the ETag of an earlier read, such as "3", or *',
+    );
+  }
+  return Number(match[1]);
+}
+
+/**
+ * Rejects a write when the client's copy of an entity is stale.
+ *
+ * @param entityName - The name of the entity, used in the error message.
+ * @param currentVersion - The version of the entity as stored.
+ * @param expectedVersion - (Optional) The version the client last read; any version is accepted when omitted.
+ * @throws PreconditionFailedException - If the versions differ. The response carries the current version.
+ */
+export function assertVersion(
+  entityName: string,
+  currentVersion: number,
+  expectedVersion?: number,
+): void {
+  if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+    throw new PreconditionFailedException({
+      statusCode: 412,
+      message: `${entityName} has been changed by someone else; reload it and try again`,
+      error: 'Precondition Failed',
+      version: currentVersion,
+      etag: toEtag(currentVersion),
+    });
+  }
+}
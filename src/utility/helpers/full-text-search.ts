@@ -0,0 +1,15 @@
+export const SEARCH_CONFIG = 'english';
+
+/**
+ * Turns free text typed by a user into a prefix-matching `tsquery` expression.
+ *
+ * Every word must match, and the last characters typed may be the start of a longer word,
+ * so `harr pot` matches "Harry Potter". Punctuation and `tsquery` operators are dropped.
+ *
+ * @param text - The search text as typed by the user.
+ * @returns The `tsquery` expression, or an empty string if the text contains no words.
+ */
+export function toPrefixTsQuery(text: string): string {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return terms.map((term) => `${term}:*`).join(' & ');
+}
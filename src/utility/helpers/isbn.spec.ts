@@ -0,0 +1,66 @@
+import {
+  isbn10To13,
+  isbn13To10,
+  isValidIsbn10,
+  isValidIsbn13,
+  normalizeIsbn,
+  toIsbn13,
+} from './isbn';
+
+describe('isbn', () => {
+  describe('normalizeIsbn', () => {
+    it('strips hyphens and spaces and upper-cases the check digit', () => {
+      expect(normalizeIsbn(' 0-8044-2957-x ')).toBe('080442957X');
+      expect(normalizeIsbn('978 0 7475 3269 9')).toBe('9780747532699');
+    });
+  });
+
+  describe('isValidIsbn10', () => {
+    it('accepts valid ISBN-10s, including an X check digit', () => {
+      expect(isValidIsbn10('0747532699')).toBe(true);
+      expect(isValidIsbn10('080442957X')).toBe(true);
+    });
+
+    it('rejects a wrong check digit or malformed input', () => {
+      expect(isValidIsbn10('0747532698')).toBe(false);
+      expect(isValidIsbn10('074753269')).toBe(false);
+      expect(isValidIsbn10('X747532699')).toBe(false);
+    });
+  });
+
+  describe('isValidIsbn13', () => {
+    it('accepts a valid ISBN-13', () => {
+      expect(isValidIsbn13('9780747532699')).toBe(true);
+    });
+
+    it('rejects a wrong check digit or malformed input', () => {
+      expect(isValidIsbn13('9780747532698')).toBe(false);
+      expect(isValidIsbn13('978074753269X')).toBe(false);
+      expect(isValidIsbn13('978074753269')).toBe(false);
+    });
+  });
+
+  describe('conversion', () => {
+    it('converts between ISBN-10 and ISBN-13', () => {
+      expect(isbn10To13('0747532699')).toBe('9780747532699');
+      expect(isbn13To10('9780747532699')).toBe('0747532699');
+      expect(isbn13To10('9780804429573')).toBe('080442957X');
+    });
+
+    it('has no ISBN-10 for 979-prefixed ISBN-13s', () => {
+      expect(isbn13To10('9791032305690')).toBeNull();
+    });
+  });
+
+  describe('toIsbn13', () => {
+    it('normalizes either form to an ISBN-13', () => {
+      expect(toIsbn13('978-0-7475-3269-9')).toBe('9780747532699');
+      expect(toIsbn13('0-7475-3269-9')).toBe('9780747532699');
+    });
+
+    it('returns null for an invalid ISBN', () => {
+      expect(toIsbn13('0-7475-3269-8')).toBeNull();
+      expect(toIsbn13('not an isbn')).toBeNull();
+    });
+  });
+});
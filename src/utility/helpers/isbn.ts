@@ -0,0 +1,99 @@
+/**
+ * Strips hyphens and whitespace from an ISBN and upper-cases a trailing `x` check digit.
+ *
+ * @param isbn - The ISBN as typed by the user, e.g. `978-0-7475-3269-9`.
+ * @returns The ISBN with only digits (and an optional `X`).
+ */
+export function normalizeIsbn(isbn: string): string {
+  return isbn.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Checks whether a normalized string is a valid ISBN-10, including its check digit.
+ *
+ * @param isbn - The normalized ISBN-10.
+ * @returns `true` if the ISBN-10 is valid, otherwise `false`.
+ */
+export function isValidIsbn10(isbn: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(isbn)) {
+    return false;
+  }
+  const sum = isbn
+    .split('')
+    .reduce(
+      (total, char, index) =>
+        total + (char === 'X' ? 10 : Number(char)) * (10 - index),
+      0,
+    );
+  return sum % 11 === 0;
+}
+
+/**
+ * Checks whether a normalized string is a valid ISBN-13, including its check digit.
+ *
+ * @param isbn - The normalized ISBN-13.
+ * @returns `true` if the ISBN-13 is valid, otherwise `false`.
+ */
+export function isValidIsbn13(isbn: string): boolean {
+  if (!/^\d{13}$/.test(isbn)) {
+    return false;
+  }
+  return isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+}
+
+/**
+ * Converts an ISBN-10 to its ISBN-13 (`978` prefixed) form.
+ *
+ * @param isbn10 - A valid, normalized ISBN-10.
+ * @returns The equivalent ISBN-13.
+ */
+export function isbn10To13(isbn10: string): string {
+  const body = `978${isbn10.slice(0, 9)}`;
+  return body + isbn13CheckDigit(body);
+}
+
+/**
+ * Converts an ISBN-13 to its ISBN-10 form.
+ * Only `978` prefixed ISBN-13s have an ISBN-10 equivalent.
+ *
+ * @param isbn13 - A valid, normalized ISBN-13.
+ * @returns The equivalent ISBN-10, or `null` if there is none.
+ */
+export function isbn13To10(isbn13: string): string | null {
+  if (!isbn13.startsWith('978')) {
+    return null;
+  }
+  const body = isbn13.slice(3, 12);
+  const sum = body
+    .split('')
+    .reduce((total, char, index) => total + Number(char) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return body + (check === 10 ? 'X' : String(check));
+}
+
+/**
+ * Normalizes an ISBN-10 or ISBN-13 and returns it in ISBN-13 form.
+ *
+ * @param isbn - The ISBN as typed by the user.
+ * @returns The ISBN-13, or `null` if the value is not a valid ISBN.
+ */
+export function toIsbn13(isbn: string): string | null {
+  const normalized = normalizeIsbn(isbn);
+  if (isValidIsbn13(normalized)) {
+    return normalized;
+  }
+  if (isValidIsbn10(normalized)) {
+    return isbn10To13(normalized);
+  }
+  return null;
+}
+
+function isbn13CheckDigit(body: string): string {
+  const sum = body
+    .split('')
+    .reduce(
+      (total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3),
+      0,
+    );
+  return String((10 - (sum % 10)) % 10);
+}
@@ -0,0 +1,71 @@
+import { SelectQueryBuilder } from 'typeorm';
+import {
+  DEFAULT_LIMIT,
+  DEFAULT_PAGE,
+  paginate,
+  resolvePagination,
+  toPaginatedResult,
+} from './paginate';
+
+describe('paginate', () => {
+  describe('resolvePagination', () => {
+    it('falls back to the defaults', () => {
+      expect(resolvePagination()).toEqual({
+        page: DEFAULT_PAGE,
+        limit: DEFAULT_LIMIT,
+        skip: 0,
+      });
+    });
+
+    it('skips the rows of the earlier pages', () => {
+      expect(resolvePagination({ page: 3, limit: 10 })).toEqual({
+        page: 3,
+        limit: 10,
+        skip: 20,
+      });
+    });
+  });
+
+  describe('toPaginatedResult', () => {
+    it('points at the next page while there is one', () => {
+      expect(toPaginatedResult(['a', 'b'], 5, 2, 2)).toEqual({
+        items: ['a', 'b'],
+        total: 5,
+        page: 2,
+        limit: 2,
+        totalPages: 3,
+        hasNextPage: true,
+        nextPage: 3,
+      });
+    });
+
+    it('has no next page on the last page or without rows', () => {
+      expect(toPaginatedResult(['e'], 5, 3, 2)).toMatchObject({
+        hasNextPage: false,
+        nextPage: null,
+      });
+      expect(toPaginatedResult([], 0, 1, 20)).toMatchObject({
+        totalPages: 0,
+        hasNextPage: false,
+        nextPage: null,
+      });
+    });
+  });
+
+  it('applies skip and take to the query', async () => {
+    const query = {
+      skip: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      getManyAndCount: jest.fn().mockResolvedValue([['c', 'd'], 4]),
+    };
+
+    const result = await paginate(
+      query as unknown as SelectQueryBuilder<object>,
+      { page: 2, limit: 2 },
+    );
+
+    expect(query.skip).toHaveBeenCalledWith(2);
+    expect(query.take).toHaveBeenCalledWith(2);
+    expect(result).toMatchObject({ items: ['c', 'd'], total: 4, page: 2 });
+  });
+});
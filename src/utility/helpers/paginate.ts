@@ -0,0 +1,66 @@
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { PaginationQueryDto } from '../dto/pagination-query.dto';
+import { PaginatedResult } from '../interfaces/paginated-result.interface';
+
+export const DEFAULT_PAGE = 1;
+export const DEFAULT_LIMIT = 20;
+
+/**
+ * Resolves the page and limit to use for a query, falling back to the defaults.
+ *
+ * @param pagination - The page and limit requested by the client.
+ * @returns The page number and page size, plus the number of rows to skip.
+ */
+export function resolvePagination(pagination?: PaginationQueryDto): {
+  page: number;
+  limit: number;
+  skip: number;
+} {
+  const page = pagination?.page || DEFAULT_PAGE;
+  const limit = pagination?.limit || DEFAULT_LIMIT;
+  return { page, limit, skip: (page - 1) * limit };
+}
+
+/**
+ * Wraps a page of rows and the total row count in a `PaginatedResult` envelope.
+ *
+ * @param items - The rows on the requested page.
+ * @param total - The total number of rows matching the query.
+ * @param page - The requested page number (1-based).
+ * @param limit - The page size.
+ * @returns The paginated envelope, including next-page information.
+ */
+export function toPaginatedResult<T>(
+  items: T[],
+  total: number,
+  page: number,
+  limit: number,
+): PaginatedResult<T> {
+  const totalPages = Math.ceil(total / limit);
+  const hasNextPage = page < totalPages;
+  return {
+    items,
+    total,
+    page,
+    limit,
+    totalPages,
+    hasNextPage,
+    nextPage: hasNextPage ? page + 1 : null,
+  };
+}
+
+/**
+ * Applies `skip`/`take` to a query builder and returns the requested page.
+ *
+ * @param query - The query builder, with filters and ordering already applied.
+ * @param pagination - The page and limit requested by the client.
+ * @returns A promise that resolves to the paginated envelope.
+ */
+export async function paginate<T extends ObjectLiteral>(
+  query: SelectQueryBuilder<T>,
+  pagination?: PaginationQueryDto,
+): Promise<PaginatedResult<T>> {
+  const { page, limit, skip } = resolvePagination(pagination);
+  const [items, total] = await query.skip(skip).take(limit).getManyAndCount();
+  return toPaginatedResult(items, total, page, limit);
+}
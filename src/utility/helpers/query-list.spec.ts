@@ -0,0 +1,28 @@
+import { toQueryList } from './query-list';
+
+describe('toQueryList', () => {
+  it('returns undefined when the parameter is absent', () => {
+    expect(toQueryList(undefined)).toBeUndefined();
+    expect(toQueryList(null)).toBeUndefined();
+  });
+
+  it('splits comma-separated values and trims them', () => {
+    expect(toQueryList(' 1, 2 ,3')).toEqual(['1', '2', '3']);
+  });
+
+  it('flattens repeated parameters', () => {
+    expect(toQueryList(['1,2', '3'])).toEqual(['1', '2', '3']);
+  });
+
+  it('drops empty values', () => {
+    expect(toQueryList('1,,2,')).toEqual(['1', '2']);
+    expect(toQueryList('')).toEqual([]);
+  });
+
+  it('splits on a custom separator', () => {
+    expect(toQueryList('price:between:1,5;status:eq:In Stock', ';')).toEqual([
+      'price:between:1,5',
+      'status:eq:In Stock',
+    ]);
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Reads a multi-value query parameter, given either repeated (`?id=1&id=2`) or comma-separated (`?id=1,2`).
+ *
+ * @param value - The raw query value: a string, an array of strings, or nothing.
+ * @param separator - (Optional) The separator between values in a single parameter; a comma by default.
+ * @returns The trimmed, non-empty values, or `undefined` when the parameter is absent.
+ */
+export function toQueryList(
+  value: unknown,
+  separator = ',',
+): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return []
+    .concat(value)
+    .flatMap((item) => String(item).split(separator))
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}
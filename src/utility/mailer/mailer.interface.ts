@@ -0,0 +1,18 @@
+export const MAILER = 'MAILER';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  /** The plain-text body. */
+  text: string;
+}
+
+export interface Mailer {
+  /**
+   * Sends an email.
+   *
+   * @param message - The recipient, subject and body.
+   * @returns A promise that resolves once the message has been handed off for delivery.
+   */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,61 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OutboxMailer } from './outbox-mailer';
+
+describe('OutboxMailer', () => {
+  const env = process.env;
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'outbox-'));
+    process.env = { ...env, MAIL_OUTBOX_DIR: join(dir, 'outbox') };
+    delete process.env.MAIL_FROM;
+  });
+
+  afterEach(async () => {
+    process.env = env;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes each message to an .eml file in the outbox', async () => {
+    const mailer = new OutboxMailer();
+
+    await mailer.send({
+      to: 'reader@example.com',
+      subject: 'Reset your password',
+      text: 'Hello,\nuse this link.',
+    });
+
+    const files = await readdir(join(dir, 'outbox'));
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^\d+-[0-9a-f-]{36}\.eml$/);
+    const [headers, body] = (
+      await readFile(join(dir, 'outbox', files[0]), 'utf8')
+    ).split('\r\n\r\n');
+    expect(headers.split('\r\n')).toEqual([
+      'From: no-reply@localhost',
+      'To: reader@example.com',
+      'Subject: Reset your password',
+      expect.stringMatching(/^Date: .+ GMT$/),
+      'Content-Type: text/plain; charset=utf-8',
+    ]);
+    expect(body).toBe('Hello,\nuse this link.');
+  });
+
+  it('uses MAIL_FROM as the sender and keeps every message', async () => {
+    process.env.MAIL_FROM = 'library@example.com';
+    const mailer = new OutboxMailer();
+
+    await mailer.send({ to: 'a@example.com', subject: 'One', text: '1' });
+    await mailer.send({ to: 'b@example.com', subject: 'Two', text: '2' });
+
+    const files = await readdir(join(dir, 'outbox'));
+    expect(files).toHaveLength(2);
+    for (const file of files) {
+      expect(await readFile(join(dir, 'outbox', file), 'utf8')).toContain(
+        'From: library@example.com\r\n',
+      );
+    }
+  });
+});
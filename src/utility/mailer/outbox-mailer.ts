@@ -0,0 +1,36 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import * as dotenv from 'dotenv';
+import { Mailer, MailMessage } from './mailer.interface';
+
+dotenv.config();
+
+/**
+ * Mailer that writes each message to a file instead of sending it, for local development and tests.
+ *
+ * Messages are stored as `.eml` files under `MAIL_OUTBOX_DIR` (`./outbox` by default), named so they
+ * sort in the order they were sent, and can be opened with any mail client.
+ */
+@Injectable()
+export class OutboxMailer implements Mailer {
+  private readonly root = resolve(process.env.MAIL_OUTBOX_DIR || 'outbox');
+
+  async send(message: MailMessage): Promise<void> {
+    const sentAt = new Date();
+    await mkdir(this.root, { recursive: true });
+    await writeFile(
+      join(this.root, `${sentAt.getTime()}-${randomUUID()}.eml`),
+      [
+        `From: ${process.env.MAIL_FROM || 'no-reply@localhost'}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${sentAt.toUTCString()}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text,
+      ].join('\r\n'),
+    );
+  }
+}
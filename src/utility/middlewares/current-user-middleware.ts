@@ -8,6 +8,7 @@ import * as dotenv from 'dotenv';
 import { UserService } from '../../user/user.service';
 import { UserEntity } from '../../user/entities/user.entity';
 import { verify } from 'jsonwebtoken';
+import { Status } from '../../enum/user-enum';
 
 dotenv.config();
 declare global {
@@ -15,6 +16,7 @@ declare global {
   namespace Express {
     interface Request {
       currentUser?: UserEntity;
+      sessionId?: string;
     }
   }
 }
@@ -31,7 +33,10 @@ export class CurrentUserMiddleware implements NestMiddleware {
 
     const token = authHeader.split(' ')[1];
     try {
-      const decoded = verify(token, process.env.ACCESS_TOKEN_SECRET_KEY) as { id: number };
+      const decoded = verify(token, process.env.ACCESS_TOKEN_SECRET_KEY) as {
+        id: number;
+        sid: string;
+      };
 
       if (!decoded || typeof decoded.id !== 'number') {
         throw new UnauthorizedException(
@@ -39,13 +44,26 @@ export class CurrentUserMiddleware implements NestMiddleware {
         );
       }
 
+      if (
+        typeof decoded.sid !== 'string' ||
+        !(await this.userService.isSessionActive(decoded.sid))
+      ) {
+        throw new UnauthorizedException('Session has been revoked');
+      }
+
       const user = await this.userService.findOne(decoded.id);
 
       if (!user) {
         throw new UnauthorizedException('User not found');
       }
 
+      if (user.status == Status.DEACTIVATED) {
+        throw new UnauthorizedException('User is Deactivated');
+      }
+
       req['user'] = user;
+      req.currentUser = user;
+      req.sessionId = decoded.sid;
       next();
     } catch (error) {
       if (error.name === 'TokenExpiredError') {
@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, extname, resolve, sep } from 'path';
+import * as dotenv from 'dotenv';
+import { StorageAdapter, StoredFile } from './storage-adapter.interface';
+
+dotenv.config();
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Storage adapter that keeps files on the local filesystem.
+ *
+ * Files live under `LOCAL_STORAGE_DIR` (`./storage` by default), at the path given by their key.
+ * The content type is derived from the file extension of the key.
+ */
+@Injectable()
+export class LocalStorageAdapter implements StorageAdapter {
+  private readonly root = resolve(process.env.LOCAL_STORAGE_DIR || 'storage');
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.resolveKey(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async get(key: string): Promise<StoredFile | null> {
+    const path = this.resolveKey(key);
+    const stats = await stat(path).catch(() => null);
+    if (!stats?.isFile()) {
+      return null;
+    }
+
+    return {
+      body: createReadStream(path),
+      contentType:
+        CONTENT_TYPES[extname(path).toLowerCase()] ||
+        'application/octet-stream',
+      size: stats.size,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  /**
+   * Maps a key to a path under the storage root, refusing keys that would escape it.
+   *
+   * @param key - The key of the file.
+   * @returns The absolute path of the file.
+   */
+  private resolveKey(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
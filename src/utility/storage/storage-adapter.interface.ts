@@ -0,0 +1,37 @@
+import { Readable } from 'stream';
+
+export const STORAGE_ADAPTER = 'STORAGE_ADAPTER';
+
+export interface StoredFile {
+  body: Readable;
+  contentType: string;
+  size: number;
+}
+
+export interface StorageAdapter {
+  /**
+   * Stores a file, replacing any file already stored under the key.
+   *
+   * @param key - The slash-separated key of the file, e.g. `covers/<bookId>/large-1.webp`.
+   * @param body - The file contents.
+   * @param contentType - The MIME type of the file.
+   * @returns A promise that resolves once the file is stored.
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Opens a stored file for reading.
+   *
+   * @param key - The key the file was stored under.
+   * @returns A promise that resolves to the file, or `null` if nothing is stored under the key.
+   */
+  get(key: string): Promise<StoredFile | null>;
+
+  /**
+   * Deletes a stored file. Deleting a key that holds no file is not an error.
+   *
+   * @param key - The key the file was stored under.
+   * @returns A promise that resolves once the file is gone.
+   */
+  delete(key: string): Promise<void>;
+}